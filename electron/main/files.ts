@@ -0,0 +1,90 @@
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+export interface SaveFileRequest {
+  defaultPath: string
+  filters: Electron.FileFilter[]
+  data: Uint8Array
+}
+
+export interface ReadFileRequest {
+  filePath: string
+  // Read the whole file when omitted
+  offset?: number
+  length?: number
+}
+
+// Only the files of a Potree 2.0 dataset can be read back, and only from the folder the user picked
+const READABLE_FILES = new Set(['metadata.json', 'hierarchy.bin', 'octree.bin'])
+// Largest byte range served per request (octree.bin nodes are far smaller)
+const MAX_READ_LENGTH = 256 * 1024 * 1024
+
+// Folder last picked with open-directory, per window (webContents id)
+const openedDirectories = new Map<number, string>()
+
+function resolveReadablePath(senderId: number, filePath: string) {
+  const directory = openedDirectories.get(senderId)
+  if (!directory) throw new Error('No folder has been opened')
+
+  const resolved = path.resolve(filePath)
+  if (path.dirname(resolved) !== directory || !READABLE_FILES.has(path.basename(resolved))) {
+    throw new Error(`Reading ${filePath} is not allowed`)
+  }
+  return resolved
+}
+
+const isByteCount = (value: unknown, max: number): value is number =>
+  typeof value === 'number' && Number.isSafeInteger(value) && value >= 0 && value <= max
+
+export function files() {
+
+  // Ask for a destination with the native dialog and write the bytes there
+  ipcMain.handle('save-file', async (event, { defaultPath, filters, data }: SaveFileRequest) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    const options = { defaultPath, filters }
+    const { canceled, filePath } = win
+      ? await dialog.showSaveDialog(win, options)
+      : await dialog.showSaveDialog(options)
+
+    if (canceled || !filePath) return { canceled: true }
+
+    await fs.writeFile(filePath, data)
+    return { canceled: false, filePath }
+  })
+
+  // Pick a folder with the native dialog (e.g. a Potree dataset)
+  ipcMain.handle('open-directory', async (event) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    const options: Electron.OpenDialogOptions = { properties: ['openDirectory'] }
+    const { canceled, filePaths } = win
+      ? await dialog.showOpenDialog(win, options)
+      : await dialog.showOpenDialog(options)
+
+    if (canceled || filePaths.length === 0) return null
+    const { id } = event.sender
+    if (!openedDirectories.has(id)) event.sender.once('destroyed', () => openedDirectories.delete(id))
+    openedDirectories.set(id, path.resolve(filePaths[0]))
+    return filePaths[0]
+  })
+
+  // Read a file, or only a byte range of it so large files never have to be loaded whole
+  ipcMain.handle('read-file', async (event, { filePath, offset, length }: ReadFileRequest) => {
+    const resolved = resolveReadablePath(event.sender.id, filePath)
+    if (offset === undefined && length === undefined) {
+      return fs.readFile(resolved)
+    }
+    if (!isByteCount(offset, Number.MAX_SAFE_INTEGER) || !isByteCount(length, MAX_READ_LENGTH)) {
+      throw new Error(`Invalid byte range ${offset}+${length}`)
+    }
+
+    const handle = await fs.open(resolved, 'r')
+    try {
+      const buffer = Buffer.alloc(length)
+      const { bytesRead } = await handle.read(buffer, 0, length, offset)
+      return buffer.subarray(0, bytesRead)
+    } finally {
+      await handle.close()
+    }
+  })
+}
@@ -1,6 +1,5 @@
 import React, { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
-import * as pako from 'pako';
 import {
   Box,
   Paper,
@@ -13,26 +12,157 @@ import {
   IconButton,
   Tooltip,
   Chip,
+  LinearProgress,
 } from '@mui/material';
 import {
   ZoomIn,
   ZoomOut,
   CenterFocusStrong,
   CloudUpload,
+  FolderOpen,
   RadioButtonChecked,
 } from '@mui/icons-material';
+import { POINT_CLOUD_ACCEPT, PointCloudData, PointRecord, concatPointClouds, getPoint } from '@/services/pointcloud';
+import { selectPoints } from '@/services/pointcloud/data';
+import { DEFAULT_LOD_OPTIONS, OctreeNode, gatherNode } from '@/services/pointcloud/octree';
+import { LODRenderer, createLODRenderer } from '@/services/pointcloud/lod';
+import { createPotreeDataset, parsePotreeMetadata } from '@/services/pointcloud/potree';
+import { KDTree, pickScreenNearest } from '@/services/pointcloud/kdtree';
+import { ScalarColoring, boundsScalarRange, categoricalColor, isPositionField, scalarRange } from '@/services/pointcloud/colormap';
+import {
+  Measurement,
+  MeasurementKind,
+  MeasurementPoint,
+  measurementKind,
+  measurementsToCSV,
+  measurementsToJSON,
+} from '@/services/pointcloud/measure';
+import { Histogram, RangeFilter, computeHistogram } from '@/services/pointcloud/filter';
+import { PointCloudBounds } from '@/services/pointcloud/types';
+import { ScreenPolygon, countSelected, frontSurface, selectInBox, selectInCircle, selectInLasso, selectedIndices } from '@/services/pointcloud/selection';
+import { DEFAULT_HISTORY_LIMIT, HistoryItem, createEditHistory } from '@/services/pointcloud/history';
+import { VoxelOptions } from '@/services/pointcloud/voxel';
+import { OutlierOptions } from '@/services/pointcloud/outliers';
+import { GroundOptions, planeInOriginal } from '@/services/pointcloud/ground';
+import { ClusterOptions } from '@/services/pointcloud/clusters';
+import {
+  Cuboid,
+  CuboidFields,
+  defaultCuboidSize,
+  formatCuboidJson,
+  formatKittiLabels,
+  parseCuboidJson,
+  parseKittiLabels,
+  pointInCuboid,
+} from '@/services/pointcloud/cuboids';
+import {
+  TextImportOptions,
+  guessTextImportOptions,
+  isTextPointCloud,
+  readTextSample,
+} from '@/services/pointcloud/text';
+import {
+  SemanticClass,
+  colorByLabels,
+  encodeKITTILabels,
+  loadSemanticPalette,
+  pairKITTIFiles,
+  resetSemanticPalette,
+  saveSemanticPalette,
+  semanticClassName,
+  semanticColors,
+} from '@/services/pointcloud/kitti';
+import { UNLABELED, countLabels, ensureLabels, paintLabels } from '@/services/pointcloud/semantic';
+import { isE57 } from '@/services/pointcloud/e57';
+import { ParseRequest, ParseResult, ParsedCloud, parseInWorker } from '@/services/pointcloud/loader';
+import { ProcessRequest, ProcessResult, processInWorker } from '@/services/pointcloud/processing';
+import { WorkerTask } from '@/services/pointcloud/worker';
+import { EXPORT_FORMATS, ExportFormat, exportPointCloud } from '@/services/pointcloud/export';
+import { openDirectory, readFile, saveFile } from '@/services/files';
+import TextImportDialog from './monitoring/TextImportDialog';
+import SemanticPalettePanel from './monitoring/SemanticPalettePanel';
+import LayerPanel, { LayerInfo } from './monitoring/LayerPanel';
+import ExportPanel from './monitoring/ExportPanel';
+import PointInspectorPanel, { PinnedPoint, formatPointValue } from './monitoring/PointInspectorPanel';
+import ScalarColorPanel, { ScalarColorSettings, scalarFieldLabel } from './monitoring/ScalarColorPanel';
+import ColorLegend from './monitoring/ColorLegend';
+import HistogramPanel from './monitoring/HistogramPanel';
+import MeasurementPanel from './monitoring/MeasurementPanel';
+import { createMeasurementObject, disposeObject } from './monitoring/measurementObjects';
+import SelectionPanel, { BoxGizmoMode, SelectionTool } from './monitoring/SelectionPanel';
+import HistoryPanel from './monitoring/HistoryPanel';
+import DownsamplePanel, { DownsamplePreview } from './monitoring/DownsamplePanel';
+import OutlierPanel, { OUTLIER_METHOD_LABELS, OutlierPreview } from './monitoring/OutlierPanel';
+import GroundPanel, { GroundResult } from './monitoring/GroundPanel';
+import ClusterPanel, { ClusterInfo } from './monitoring/ClusterPanel';
+import CuboidPanel, { CuboidFileFormat } from './monitoring/CuboidPanel';
+import SemanticPaintPanel, { LabelFileFormat, PaintTool } from './monitoring/SemanticPaintPanel';
+import {
+  CUBOID_VIEWS,
+  createCuboidObject,
+  disposeCuboidObject,
+  renderCuboidViews,
+  updateCuboidObject,
+} from './monitoring/cuboidObjects';
+import {
+  LayerDataEdit,
+  LayerEdit,
+  LayerLabelEdit,
+  LayerPick,
+  PointCloudLayer,
+  PointCloudLayerSource,
+  applyLayerColors,
+  applyLayerFilter,
+  disposeLayerEdit,
+  flipLayerEdit,
+  hiddenMask,
+  isEmptyEdit,
+  layerData,
+  layerMaskEdit,
+  pickLayer,
+  refreshLayerPoints,
+  visibleIndices,
+} from './monitoring/layers';
 
-interface PCDPoint {
-  x: number;
-  y: number;
-  z: number;
-  color?: THREE.Color;
+interface TextImportState {
+  file: File;
+  sample: string;
+  options: TextImportOptions;
+}
+
+// 마우스에서 이 픽셀 이내의 점만 hover로 잡음
+const HOVER_RADIUS = 8;
+
+// 칠하기에서 가려진 점을 가를 때 화면을 나누는 칸 크기 (픽셀)
+const PAINT_DEPTH_CELL = 6;
+
+// 클릭으로 인스펙터에 고정할 수 있는 최대 점 수 (넘치면 오래된 것부터 뺌)
+const MAX_PINNED_POINTS = 6;
+// 이보다 많이 움직였으면 클릭이 아니라 카메라 드래그로 봄
+const CLICK_TOLERANCE = 4;
+// 지면 분리 결과 레이어의 단색
+const GROUND_COLOR = '#a1887f';
+const NON_GROUND_COLOR = '#4fc3f7';
+// 군집화 결과에서 어느 군집에도 들지 않은 점의 색
+const UNCLUSTERED_COLOR: [number, number, number] = [90, 90, 90];
+// 군집을 클릭했을 때 카메라 이동 시간
+const CAMERA_FLIGHT_MS = 600;
+// 고른 상자의 위/옆/앞 보조 뷰 크기와 간격 (픽셀)
+const CUBOID_VIEW_SIZE = 160;
+const CUBOID_VIEW_GAP = 8;
+// 표시 중인 점 수를 화면에 반영하는 간격 (매 프레임 다시 렌더링하지 않도록)
+const RENDERED_COUNT_INTERVAL_MS = 250;
+
+// 레이어 하나를 처리한 결과 미리보기 (적용하면 target을 바꾸거나 새 레이어로 추가)
+interface LayerPreview {
+  target: PointCloudLayer;
+  source: PointCloudLayerSource;
 }
 
 interface TooltipData {
   x: number;
   y: number;
-  point: PCDPoint;
+  point: PointRecord;
 }
 
 const Monitoring: React.FC = () => {
@@ -42,19 +172,112 @@ const Monitoring: React.FC = () => {
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const controlsRef = useRef<any>(null);
-  const pointCloudRef = useRef<THREE.Points | null>(null);
-  const raycasterRef = useRef<THREE.Raycaster | null>(null);
   const mouseRef = useRef<THREE.Vector2 | null>(null);
-  const originalPointsRef = useRef<PCDPoint[]>([]);
+  const layersRef = useRef<PointCloudLayer[]>([]);
   const animationIdRef = useRef<number | null>(null);
+  // 진행 중인 워커 작업 (파싱, 처리); 새 작업을 시작하면 이전 작업은 취소
+  const workerTaskRef = useRef<WorkerTask<unknown> | null>(null);
+  const nextPinIdRef = useRef(0);
+  const nextMeasurementIdRef = useRef(1);
+  // 측정 라벨/선을 담는 그룹
+  const measureGroupRef = useRef<THREE.Group | null>(null);
+  // 군집 상자를 담는 그룹
+  const clusterGroupRef = useRef<THREE.Group | null>(null);
+  // 3D 상자 라벨 (id -> 씬 객체)과 보조 뷰로 볼 상자
+  const cuboidGroupRef = useRef<THREE.Group | null>(null);
+  const cuboidObjectsRef = useRef(new Map<number, THREE.Mesh>());
+  const cuboidViewRef = useRef<THREE.Mesh | null>(null);
+  const nextCuboidIdRef = useRef(1);
+  // 진행 중인 카메라 이동 애니메이션
+  const flightRef = useRef<number | null>(null);
+  // 마우스 이벤트는 마운트 때 한 번 등록하므로 클릭 처리는 매 렌더마다 최신 상태로 바꿔 끼움
+  const pointClickRef = useRef<(pick: LayerPick) => void>(() => {});
+  // 상자 선택 도구의 상자와 올가미를 놓았을 때의 처리 (pointClickRef처럼 매 렌더링마다 바뀜)
+  const selectionBoxRef = useRef<THREE.Mesh | null>(null);
+  const lassoSelectRef = useRef<(path: ScreenPolygon) => void>(() => {});
+  // 브러시로 화면 좌표 (x, y)를 칠하는 처리와 그린 다각형을 채우는 처리 (매 렌더링마다 바뀜)
+  const brushPaintRef = useRef<(x: number, y: number) => void>(() => {});
+  const polygonFillRef = useRef<() => void>(() => {});
+  const brushStrokeEndRef = useRef<() => void>(() => {});
+  // 지금 칠하는 획에서 바뀐 점의 처음 label (획이 끝나면 편집 기록 하나로 남김)
+  const paintStrokeRef = useRef(new Map<PointCloudLayer, Map<number, number>>());
+  // 점 편집 기록 (새 파일을 열면 비움)
+  const historyRef = useRef(createEditHistory<LayerEdit[]>(DEFAULT_HISTORY_LIMIT, edits => edits.forEach(disposeLayerEdit)));
+  // 적용 전 처리 결과 (미리보기 중에는 기존 레이어를 숨기고 이것만 그림)
+  const previewLayersRef = useRef<LayerPreview[]>([]);
   
   // 상태
   const [pointSize, setPointSize] = useState(2);
   const [pointColor, setPointColor] = useState('#ffffff');
   const [pointCount, setPointCount] = useState(0);
+  // LOD로 현재 그려지는 점 수와 전체 점 예산
+  const [renderedCount, setRenderedCount] = useState(0);
+  const [pointBudget, setPointBudget] = useState(DEFAULT_LOD_OPTIONS.pointBudget);
   const [fileName, setFileName] = useState('None');
   const [loading, setLoading] = useState(false);
+  const [loadingMessage, setLoadingMessage] = useState('');
+  const [progress, setProgress] = useState(0);
   const [tooltip, setTooltip] = useState<TooltipData | null>(null);
+  // 레이어들에 있는 점 속성 이름 (색상 필드 선택용)
+  const [attributeNames, setAttributeNames] = useState<string[]>([]);
+  const [scalarColor, setScalarColor] = useState<ScalarColorSettings>({
+    field: null,
+    colormap: 'viridis',
+    auto: true,
+    min: 0,
+    max: 1,
+  });
+  // 히스토그램을 볼 필드와 필드별 범위 필터 (AND)
+  const [histogramField, setHistogramField] = useState('');
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const [rangeFilters, setRangeFilters] = useState<RangeFilter[]>([]);
+  // 측정 도구와 만드는 중인 측정의 점 (원래 좌표)
+  const [measureTool, setMeasureTool] = useState<MeasurementKind | null>(null);
+  const [measureDraft, setMeasureDraft] = useState<MeasurementPoint[]>([]);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  // 선택 도구 (측정 도구와 동시에 켜지지 않음)
+  const [selectTool, setSelectTool] = useState<SelectionTool | null>(null);
+  const [boxMode, setBoxMode] = useState<BoxGizmoMode>('translate');
+  const [boxOriented, setBoxOriented] = useState(false);
+  const [selectAdditive, setSelectAdditive] = useState(false);
+  const [selectionCount, setSelectionCount] = useState(0);
+  // 그리는 중인 올가미 (화면 좌표)
+  const [lassoPath, setLassoPath] = useState<ScreenPolygon | null>(null);
+  const [groundResults, setGroundResults] = useState<GroundResult[]>([]);
+  const [clusters, setClusters] = useState<ClusterInfo[]>([]);
+  // 상자 라벨링 모드 (측정/선택 도구와 동시에 켜지지 않음)
+  const [annotating, setAnnotating] = useState(false);
+  const [cuboids, setCuboids] = useState<Cuboid[]>([]);
+  const [selectedCuboidId, setSelectedCuboidId] = useState<number | null>(null);
+  const [cuboidLabel, setCuboidLabel] = useState('Car');
+  const [placingCuboid, setPlacingCuboid] = useState(false);
+  const [cuboidMode, setCuboidMode] = useState<BoxGizmoMode>('translate');
+  const [outlierPreview, setOutlierPreview] = useState<OutlierPreview | null>(null);
+  const [downsamplePreview, setDownsamplePreview] = useState<DownsamplePreview | null>(null);
+  const [historyItems, setHistoryItems] = useState<HistoryItem[]>([]);
+  const [historyPosition, setHistoryPosition] = useState(0);
+  // 씬 원점의 원래 좌표 (첫 레이어의 offset)
+  const [sceneOrigin, setSceneOrigin] = useState<[number, number, number]>([0, 0, 0]);
+  // 클릭해서 인스펙터에 고정한 점들
+  const [pinnedPoints, setPinnedPoints] = useState<PinnedPoint[]>([]);
+  const [textImport, setTextImport] = useState<TextImportState | null>(null);
+  const [layers, setLayers] = useState<LayerInfo[]>([]);
+  // 보이는 레이어 중 전체 점이 메모리에 있는 것이 있을 때만 내보내기 가능
+  const [exportable, setExportable] = useState(false);
+  const [semanticPalette, setSemanticPalette] = useState<SemanticClass[]>(loadSemanticPalette);
+  // .label 파일과 함께 연 KITTI 스캔일 때만 존재
+  const [labelCounts, setLabelCounts] = useState<Map<number, number> | null>(null);
+  // 포인트 라벨링 도구 (다른 도구와 동시에 켜지지 않음), 칠할 클래스와 숨긴 클래스
+  const [paintTool, setPaintTool] = useState<PaintTool | null>(null);
+  const [paintClass, setPaintClass] = useState(() => semanticPalette.find(c => c.id !== UNLABELED)?.id ?? 1);
+  const [hiddenClasses, setHiddenClasses] = useState<number[]>([]);
+  const [brushRadius, setBrushRadius] = useState(20);
+  const [paintOnlyUnlabeled, setPaintOnlyUnlabeled] = useState(false);
+  // 브러시 위치와 그리는 중인 채우기 다각형 (화면 좌표)
+  const [brushCursor, setBrushCursor] = useState<[number, number] | null>(null);
+  const [paintPolygon, setPaintPolygon] = useState<ScreenPolygon>([]);
+  // 메모리에 있는 레이어의 label별 점 수
+  const [paintCounts, setPaintCounts] = useState<Map<number, number>>(new Map());
 
   // Three.js 초기화
   useEffect(() => {
@@ -98,6 +321,31 @@ const Monitoring: React.FC = () => {
     
     loadControls();
 
+    const measureGroup = new THREE.Group();
+    scene.add(measureGroup);
+    measureGroupRef.current = measureGroup;
+
+    const clusterGroup = new THREE.Group();
+    scene.add(clusterGroup);
+    clusterGroupRef.current = clusterGroup;
+
+    const cuboidGroup = new THREE.Group();
+    scene.add(cuboidGroup);
+    cuboidGroupRef.current = cuboidGroup;
+
+    // 상자 선택 도구의 상자 ([-0.5, 0.5]³ 단위 상자를 위치/회전/크기로 변형)
+    const selectionBox = new THREE.Mesh(
+      new THREE.BoxGeometry(1, 1, 1),
+      new THREE.MeshBasicMaterial({ color: 0xff5722, transparent: true, opacity: 0.12, depthWrite: false })
+    );
+    selectionBox.add(new THREE.LineSegments(
+      new THREE.EdgesGeometry(selectionBox.geometry),
+      new THREE.LineBasicMaterial({ color: 0xff5722 })
+    ));
+    selectionBox.visible = false;
+    scene.add(selectionBox);
+    selectionBoxRef.current = selectionBox;
+
     // 조명 설정
     const ambientLight = new THREE.AmbientLight(0x404040, 0.6);
     scene.add(ambientLight);
@@ -108,46 +356,63 @@ const Monitoring: React.FC = () => {
 
     // Raycaster와 Mouse 초기화
     const raycaster = new THREE.Raycaster();
-    raycasterRef.current = raycaster;
     const mouse = new THREE.Vector2();
     mouseRef.current = mouse;
 
-    // 마우스 이벤트 리스너
-    const handleMouseMove = (event: MouseEvent) => {
-      if (!renderer.domElement || !raycaster || !mouse || !pointCloudRef.current) return;
+    // 마우스 위치에서 보이는 레이어 중 화면상 가장 가까운 점
+    const pickAt = (event: MouseEvent) => {
+      if (!renderer.domElement || !raycaster || !mouse || layersRef.current.length === 0) return null;
       
       const rect = renderer.domElement.getBoundingClientRect();
       mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
       mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
 
       raycaster.setFromCamera(mouse, camera);
-      raycaster.params.Points!.threshold = Math.max(0.1, pointSize * 0.1);
-      
-      const intersects = raycaster.intersectObject(pointCloudRef.current);
+      // HOVER_RADIUS 픽셀을 광선 기준 각도로 환산
+      const maxAngle = Math.atan((HOVER_RADIUS * 2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) / rect.height);
       
-      if (intersects.length > 0) {
-        const intersect = intersects[0];
-        const index = intersect.index!;
-        const point = originalPointsRef.current[index];
-        
-        if (point) {
-          setTooltip({
-            x: event.clientX,
-            y: event.clientY,
-            point
-          });
-        }
+      const picks = layersRef.current
+        .filter(layer => layer.visible)
+        .map(layer => pickLayer(layer, raycaster.ray, maxAngle))
+        .filter(pick => pick !== null)
+        .sort((a, b) => a.angle - b.angle);
+      return picks.length > 0 ? picks[0] : null;
+    };
+
+    // 마우스 이벤트 리스너
+    const handleMouseMove = (event: MouseEvent) => {
+      const pick = pickAt(event);
+      if (pick) {
+        setTooltip({
+          x: event.clientX,
+          y: event.clientY,
+          point: getPoint(pick.data, pick.index)
+        });
       } else {
         setTooltip(null);
       }
     };
 
+    // 카메라 드래그가 끝날 때의 click은 무시하도록 누른 위치를 기억
+    let pointerDown: { x: number; y: number } | null = null;
+    const handlePointerDown = (event: PointerEvent) => {
+      pointerDown = { x: event.clientX, y: event.clientY };
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      if (!pointerDown || Math.hypot(event.clientX - pointerDown.x, event.clientY - pointerDown.y) > CLICK_TOLERANCE) return;
+      const pick = pickAt(event);
+      if (pick) pointClickRef.current(pick);
+    };
+
     const handleMouseLeave = () => {
       setTooltip(null);
     };
 
     renderer.domElement.addEventListener('mousemove', handleMouseMove);
     renderer.domElement.addEventListener('mouseleave', handleMouseLeave);
+    renderer.domElement.addEventListener('pointerdown', handlePointerDown);
+    renderer.domElement.addEventListener('click', handleClick);
 
     // 윈도우 리사이즈 핸들러
     const handleResize = () => {
@@ -163,6 +428,8 @@ const Monitoring: React.FC = () => {
     window.addEventListener('resize', handleResize);
 
     // 애니메이션 루프
+    let shownCount = 0;
+    let countShownAt = 0;
     const animate = () => {
       animationIdRef.current = requestAnimationFrame(animate);
       
@@ -170,7 +437,28 @@ const Monitoring: React.FC = () => {
         controlsRef.current.update();
       }
       
+      // 카메라 위치에 맞춰 레이어별로 그릴 옥트리 노드 선택
+      const screenHeight = renderer.getSize(new THREE.Vector2()).y;
+      let rendered = 0;
+      for (const layer of layersRef.current) {
+        layer.renderer.update(camera, screenHeight);
+        rendered += layer.renderer.renderedCount();
+      }
+      for (const { source } of previewLayersRef.current) {
+        source.renderer.update(camera, screenHeight);
+        rendered += source.renderer.renderedCount();
+      }
+      const now = performance.now();
+      if (rendered !== shownCount && now - countShownAt >= RENDERED_COUNT_INTERVAL_MS) {
+        shownCount = rendered;
+        countShownAt = now;
+        setRenderedCount(rendered);
+      }
+      
       renderer.render(scene, camera);
+      if (cuboidViewRef.current) {
+        renderCuboidViews(renderer, scene, cuboidViewRef.current, CUBOID_VIEW_SIZE, CUBOID_VIEW_GAP);
+      }
     };
     
     animate();
@@ -180,10 +468,18 @@ const Monitoring: React.FC = () => {
       if (animationIdRef.current) {
         cancelAnimationFrame(animationIdRef.current);
       }
+      if (flightRef.current) {
+        cancelAnimationFrame(flightRef.current);
+      }
       
       renderer.domElement.removeEventListener('mousemove', handleMouseMove);
       renderer.domElement.removeEventListener('mouseleave', handleMouseLeave);
+      renderer.domElement.removeEventListener('pointerdown', handlePointerDown);
+      renderer.domElement.removeEventListener('click', handleClick);
       window.removeEventListener('resize', handleResize);
+      workerTaskRef.current?.cancel();
+      layersRef.current.forEach(layer => layer.renderer.dispose());
+      previewLayersRef.current.forEach(({ source }) => source.renderer.dispose());
       
       if (controlsRef.current) {
         controlsRef.current.dispose();
@@ -197,233 +493,519 @@ const Monitoring: React.FC = () => {
     };
   }, []);
 
-  // PCD 파일 파싱 함수 (원본 HTML과 동일한 로직)
-  const parsePCD = (arrayBuffer: ArrayBuffer): PCDPoint[] => {
-    const decoder = new TextDecoder();
-    const fullText = decoder.decode(arrayBuffer);
-    const lines = fullText.split('\n');
-    
-    const points: PCDPoint[] = [];
-    let fields: string[] = [];
-    let size: number[] = [];
-    let type: string[] = [];
-    let count: number[] = [];
-    let dataType = 'ascii';
-    let pointsCount = 0;
-    let headerEndIndex = -1;
-    
-    // Parse header
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      if (line.startsWith('FIELDS')) {
-        fields = line.split(' ').slice(1);
-      } else if (line.startsWith('SIZE')) {
-        size = line.split(' ').slice(1).map(Number);
-      } else if (line.startsWith('TYPE')) {
-        type = line.split(' ').slice(1);
-      } else if (line.startsWith('COUNT')) {
-        count = line.split(' ').slice(1).map(Number);
-      } else if (line.startsWith('POINTS')) {
-        pointsCount = parseInt(line.split(' ')[1]);
-      } else if (line.startsWith('DATA')) {
-        dataType = line.split(' ')[1];
-        headerEndIndex = i;
-        break;
-      }
+  // 측정이 바뀔 때마다 라벨과 선을 다시 만듦
+  useEffect(() => {
+    const group = measureGroupRef.current;
+    if (!group) return;
+    for (const child of [...group.children]) {
+      group.remove(child);
+      disposeObject(child);
     }
-    
-    if (headerEndIndex === -1) {
-      throw new Error('Invalid PCD file: DATA section not found');
+    for (const measurement of measurements) {
+      group.add(createMeasurementObject(measurement, sceneOrigin));
     }
-    
-    // Calculate field offsets and total point size
-    let fieldOffsets: number[] = [];
-    let pointSizeBytes = 0;
-    for (let i = 0; i < fields.length; i++) {
-      fieldOffsets.push(pointSizeBytes);
-      pointSizeBytes += size[i] * (count[i] || 1);
+    if (measureTool && measureDraft.length > 0) {
+      group.add(createMeasurementObject({ kind: measureTool, points: measureDraft }, sceneOrigin));
     }
-    
-    if (dataType === 'binary') {
-      // Calculate header size in bytes
-      const headerText = lines.slice(0, headerEndIndex + 1).join('\n') + '\n';
-      const headerSize = new TextEncoder().encode(headerText).length;
-      
-      // Create DataView for binary data
-      const dataView = new DataView(arrayBuffer, headerSize);
-      
-      for (let i = 0; i < pointsCount; i++) {
-        const point: any = {};
-        const baseOffset = i * pointSizeBytes;
-        
-        for (let j = 0; j < fields.length; j++) {
-          const field = fields[j];
-          const fieldOffset = baseOffset + fieldOffsets[j];
-          const fieldSize = size[j];
-          const fieldType = type[j];
-          
-          let value;
-          if (fieldType === 'F') {
-            value = dataView.getFloat32(fieldOffset, true); // little-endian
-          } else if (fieldType === 'U') {
-            if (fieldSize === 4) {
-              value = dataView.getUint32(fieldOffset, true);
-            } else if (fieldSize === 2) {
-              value = dataView.getUint16(fieldOffset, true);
-            } else {
-              value = dataView.getUint8(fieldOffset);
-            }
-          } else if (fieldType === 'I') {
-            if (fieldSize === 4) {
-              value = dataView.getInt32(fieldOffset, true);
-            } else if (fieldSize === 2) {
-              value = dataView.getInt16(fieldOffset, true);
-            } else {
-              value = dataView.getInt8(fieldOffset);
-            }
-          }
-          
-          point[field] = value;
-        }
-        
-        // Extract coordinates
-        const processedPoint: PCDPoint = {
-          x: point.x || 0,
-          y: point.y || 0,
-          z: point.z || 0
-        };
-        
-        // Handle colors
-        if (point.rgb !== undefined) {
-          const rgb = point.rgb;
-          const r = ((rgb >> 16) & 0xFF) / 255;
-          const g = ((rgb >> 8) & 0xFF) / 255;
-          const b = (rgb & 0xFF) / 255;
-          processedPoint.color = new THREE.Color(r, g, b);
-        } else if (point.r !== undefined && point.g !== undefined && point.b !== undefined) {
-          processedPoint.color = new THREE.Color(
-            point.r / 255,
-            point.g / 255,
-            point.b / 255
-          );
-        }
-        
-        points.push(processedPoint);
-      }
-    } else if (dataType === 'ascii') {
-      // ASCII parsing
-      for (let i = headerEndIndex + 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (line === '') continue;
-        
-        const values = line.split(/\s+/).map(parseFloat);
-        if (values.length >= 3) {
-          const point: PCDPoint = { x: values[0], y: values[1], z: values[2] };
-          
-          if (fields.includes('rgb')) {
-            const rgbIdx = fields.indexOf('rgb');
-            const rgb = values[rgbIdx];
-            const r = ((rgb >> 16) & 0xFF) / 255;
-            const g = ((rgb >> 8) & 0xFF) / 255;
-            const b = (rgb & 0xFF) / 255;
-            point.color = new THREE.Color(r, g, b);
-          } else if (fields.includes('r') && fields.includes('g') && fields.includes('b')) {
-            const rIdx = fields.indexOf('r');
-            const gIdx = fields.indexOf('g');
-            const bIdx = fields.indexOf('b');
-            point.color = new THREE.Color(
-              values[rIdx] / 255,
-              values[gIdx] / 255,
-              values[bIdx] / 255
-            );
-          }
-          
-          points.push(point);
-        }
+  }, [measurements, measureTool, measureDraft, sceneOrigin]);
+
+  // 군집이 바뀔 때마다 군집 색의 상자를 다시 만듦
+  useEffect(() => {
+    const group = clusterGroupRef.current;
+    if (!group) return;
+    for (const child of [...group.children]) {
+      group.remove(child);
+      disposeObject(child);
+    }
+    for (const { box, color } of clusters) {
+      const edges = new THREE.LineSegments(
+        new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1)),
+        new THREE.LineBasicMaterial({ color: new THREE.Color(...color.map(value => value / 255) as [number, number, number]) })
+      );
+      // 납작한 군집도 상자가 보이도록 최소 크기를 둠
+      edges.scale.set(...box.size.map(value => Math.max(value, 0.01)) as [number, number, number]);
+      edges.rotation.z = box.yaw;
+      edges.position.set(box.center[0] - sceneOrigin[0], box.center[1] - sceneOrigin[1], box.center[2] - sceneOrigin[2]);
+      group.add(edges);
+    }
+  }, [clusters, sceneOrigin]);
+
+  // 상자 라벨을 씬 객체에 반영 (객체는 다시 만들지 않고 바뀐 값만 고쳐서 기즈모가 붙어 있게 함)
+  useEffect(() => {
+    const group = cuboidGroupRef.current;
+    if (!group) return;
+    const objects = cuboidObjectsRef.current;
+    for (const [id, object] of objects) {
+      if (cuboids.some(cuboid => cuboid.id === id)) continue;
+      group.remove(object);
+      disposeCuboidObject(object);
+      objects.delete(id);
+    }
+    for (const cuboid of cuboids) {
+      let object = objects.get(cuboid.id);
+      if (!object) {
+        object = createCuboidObject();
+        objects.set(cuboid.id, object);
+        group.add(object);
       }
-    } else {
-      throw new Error(`Unsupported PCD data type: ${dataType}`);
+      updateCuboidObject(object, cuboid, sceneOrigin, cuboid.id === selectedCuboidId);
     }
-    
-    return points;
+    cuboidViewRef.current = annotating && selectedCuboidId !== null ? objects.get(selectedCuboidId) ?? null : null;
+  }, [cuboids, selectedCuboidId, annotating, sceneOrigin]);
+
+  // 고른 상자에 이동/회전(z축만)/크기 기즈모를 붙여 바뀐 값을 라벨에 반영
+  useEffect(() => {
+    const object = annotating && selectedCuboidId !== null ? cuboidObjectsRef.current.get(selectedCuboidId) : undefined;
+    const scene = sceneRef.current;
+    if (!object || !scene) return;
+    const id = selectedCuboidId!;
+
+    let disposed = false;
+    let dispose = () => {};
+    import('three/examples/jsm/controls/TransformControls').then(({ TransformControls }) => {
+      if (disposed || !cameraRef.current || !rendererRef.current) return;
+      const gizmo = new TransformControls(cameraRef.current, rendererRef.current.domElement);
+      gizmo.setMode(cuboidMode);
+      if (cuboidMode === 'rotate') {
+        gizmo.showX = false;
+        gizmo.showY = false;
+      }
+      gizmo.addEventListener('dragging-changed', (event) => {
+        if (controlsRef.current) controlsRef.current.enabled = !event.value;
+      });
+      gizmo.addEventListener('objectChange', () => {
+        const { position, rotation, scale } = object;
+        updateCuboid(id, {
+          center: [position.x + sceneOrigin[0], position.y + sceneOrigin[1], position.z + sceneOrigin[2]],
+          size: [Math.abs(scale.x), Math.abs(scale.y), Math.abs(scale.z)],
+          yaw: rotation.z,
+        });
+      });
+      gizmo.attach(object);
+      const helper = gizmo.getHelper();
+      scene.add(helper);
+      dispose = () => {
+        gizmo.detach();
+        scene.remove(helper);
+        gizmo.dispose();
+      };
+    }).catch(error => console.error('Failed to load TransformControls:', error));
+    return () => {
+      disposed = true;
+      dispose();
+    };
+  }, [selectedCuboidId, annotating, cuboidMode, sceneOrigin]);
+
+  // 라벨링 중 Esc: 상자 놓기 취소, Delete: 고른 상자 삭제
+  useEffect(() => {
+    if (!annotating) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return;
+      if (event.key === 'Escape') setPlacingCuboid(false);
+      if ((event.key === 'Delete' || event.key === 'Backspace') && selectedCuboidId !== null) deleteCuboid(selectedCuboidId);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // 측정 중 Enter: 폴리라인/면적 완료, Esc: 취소
+  useEffect(() => {
+    if (!measureTool) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return;
+      if (event.key === 'Enter') finishMeasurement();
+      if (event.key === 'Escape') setMeasureDraft([]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // 상자 선택 도구: 상자에 이동/회전/크기 기즈모를 붙임 (드래그 중에는 카메라 조작 중지)
+  useEffect(() => {
+    const box = selectionBoxRef.current;
+    const scene = sceneRef.current;
+    if (!box || !scene) return;
+    box.visible = selectTool === 'box';
+    if (selectTool !== 'box') return;
+    if (!boxOriented) box.rotation.set(0, 0, 0);
+
+    let disposed = false;
+    let dispose = () => {};
+    import('three/examples/jsm/controls/TransformControls').then(({ TransformControls }) => {
+      if (disposed || !cameraRef.current || !rendererRef.current) return;
+      const gizmo = new TransformControls(cameraRef.current, rendererRef.current.domElement);
+      gizmo.setMode(boxMode);
+      gizmo.addEventListener('dragging-changed', (event) => {
+        if (controlsRef.current) controlsRef.current.enabled = !event.value;
+      });
+      gizmo.attach(box);
+      const helper = gizmo.getHelper();
+      scene.add(helper);
+      dispose = () => {
+        gizmo.detach();
+        scene.remove(helper);
+        gizmo.dispose();
+      };
+    }).catch(error => console.error('Failed to load TransformControls:', error));
+    return () => {
+      disposed = true;
+      dispose();
+    };
+  }, [selectTool, boxMode, boxOriented]);
+
+  // 올가미 선택 도구: 뷰어에서 드래그한 경로를 다각형으로 씀 (그리는 동안 카메라 조작 중지)
+  useEffect(() => {
+    const canvas = rendererRef.current?.domElement;
+    if (selectTool !== 'lasso' || !canvas) return;
+    const controls = controlsRef.current;
+    if (controls) controls.enabled = false;
+
+    let path: ScreenPolygon | null = null;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      canvas.setPointerCapture(event.pointerId);
+      path = [[event.clientX, event.clientY]];
+      setLassoPath(path);
+    };
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!path) return;
+      const [x, y] = path[path.length - 1];
+      if (Math.hypot(event.clientX - x, event.clientY - y) < 2) return;
+      path = [...path, [event.clientX, event.clientY]];
+      setLassoPath(path);
+    };
+    const handlePointerUp = () => {
+      if (!path) return;
+      lassoSelectRef.current(path);
+      path = null;
+      setLassoPath(null);
+    };
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      if (controls) controls.enabled = true;
+      setLassoPath(null);
+    };
+  }, [selectTool]);
+
+  // 포인트 라벨링 도구: 왼쪽 버튼은 칠하기(브러시 드래그, 다각형 꼭짓점), 오른쪽 드래그는 회전, 가운데 드래그는 이동
+  useEffect(() => {
+    const canvas = rendererRef.current?.domElement;
+    if (!paintTool || !canvas) return;
+    const controls = controlsRef.current;
+    const mouseButtons = controls && { ...controls.mouseButtons };
+    if (controls) controls.mouseButtons = { LEFT: null, MIDDLE: THREE.MOUSE.PAN, RIGHT: THREE.MOUSE.ROTATE };
+
+    // 브러시는 한 프레임에 한 번만 칠함 (칠할 때마다 보이는 노드 색을 다시 만듦)
+    let painting = false;
+    let frame: number | null = null;
+    let cursor: [number, number] = [0, 0];
+    const paintAtCursor = () => {
+      frame = null;
+      brushPaintRef.current(...cursor);
+    };
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      const point: [number, number] = [event.clientX, event.clientY];
+      if (paintTool === 'polygon') {
+        setPaintPolygon(prev => {
+          const last = prev[prev.length - 1];
+          return last && Math.hypot(point[0] - last[0], point[1] - last[1]) < 3 ? prev : [...prev, point];
+        });
+        return;
+      }
+      canvas.setPointerCapture(event.pointerId);
+      painting = true;
+      cursor = point;
+      paintAtCursor();
+    };
+    const handlePointerMove = (event: PointerEvent) => {
+      if (paintTool !== 'brush') return;
+      cursor = [event.clientX, event.clientY];
+      setBrushCursor(cursor);
+      if (painting && frame === null) frame = requestAnimationFrame(paintAtCursor);
+    };
+    const handlePointerUp = () => {
+      if (!painting) return;
+      painting = false;
+      // 남은 프레임의 칠하기까지 한 획으로 묶음
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+        paintAtCursor();
+      }
+      brushStrokeEndRef.current();
+    };
+    const handlePointerLeave = () => setBrushCursor(null);
+    const handleDoubleClick = () => {
+      if (paintTool === 'polygon') polygonFillRef.current();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (paintTool !== 'polygon' || event.target instanceof HTMLInputElement) return;
+      if (event.key === 'Enter') polygonFillRef.current();
+      if (event.key === 'Escape') setPaintPolygon([]);
+    };
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('pointerleave', handlePointerLeave);
+    canvas.addEventListener('dblclick', handleDoubleClick);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointerleave', handlePointerLeave);
+      canvas.removeEventListener('dblclick', handleDoubleClick);
+      window.removeEventListener('keydown', handleKeyDown);
+      if (frame !== null) cancelAnimationFrame(frame);
+      if (controls) controls.mouseButtons = mouseButtons;
+      setBrushCursor(null);
+      setPaintPolygon([]);
+    };
+  }, [paintTool]);
+
+  // Ctrl+Z: 실행 취소, Ctrl+Shift+Z (또는 Ctrl+Y): 다시 실행
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoEdit();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redoEdit();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const createMaterial = (hasColors: boolean) => {
+    return new THREE.PointsMaterial({
+      size: pointSize,
+      vertexColors: hasColors,
+      color: hasColors ? 0xffffff : pointColor,
+      sizeAttenuation: true
+    });
   };
 
-  // Point Cloud 생성
-  const createPointCloud = (points: PCDPoint[]) => {
+  // Point Cloud 생성 (파일 하나에서 나온 클라우드마다 레이어 하나)
+  const createPointCloudLayers = (clouds: ParsedCloud[]) => {
+    setPointCloudLayers(clouds.map(layerSource));
+  };
+
+  // 메모리에 있는 클라우드의 레이어
+  const layerSource = ({ name, cloud, octree, index }: ParsedCloud): PointCloudLayerSource => ({
+    name,
+    cloud,
+    octree,
+    index,
+    pointCount: cloud.count,
+    offset: cloud.offset,
+    bounds: cloud.bounds,
+    hasColors: !!cloud.colors,
+    color: null,
+    attributeNames: Object.keys(cloud.attributes),
+    sensor: cloud.sensor ?? [0, 0, 0],
+    fieldRange: (field) => scalarRange(cloud, field, cloud.sensor),
+    // 노드 버퍼는 보일 때 원본 배열에서 모아 GPU에 올림
+    renderer: createLODRenderer(
+      octree.root,
+      async (node) => gatherNode(cloud, octree, node),
+      createMaterial(!!cloud.colors),
+      { ...DEFAULT_LOD_OPTIONS }
+    ),
+  });
+
+  // 기존 레이어를 새 레이어로 교체
+  const setPointCloudLayers = (sources: PointCloudLayerSource[]) => {
     if (!sceneRef.current) return;
+    discardPreview();
     
-    // 기존 point cloud 제거
-    if (pointCloudRef.current) {
-      sceneRef.current.remove(pointCloudRef.current);
-      pointCloudRef.current.geometry.dispose();
-      if (Array.isArray(pointCloudRef.current.material)) {
-        pointCloudRef.current.material.forEach(m => m.dispose());
-      } else {
-        pointCloudRef.current.material.dispose();
-      }
+    // 기존 레이어 제거
+    for (const layer of layersRef.current) {
+      sceneRef.current.remove(layer.renderer.object);
+      layer.renderer.dispose();
     }
     
-    originalPointsRef.current = points;
-    
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(points.length * 3);
-    const colors = new Float32Array(points.length * 3);
-    
-    let hasColors = false;
-    const defaultColor = new THREE.Color(1, 1, 1);
+    // 첫 레이어의 offset을 씬 원점으로 두고 나머지 레이어는 그만큼 옮겨 그림
+    const origin = sources[0]?.offset ?? [0, 0, 0];
+    setSceneOrigin(origin);
+    layersRef.current = sources.map((source, id) => {
+      source.renderer.object.position.set(
+        source.offset[0] - origin[0],
+        source.offset[1] - origin[1],
+        source.offset[2] - origin[2]
+      );
+      sceneRef.current!.add(source.renderer.object);
+      return { ...source, id, visible: true, removed: null, selected: null, pendingRemoval: null, overlay: null, hiddenLabels: null, pointFilter: null };
+    });
+    // 고정해 둔 점과 선택은 이전 클라우드의 인덱스라 비움
+    setPinnedPoints([]);
+    setSelectionCount(0);
+    setOutlierPreview(null);
+    setGroundResults([]);
+    setClusters([]);
+    // 상자 라벨은 클라우드마다 따로 저장
+    setCuboids([]);
+    setSelectedCuboidId(null);
+    setPlacingCuboid(false);
+    setPaintTool(null);
+    setHiddenClasses([]);
+    setPaintCounts(new Map());
+    historyRef.current.clear();
+    updateHistoryState();
     
-    for (let i = 0; i < points.length; i++) {
-      const point = points[i];
-      const i3 = i * 3;
-      
-      positions[i3] = point.x;
-      positions[i3 + 1] = point.y;
-      positions[i3 + 2] = point.z;
-      
-      const color = point.color || defaultColor;
-      colors[i3] = color.r;
-      colors[i3 + 1] = color.g;
-      colors[i3 + 2] = color.b;
-      
-      if (point.color) hasColors = true;
+    applyPointBudget(pointBudget);
+    // 새 클라우드에 없는 필드면 원본 색상으로
+    const field = scalarColor.field;
+    const hasField = !!field && (isPositionField(field) || layersRef.current.some(layer => layer.attributeNames.includes(field)));
+    applyScalarColor(hasField ? { ...scalarColor, auto: true } : { ...scalarColor, field: null });
+    applyRangeFilters(rangeFilters);
+    updateHistogram(histogramField);
+    fitCameraToPoints(visibleCloudBounds());
+    updateLayerInfo();
+  };
+
+  // 기존 레이어는 그대로 두고 레이어를 하나 더함 (지금 씬 원점 기준으로 옮겨 그림)
+  const addPointCloudLayer = (source: PointCloudLayerSource) => {
+    if (!sceneRef.current) return;
+    placeLayerObject(source);
+    sceneRef.current.add(source.renderer.object);
+    const id = Math.max(-1, ...layersRef.current.map(layer => layer.id)) + 1;
+    const layer: PointCloudLayer = {
+      ...source,
+      id,
+      visible: true,
+      removed: null,
+      selected: null,
+      pendingRemoval: null,
+      overlay: null,
+      hiddenLabels: hiddenClasses.length > 0 ? new Set(hiddenClasses) : null,
+      pointFilter: null,
+    };
+    layersRef.current = [...layersRef.current, layer];
+
+    applyPointBudget(pointBudget);
+    applyLayerFilter(layer, rangeFilters);
+    applyLayerColors(layer, layerColoring(layer), pointColor);
+    updateHistogram(histogramField);
+    updateLayerInfo();
+  };
+
+  const placeLayerObject = (source: PointCloudLayerSource) => {
+    source.renderer.object.position.set(
+      source.offset[0] - sceneOrigin[0],
+      source.offset[1] - sceneOrigin[1],
+      source.offset[2] - sceneOrigin[2]
+    );
+  };
+
+  // 처리 결과를 미리보기로 그림 (기존 레이어는 숨김)
+  const showPreview = (previews: LayerPreview[]) => {
+    if (!sceneRef.current) return;
+    discardPreview();
+    for (const { source } of previews) {
+      placeLayerObject(source);
+      sceneRef.current.add(source.renderer.object);
     }
-    
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-    
-    const material = new THREE.PointsMaterial({
-      size: pointSize,
-      vertexColors: hasColors,
-      sizeAttenuation: true
+    previewLayersRef.current = previews;
+    for (const layer of layersRef.current) layer.renderer.object.visible = false;
+  };
+
+  // 미리보기를 씬에서 빼고 기존 레이어 표시를 되돌림 (렌더러는 호출하는 쪽에서 씀)
+  const takePreview = () => {
+    const previews = previewLayersRef.current;
+    if (previews.length === 0) return previews;
+    previewLayersRef.current = [];
+    for (const { source } of previews) sceneRef.current?.remove(source.renderer.object);
+    for (const layer of layersRef.current) layer.renderer.object.visible = layer.visible;
+    setDownsamplePreview(null);
+    return previews;
+  };
+
+  const discardPreview = () => {
+    takePreview().forEach(({ source }) => source.renderer.dispose());
+  };
+
+  const updateLayerInfo = () => {
+    setLayers(layersRef.current.map(({ id, name, pointCount, visible, color }) => ({ id, name, visible, pointCount, color })));
+    setPointCount(layersRef.current.reduce((sum, layer) => sum + (layer.visible ? layer.pointCount : 0), 0));
+    setExportable(layersRef.current.some(layer => layer.visible && layer.cloud));
+    setAttributeNames(Array.from(new Set(layersRef.current.flatMap(layer => layer.attributeNames))));
+  };
+
+  // 레이어 표시/숨김
+  const toggleLayer = (id: number, visible: boolean) => {
+    const layer = layersRef.current.find(l => l.id === id);
+    if (!layer) return;
+    layer.visible = visible;
+    layer.renderer.object.visible = visible;
+    applyPointBudget(pointBudget);
+    if (scalarColor.field && scalarColor.auto) applyScalarColor(scalarColor);
+    updateHistogram(histogramField);
+    updateLayerInfo();
+  };
+
+  // 레이어 단색 지정 (null이면 원래 색상)
+  const changeLayerColor = (id: number, color: string | null) => {
+    const layer = layersRef.current.find(l => l.id === id);
+    if (!layer) return;
+    layer.color = color;
+    applyLayerColors(layer, layerColoring(layer), pointColor);
+    updateLayerInfo();
+  };
+
+  // 전체 점 예산을 보이는 레이어에 나눠 줌
+  const applyPointBudget = (budget: number) => {
+    setPointBudget(budget);
+    const visibleLayers = layersRef.current.filter(layer => layer.visible);
+    for (const layer of visibleLayers) {
+      layer.renderer.options.pointBudget = Math.floor(budget / visibleLayers.length);
+    }
+  };
+
+  // 보이는 레이어를 합친 클라우드 (내보내기 등 전체 점이 필요할 때만 만듦)
+  const visibleCloud = (): PointCloudData | null => {
+    // 범위 필터로 숨기거나 지운 점은 빼고 저장
+    const clouds = layersRef.current.flatMap((layer) => {
+      if (!layer.visible || !layer.cloud) return [];
+      const indices = visibleIndices(layer);
+      return [indices ? selectPoints(layer.cloud, indices) : layer.cloud];
     });
-    
-    const pointCloud = new THREE.Points(geometry, material);
-    pointCloudRef.current = pointCloud;
-    sceneRef.current.add(pointCloud);
-    
-    // 레이캐스팅을 위한 threshold 설정
-    if (raycasterRef.current) {
-      raycasterRef.current.params.Points!.threshold = Math.max(0.1, material.size * 0.1);
+    return clouds.length > 0 ? concatPointClouds(clouds) : null;
+  };
+
+  // 보이는 레이어 전체의 경계 (씬 좌표)
+  const visibleCloudBounds = (): THREE.Box3 | null => {
+    const box = new THREE.Box3();
+    for (const { bounds, pointCount, renderer, visible } of layersRef.current) {
+      if (!visible || pointCount === 0) continue;
+      box.expandByPoint(new THREE.Vector3(...bounds.min).add(renderer.object.position));
+      box.expandByPoint(new THREE.Vector3(...bounds.max).add(renderer.object.position));
     }
-    
-    fitCameraToPoints(points);
-    setPointCount(points.length);
+    return box.isEmpty() ? null : box;
   };
 
   // 카메라를 포인트들에 맞춤
-  const fitCameraToPoints = (points: PCDPoint[]) => {
-    if (points.length === 0 || !cameraRef.current || !controlsRef.current) return;
-    
-    const box = new THREE.Box3();
-    points.forEach(point => {
-      box.expandByPoint(new THREE.Vector3(point.x, point.y, point.z));
-    });
+  const fitCameraToPoints = (box: THREE.Box3 | null) => {
+    if (!box || !cameraRef.current || !controlsRef.current) return;
     
     const center = box.getCenter(new THREE.Vector3());
     const size = box.getSize(new THREE.Vector3());
     const maxDim = Math.max(size.x, size.y, size.z);
     
+    // 도시 규모 스캔도 화면에 들어오도록 클리핑/줌 거리 확장
+    cameraRef.current.far = Math.max(1000, maxDim * 10);
+    cameraRef.current.updateProjectionMatrix();
+    controlsRef.current.maxDistance = Math.max(1000, maxDim * 5);
+    
     controlsRef.current.target.copy(center);
     cameraRef.current.position.copy(center);
     cameraRef.current.position.x += maxDim * 1.5;
@@ -434,75 +1016,1002 @@ const Monitoring: React.FC = () => {
     controlsRef.current.update();
   };
 
+  // 지금 보는 방향은 그대로 두고 center(씬 좌표) 주변 radius가 화면에 들어오도록 카메라를 옮김
+  const flyTo = (center: THREE.Vector3, radius: number) => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return;
+    if (flightRef.current) cancelAnimationFrame(flightRef.current);
+
+    const direction = camera.position.clone().sub(controls.target).normalize();
+    const distance = Math.max(radius / Math.sin(THREE.MathUtils.degToRad(camera.fov / 2)), controls.minDistance);
+    const fromTarget = controls.target.clone();
+    const fromPosition = camera.position.clone();
+    const toPosition = center.clone().addScaledVector(direction, distance);
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / CAMERA_FLIGHT_MS);
+      const eased = 1 - (1 - t) ** 3;
+      controls.target.lerpVectors(fromTarget, center, eased);
+      camera.position.lerpVectors(fromPosition, toPosition, eased);
+      flightRef.current = t < 1 ? requestAnimationFrame(step) : null;
+    };
+    flightRef.current = requestAnimationFrame(step);
+  };
+
+  const focusCluster = ({ box }: ClusterInfo) => {
+    const center = new THREE.Vector3(...box.center).sub(new THREE.Vector3(...sceneOrigin));
+    flyTo(center, Math.max(Math.hypot(...box.size) / 2, 0.5));
+  };
+
   // 파일 업로드 처리
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const files = Array.from(event.target.files || []);
+    // 같은 파일을 다시 선택해도 change 이벤트가 발생하도록 초기화
+    event.target.value = '';
+    
+    // KITTI 스캔은 같은 이름의 .label 파일과 함께 선택할 수 있음
+    const kittiFiles = pairKITTIFiles(files);
+    if (kittiFiles) {
+      await loadKITTIScan(kittiFiles.scan, kittiFiles.label);
+      return;
+    }
+    
+    const file = files[0];
     if (!file) return;
     
+    // 구분자 텍스트는 컬럼 매핑 다이얼로그를 먼저 띄움
+    if (isTextPointCloud(file.name)) {
+      try {
+        const sample = await readTextSample(file);
+        setTextImport({ file, sample, options: guessTextImportOptions(file.name, sample) });
+      } catch (error) {
+        console.error('Error reading text file:', error);
+        alert('Error reading text file: ' + (error as Error).message);
+      }
+      return;
+    }
+    
+    try {
+      const result = await runParseTask({ kind: 'file', file });
+      if (!result) return;
+      
+      // E57은 스캔마다 별도 레이어
+      createPointCloudLayers(isE57(file.name) ? result.clouds : [{ ...result.clouds[0], name: 'Point cloud' }]);
+      setFileName(file.name);
+      setLabelCounts(null);
+      
+    } catch (error) {
+      console.error('Error loading point cloud file:', error);
+      alert('Error loading point cloud file: ' + (error as Error).message);
+    }
+  };
+
+  // 워커 작업을 진행률 표시와 함께 실행 (취소되면 null)
+  const runWorkerTask = async <T,>(start: (onProgress: (percent: number) => void) => WorkerTask<T>, message: string): Promise<T | null> => {
+    workerTaskRef.current?.cancel();
+    setProgress(0);
     setLoading(true);
+    setLoadingMessage(message);
+    
+    const task = start(setProgress);
+    workerTaskRef.current = task;
+    try {
+      return await task.promise;
+    } finally {
+      // 다른 작업을 새로 시작했다면 그쪽에서 로딩 상태를 관리
+      if (workerTaskRef.current === task) {
+        workerTaskRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  // 워커에서 압축 해제/파싱 (취소되면 null)
+  const runParseTask = (request: ParseRequest, message = 'Loading point cloud file...'): Promise<ParseResult | null> =>
+    runWorkerTask(onProgress => parseInWorker(request, onProgress), message);
+
+  const runProcessTask = (request: ProcessRequest, message: string): Promise<ProcessResult | null> =>
+    runWorkerTask(onProgress => processInWorker(request, onProgress), message);
+
+  const cancelWorkerTask = () => {
+    workerTaskRef.current?.cancel();
+  };
+
+  // 텍스트 포인트 클라우드 가져오기 (컬럼 매핑 확정 후)
+  const handleTextImport = async (options: TextImportOptions) => {
+    if (!textImport) return;
+    const { file } = textImport;
+    setTextImport(null);
     
     try {
-      let arrayBuffer: ArrayBuffer;
+      const result = await runParseTask({ kind: 'text', file, options });
+      if (!result) return;
+      createPointCloudLayers([{ ...result.clouds[0], name: 'Point cloud' }]);
+      setFileName(file.name);
+      setLabelCounts(null);
+    } catch (error) {
+      console.error('Error loading point cloud file:', error);
+      alert('Error loading point cloud file: ' + (error as Error).message);
+    }
+  };
+
+  // KITTI velodyne 스캔 (+ SemanticKITTI label) 불러오기
+  const loadKITTIScan = async (scan: File, label?: File) => {
+    try {
+      const result = await runParseTask({ kind: 'kitti', scan, label });
+      if (!result) return;
       
-      if (file.name.endsWith('.gz')) {
-        const buffer = await file.arrayBuffer();
-        const compressed = new Uint8Array(buffer);
-        const decompressed = pako.ungzip(compressed);
-        arrayBuffer = decompressed.buffer;
-      } else {
-        arrayBuffer = await file.arrayBuffer();
+      const [parsed] = result.clouds;
+      if (result.labelCounts) {
+        colorByLabels(parsed.cloud, semanticPalette);
       }
+      createPointCloudLayers([{ ...parsed, name: 'Point cloud' }]);
+      setFileName(label ? `${scan.name} + ${label.name}` : scan.name);
+      setLabelCounts(result.labelCounts ?? null);
+    } catch (error) {
+      console.error('Error loading KITTI scan:', error);
+      alert('Error loading KITTI scan: ' + (error as Error).message);
+    }
+  };
+
+  // Potree 2.0 변환 결과 폴더 열기 (메인 프로세스가 필요한 바이트 구간만 읽어 줌)
+  const openPotreeFolder = async () => {
+    try {
+      const directory = await openDirectory();
+      if (!directory) return;
       
-      const points = parsePCD(arrayBuffer);
-      createPointCloud(points);
-      setFileName(file.name);
+      const path = (name: string) => `${directory}/${name}`;
+      const metadata = parsePotreeMetadata(new TextDecoder().decode(await readFile(path('metadata.json'))));
+      const dataset = createPotreeDataset(metadata, (name, offset, length) => readFile(path(name), offset, length));
+      const hasColors = metadata.attributes.some(attribute => /^rgba?$/i.test(attribute.name));
+      const name = metadata.name || directory.split(/[\\/]/).pop() || 'Potree';
+      const { min, max } = metadata.boundingBox;
       
+      setPointCloudLayers([{
+        name,
+        cloud: null,
+        octree: null,
+        index: null,
+        pointCount: metadata.points,
+        offset: dataset.offset,
+        bounds: dataset.bounds,
+        hasColors,
+        color: null,
+        attributeNames: Object.keys(dataset.ranges),
+        sensor: [0, 0, 0],
+        // 전체 점을 읽지 않으므로 metadata의 경계와 속성 범위를 씀
+        fieldRange: (field) => dataset.ranges[field] ?? boundsScalarRange({ min, max }, field),
+        renderer: createLODRenderer(dataset.root, dataset.loadNode, createMaterial(hasColors), { ...DEFAULT_LOD_OPTIONS }),
+      }]);
+      setFileName(name);
+      setLabelCounts(null);
     } catch (error) {
-      console.error('Error loading PCD file:', error);
-      alert('Error loading PCD file: ' + (error as Error).message);
-    } finally {
-      setLoading(false);
+      console.error('Error opening Potree dataset:', error);
+      alert('Error opening Potree dataset: ' + (error as Error).message);
+    }
+  };
+
+  // 클래스 팔레트 변경 시 label 색상 다시 칠하기
+  const updateSemanticPalette = (palette: SemanticClass[]) => {
+    setSemanticPalette(palette);
+    if (!labelCounts) return;
+    
+    // 원본 색상을 다시 칠하고 노드 버퍼를 새로 모으게 함
+    for (const layer of layersRef.current) {
+      if (!layer.cloud) continue;
+      colorByLabels(layer.cloud, palette);
+      layer.renderer.reload();
+    }
+  };
+
+  // 스칼라 필드 컬러맵 적용 (필드가 없는 레이어는 원본 색상 유지)
+  const applyScalarColor = (settings: ScalarColorSettings) => {
+    const { field, colormap } = settings;
+    let { min, max } = settings;
+    if (field && settings.auto) {
+      const ranges = layersRef.current
+        .filter(layer => layer.visible)
+        .map(layer => layer.fieldRange(field))
+        .filter(range => range !== null);
+      if (ranges.length > 0) {
+        min = Math.min(...ranges.map(range => range[0]));
+        max = Math.max(...ranges.map(range => range[1]));
+      }
+    }
+    setScalarColor({ ...settings, min, max });
+    
+    for (const layer of layersRef.current) {
+      const colored = !!field && (isPositionField(field) || layer.attributeNames.includes(field));
+      applyLayerColors(layer, colored ? { field: field!, colormap, min, max } : null, pointColor);
+    }
+  };
+
+  // 레이어에 칠할 컬러맵 (필드가 없는 레이어는 null)
+  const layerColoring = (layer: PointCloudLayer): ScalarColoring | null => {
+    const { field, colormap, min, max } = scalarColor;
+    return field && (isPositionField(field) || layer.attributeNames.includes(field)) ? { field, colormap, min, max } : null;
+  };
+
+  // 보이는 레이어의 필드 히스토그램 (Potree 레이어는 지금 읽어 둔 노드 기준)
+  const updateHistogram = (field: string) => {
+    setHistogramField(field);
+    const sources = layersRef.current.flatMap(({ visible, cloud, renderer, sensor, removed }) => {
+      if (!visible) return [];
+      const accept = removed ? (index: number) => !removed[index] : undefined;
+      return cloud ? [{ cloud, sensor, accept }] : renderer.loadedData().map(data => ({ cloud: data, sensor }));
+    });
+    setHistogram(field ? computeHistogram(sources, field) : null);
+  };
+
+  // 범위 필터를 레이어마다 노드 인덱스 버퍼와 피킹 조건에 반영
+  const applyRangeFilters = (filters: RangeFilter[]) => {
+    setRangeFilters(filters);
+    for (const layer of layersRef.current) {
+      applyLayerFilter(layer, filters);
+    }
+  };
+
+  // 저장 파일 이름에 쓸 현재 파일 이름 (KITTI의 'scan.bin + scan.label' 표시 이름과 .gz 확장자 정리)
+  const baseFileName = () => fileName.split(' + ')[0].replace(/\.gz$/i, '').replace(/\.[^.]*$/, '');
+
+  // 점 클릭: 측정 도구가 있으면 측정 점 추가, 선택/라벨 칠하기 도구가 있으면 무시, 라벨링 중이면 상자 추가/고르기, 없으면 인스펙터에 고정
+  pointClickRef.current = (pick: LayerPick) => {
+    if (selectTool || paintTool) return;
+    const point = getPoint(pick.data, pick.index);
+    if (annotating) {
+      clickCuboid(pick.layer.name, [point.x, point.y, point.z]);
+      return;
+    }
+    if (measureTool) {
+      addMeasurePoint([point.x, point.y, point.z]);
+      return;
+    }
+    const pinned: PinnedPoint = {
+      id: nextPinIdRef.current++,
+      layerName: pick.layer.name,
+      pointId: pick.pointId,
+      point,
+    };
+    setPinnedPoints(prev => [
+      ...prev.filter(p => p.layerName !== pinned.layerName || p.pointId !== pinned.pointId),
+      pinned,
+    ].slice(-MAX_PINNED_POINTS));
+  };
+
+  const addMeasurePoint = (point: MeasurementPoint) => {
+    const points = [...measureDraft, point];
+    if (points.length >= measurementKind(measureTool!).maxPoints) {
+      finishMeasurement(points);
+    } else {
+      setMeasureDraft(points);
+    }
+  };
+
+  const finishMeasurement = (points = measureDraft) => {
+    if (!measureTool || points.length < measurementKind(measureTool).minPoints) return;
+    const id = nextMeasurementIdRef.current++;
+    setMeasurements(prev => [...prev, { id, kind: measureTool, name: `${measurementKind(measureTool).label} ${id}`, points }]);
+    setMeasureDraft([]);
+  };
+
+  const changeMeasureTool = (tool: MeasurementKind | null) => {
+    setMeasureTool(tool);
+    setMeasureDraft([]);
+    if (!tool) return;
+    setSelectTool(null);
+    setAnnotating(false);
+    changePaintTool(null);
+  };
+
+  const exportMeasurements = async (format: 'csv' | 'json') => {
+    const text = format === 'csv' ? measurementsToCSV(measurements) : measurementsToJSON(measurements);
+    try {
+      await saveFile(
+        new TextEncoder().encode(text),
+        `${baseFileName() || 'point_cloud'}_measurements.${format}`,
+        [{ name: format.toUpperCase(), extensions: [format] }]
+      );
+    } catch (error) {
+      console.error('Error saving measurements:', error);
+      alert('Error saving measurements: ' + (error as Error).message);
+    }
+  };
+
+  const changeSelectTool = (tool: SelectionTool | null) => {
+    setSelectTool(tool);
+    if (!tool) return;
+    changeMeasureTool(null);
+    setAnnotating(false);
+    changePaintTool(null);
+    if (tool === 'box' && selectTool !== 'box') placeSelectionBox();
+  };
+
+  // 상자를 카메라 중심에 보이는 점 경계의 1/4 크기 정육면체로 놓음
+  const placeSelectionBox = () => {
+    const box = selectionBoxRef.current;
+    if (!box) return;
+    const bounds = visibleCloudBounds();
+    const size = bounds ? bounds.getSize(new THREE.Vector3()) : new THREE.Vector3(4, 4, 4);
+    box.position.copy(controlsRef.current?.target ?? new THREE.Vector3());
+    box.rotation.set(0, 0, 0);
+    box.scale.setScalar(Math.max(size.x, size.y, size.z, 0.4) / 4);
+  };
+
+  const changeBoxOriented = (oriented: boolean) => {
+    setBoxOriented(oriented);
+    if (!oriented && boxMode === 'rotate') setBoxMode('translate');
+  };
+
+  // 레이어의 선택을 바꾸고 강조 색상을 다시 칠함
+  const setLayerSelection = (layer: PointCloudLayer, mask: Uint8Array | null) => {
+    if (!mask && !layer.selected) return;
+    layer.selected = mask && countSelected(mask) > 0 ? mask : null;
+    applyLayerColors(layer, layerColoring(layer), pointColor);
+  };
+
+  const updateSelectionCount = () => {
+    setSelectionCount(layersRef.current.reduce((sum, layer) => sum + (layer.selected ? countSelected(layer.selected) : 0), 0));
+  };
+
+  // 보이는 메모리 레이어마다 select로 고른 점을 선택으로 (selectAdditive면 기존 선택에 더함)
+  const applySelection = (select: (layer: PointCloudLayer, cloud: PointCloudData) => Uint8Array) => {
+    for (const layer of layersRef.current) {
+      if (!layer.cloud || !layer.visible) continue;
+      const mask = select(layer, layer.cloud);
+      if (selectAdditive && layer.selected) {
+        for (let i = 0; i < mask.length; i++) mask[i] |= layer.selected[i];
+      }
+      setLayerSelection(layer, mask);
+    }
+    updateSelectionCount();
+  };
+
+  const selectWithBox = () => {
+    const box = selectionBoxRef.current;
+    if (!box) return;
+    box.updateMatrixWorld();
+    const fromScene = box.matrixWorld.clone().invert();
+    applySelection((layer, cloud) => {
+      const object = layer.renderer.object;
+      object.updateMatrixWorld();
+      const toBox = fromScene.clone().multiply(object.matrixWorld);
+      return selectInBox(cloud.positions, cloud.count, toBox, layer.pointFilter ?? undefined);
+    });
+  };
+
+  lassoSelectRef.current = (path: ScreenPolygon) => {
+    const camera = cameraRef.current;
+    const canvas = rendererRef.current?.domElement;
+    if (!camera || !canvas || path.length < 3) return;
+    const rect = canvas.getBoundingClientRect();
+    const polygon: ScreenPolygon = path.map(([x, y]) => [
+      ((x - rect.left) / rect.width) * 2 - 1,
+      -((y - rect.top) / rect.height) * 2 + 1,
+    ]);
+    camera.updateMatrixWorld();
+    const viewProjection = camera.projectionMatrix.clone().multiply(camera.matrixWorldInverse);
+    applySelection((layer, cloud) => {
+      const object = layer.renderer.object;
+      object.updateMatrixWorld();
+      const toClip = viewProjection.clone().multiply(object.matrixWorld);
+      return selectInLasso(cloud.positions, cloud.count, toClip, polygon, layer.pointFilter ?? undefined);
+    });
+  };
+
+  // 보이는 점 중 선택하지 않은 점을 선택
+  const invertSelection = () => {
+    for (const layer of layersRef.current) {
+      const { cloud, selected, pointFilter } = layer;
+      if (!cloud || !layer.visible) continue;
+      const mask = new Uint8Array(cloud.count);
+      for (let i = 0; i < cloud.count; i++) {
+        mask[i] = !selected?.[i] && (!pointFilter || pointFilter(i)) ? 1 : 0;
+      }
+      setLayerSelection(layer, mask);
+    }
+    updateSelectionCount();
+  };
+
+  const clearSelection = () => {
+    for (const layer of layersRef.current) setLayerSelection(layer, null);
+    setSelectionCount(0);
+  };
+
+  // 보이는 메모리 레이어에서 선택한 점을 지움 (keep이면 반대로 선택한 점만 남김)
+  // 원본 배열은 그대로 두고 removed 표시만 바꿈
+  const removeSelection = (keep: boolean) => {
+    let total = 0;
+    const edits = layersRef.current.flatMap((layer) => {
+      const { cloud, selected } = layer;
+      if (!cloud || !layer.visible || (!selected && !keep)) return [];
+      const removed = layer.removed?.slice() ?? new Uint8Array(cloud.count);
+      for (let i = 0; i < cloud.count; i++) {
+        if (!removed[i] && (selected?.[i] ? !keep : keep)) {
+          removed[i] = 1;
+          total++;
+        }
+      }
+      return [layerMaskEdit(layer, removed, null)];
+    });
+    commitEdit(`${keep ? '선택만 남기기' : '선택 삭제'} (${total.toLocaleString()}개 제거)`, edits);
+  };
+
+  // 편집 기록 표시 갱신
+  const updateHistoryState = () => {
+    setHistoryItems(historyRef.current.items());
+    setHistoryPosition(historyRef.current.position());
+  };
+
+  // 편집 인덱스를 뒤집고 (적용과 취소 모두) 바뀐 레이어를 돌려줌
+  const flipEdits = (edits: LayerEdit[]) => {
+    // 점 데이터가 바뀌면 이전 점 인덱스 기준인 군집/이상점 결과는 버림
+    if (edits.some(edit => edit.kind === 'data')) {
+      clearClusters();
+      discardOutliers();
+    }
+    const touched = new Set<PointCloudLayer>();
+    for (const edit of edits) {
+      flipLayerEdit(edit);
+      touched.add(edit.layer);
+    }
+    return touched;
+  };
+
+  // 편집한 레이어의 필터/색상과 점 수, 히스토그램을 다시 반영 (relabeled면 label별 점 수와 label 색상도)
+  const refreshEditedLayers = (layers: Set<PointCloudLayer>, relabeled = false) => {
+    // 바꿔 넣은 렌더러에도 점 예산을 나눠 줌
+    applyPointBudget(pointBudget);
+    for (const layer of layers) {
+      applyLayerFilter(layer, rangeFilters);
+      applyLayerColors(layer, layerColoring(layer), pointColor);
+    }
+    if (relabeled) {
+      updatePaintCounts();
+      // KITTI label 스캔은 원본 색상이 label 색이라 다시 칠함 (칠하기 도구가 켜져 있으면 덮어 그리는 색이 이미 맞음)
+      if (!paintTool) updateSemanticPalette(semanticPalette);
+    }
+    updateSelectionCount();
+    updateHistogram(histogramField);
+    updateLayerInfo();
+    updateHistoryState();
+  };
+
+  // 편집을 적용하고 기록 (바뀐 점이 없으면 기록하지 않음)
+  const commitEdit = (label: string, edits: LayerEdit[]) => {
+    const changed = edits.filter(edit => !isEmptyEdit(edit));
+    if (changed.length === 0) return;
+    const layers = flipEdits(changed);
+    historyRef.current.push(label, changed);
+    refreshEditedLayers(layers);
+  };
+
+  // 하면서 바로 반영한 편집 (칠하기)을 기록만 함
+  const recordEdit = (label: string, edits: LayerEdit[]) => {
+    const changed = edits.filter(edit => !isEmptyEdit(edit));
+    if (changed.length === 0) return;
+    historyRef.current.push(label, changed);
+    updateHistoryState();
+  };
+
+  const undoEdit = () => jumpHistory(historyRef.current.position() - 1);
+  const redoEdit = () => jumpHistory(historyRef.current.position() + 1);
+
+  // 편집 position개가 적용된 상태로 이동
+  const jumpHistory = (position: number) => {
+    const history = historyRef.current;
+    const layers = new Set<PointCloudLayer>();
+    let relabeled = false;
+    while (history.position() !== position) {
+      const edits = history.position() > position ? history.undo() : history.redo();
+      if (!edits) break;
+      flipEdits(edits).forEach(layer => layers.add(layer));
+      relabeled ||= edits.some(edit => edit.kind === 'labels');
+    }
+    if (layers.size > 0) refreshEditedLayers(layers, relabeled);
+  };
+
+  // 보이는 메모리 레이어마다 워커에서 복셀 다운샘플링해 미리보기로 보여 줌 (숨기거나 지운 점은 제외)
+  const runDownsample = async (options: VoxelOptions) => {
+    const targets = layersRef.current.filter(layer => layer.visible && layer.cloud);
+    if (targets.length === 0) return;
+    const inputs = targets.map(layer => ({ name: layer.name, cloud: layer.cloud!, hidden: hiddenMask(layer) }));
+    try {
+      const result = await runProcessTask({ kind: 'voxel', inputs, options }, 'Downsampling point cloud...');
+      // 그사이 다른 파일을 열었으면 버림
+      if (!result || result.kind !== 'voxel' || !targets.every(layer => layersRef.current.includes(layer))) return;
+      showPreview(result.clouds.map((parsed, i) => ({
+        target: targets[i],
+        source: { ...layerSource({ ...parsed, name: `${parsed.name} - voxel ${options.leafSize}` }), color: targets[i].color },
+      })));
+      const before = inputs.reduce((sum, { cloud, hidden }) => sum + cloud.count - (hidden ? countSelected(hidden) : 0), 0);
+      setDownsamplePreview({ before, after: result.clouds.reduce((sum, parsed) => sum + parsed.cloud.count, 0) });
+    } catch (error) {
+      console.error('Error downsampling point cloud:', error);
+      alert('Error downsampling point cloud: ' + (error as Error).message);
+    }
+  };
+
+  // 미리보기 결과로 레이어 점을 바꾸거나 (편집 기록에 남음) 새 레이어로 추가 (원본 레이어는 숨김)
+  const applyDownsample = (target: 'replace' | 'layer') => {
+    const counts = downsamplePreview;
+    const previews = takePreview();
+    if (previews.length === 0) return;
+    if (target === 'replace') {
+      const edits = previews.map(({ target: layer, source }): LayerDataEdit => ({
+        kind: 'data',
+        layer,
+        data: layerData({ ...source, removed: null, selected: null }),
+      }));
+      commitEdit(`다운샘플링 (${counts?.before.toLocaleString()} → ${counts?.after.toLocaleString()}개)`, edits);
+      return;
+    }
+    for (const { target: layer } of previews) {
+      layer.visible = false;
+      layer.renderer.object.visible = false;
+    }
+    previews.forEach(({ source }) => addPointCloudLayer(source));
+  };
+
+  // 보이는 메모리 레이어에서 이상점을 워커로 찾아 빨간색으로 미리 보여 줌
+  const runOutlierRemoval = async (options: OutlierOptions) => {
+    discardOutliers();
+    const targets = layersRef.current.filter(layer => layer.visible && layer.cloud && layer.index);
+    if (targets.length === 0) return;
+    const inputs = targets.map(layer => ({ positions: layer.cloud!.positions, tree: layer.index!, hidden: hiddenMask(layer) }));
+    try {
+      const result = await runProcessTask({ kind: 'outliers', inputs, options }, 'Finding outliers...');
+      // 그사이 다른 파일을 열었으면 버림
+      if (!result || result.kind !== 'outliers' || !targets.every(layer => layersRef.current.includes(layer))) return;
+      let removed = 0;
+      targets.forEach((layer, i) => {
+        const mask = result.masks[i];
+        const count = countSelected(mask);
+        removed += count;
+        layer.pendingRemoval = count > 0 ? mask : null;
+        applyLayerColors(layer, layerColoring(layer), pointColor);
+      });
+      const total = inputs.reduce((sum, { positions, hidden }) => sum + positions.length / 3 - (hidden ? countSelected(hidden) : 0), 0);
+      setOutlierPreview({ method: options.method, removed, total });
+    } catch (error) {
+      console.error('Error finding outliers:', error);
+      alert('Error finding outliers: ' + (error as Error).message);
+    }
+  };
+
+  // 미리보기한 이상점을 지움 (편집 기록에 남음)
+  const applyOutlierRemoval = () => {
+    if (!outlierPreview) return;
+    const edits = layersRef.current.flatMap((layer) => {
+      const { cloud, pendingRemoval } = layer;
+      if (!cloud || !pendingRemoval) return [];
+      const removed = layer.removed?.slice() ?? new Uint8Array(cloud.count);
+      const selected = layer.selected?.slice() ?? null;
+      for (let i = 0; i < cloud.count; i++) {
+        if (!pendingRemoval[i]) continue;
+        removed[i] = 1;
+        if (selected) selected[i] = 0;
+      }
+      layer.pendingRemoval = null;
+      return [layerMaskEdit(layer, removed, selected)];
+    });
+    setOutlierPreview(null);
+    commitEdit(`${OUTLIER_METHOD_LABELS[outlierPreview.method]} 이상점 제거 (${outlierPreview.removed.toLocaleString()}개)`, edits);
+  };
+
+  const discardOutliers = () => {
+    for (const layer of layersRef.current) {
+      if (!layer.pendingRemoval) continue;
+      layer.pendingRemoval = null;
+      applyLayerColors(layer, layerColoring(layer), pointColor);
+    }
+    setOutlierPreview(null);
+  };
+
+  // 보이는 메모리 레이어마다 RANSAC으로 지면을 찾아 지면/비지면 레이어로 나눔 (원래 레이어는 숨김)
+  const runGroundSegmentation = async (options: GroundOptions) => {
+    const targets = layersRef.current.filter(layer => layer.visible && layer.cloud);
+    if (targets.length === 0) return;
+    const inputs = targets.map(layer => ({ name: layer.name, cloud: layer.cloud!, hidden: hiddenMask(layer) }));
+    try {
+      const result = await runProcessTask({ kind: 'ground', inputs, options }, 'Segmenting ground...');
+      if (!result || result.kind !== 'ground' || !targets.every(layer => layersRef.current.includes(layer))) return;
+      
+      const results: GroundResult[] = [];
+      result.splits.forEach((split, i) => {
+        if (!split) return;
+        const layer = targets[i];
+        layer.visible = false;
+        layer.renderer.object.visible = false;
+        addPointCloudLayer({ ...layerSource(split.ground), color: GROUND_COLOR });
+        addPointCloudLayer({ ...layerSource(split.nonGround), color: NON_GROUND_COLOR });
+        results.push({
+          layerName: layer.name,
+          plane: planeInOriginal(split.plane, layer.offset),
+          groundCount: split.ground.cloud.count,
+          nonGroundCount: split.nonGround.cloud.count,
+        });
+      });
+      if (results.length === 0) {
+        alert('No ground plane found. Try a larger distance threshold or slope limit.');
+        return;
+      }
+      setGroundResults(results);
+    } catch (error) {
+      console.error('Error segmenting ground:', error);
+      alert('Error segmenting ground: ' + (error as Error).message);
+    }
+  };
+
+  const changeAnnotating = (active: boolean) => {
+    setAnnotating(active);
+    setPlacingCuboid(false);
+    if (!active) return;
+    changeMeasureTool(null);
+    setSelectTool(null);
+    changePaintTool(null);
+  };
+
+  // 라벨 칠하기 도구를 켜면 점을 label 색으로 덮어 그리고, 끄면 원래 색으로 돌림
+  const changePaintTool = (tool: PaintTool | null) => {
+    setPaintTool(tool);
+    setPaintPolygon([]);
+    if (!tool) {
+      if (paintTool) {
+        showLabelColors(false);
+        // KITTI label 스캔은 label 색이 파일 색이라 칠한 결과로 다시 칠함
+        updateSemanticPalette(semanticPalette);
+      }
+      return;
+    }
+    changeMeasureTool(null);
+    setSelectTool(null);
+    setAnnotating(false);
+    clearClusters();
+    showLabelColors(true);
+    updatePaintCounts();
+  };
+
+  // 라벨이 있는 점을 클래스 색으로 덮어 그림 (라벨 없는 점은 원래 색)
+  const showLabelColors = (visible: boolean, palette = semanticPalette) => {
+    const colorOf = semanticColors(palette);
+    for (const layer of layersRef.current) {
+      if (!layer.cloud) continue;
+      // label 속성은 처음 칠할 때 생기고 클라우드는 다운샘플링으로 바뀔 수 있으므로 매번 찾음
+      layer.overlay = visible
+        ? (index) => {
+          const label = layer.cloud?.attributes.label?.[index] ?? UNLABELED;
+          return label === UNLABELED ? null : colorOf(label);
+        }
+        : null;
+      applyLayerColors(layer, layerColoring(layer), pointColor);
+    }
+  };
+
+  const updatePaintCounts = () => {
+    const counts = new Map<number, number>();
+    for (const { cloud, removed } of layersRef.current) {
+      const labels = cloud?.attributes.label;
+      if (labels) countLabels(labels, counts, removed ? (index) => !removed[index] : undefined);
+    }
+    setPaintCounts(counts);
+    // KITTI label 스캔의 클래스 색상 패널도 같이 바꿈
+    setLabelCounts(prev => prev && counts);
+  };
+
+  // 화면에서 고른 점 중 앞 면에 보이는 점에 지금 클래스를 칠함 (select는 positions 좌표 -> 클립 좌표 행렬로 점을 고름)
+  const paintPoints = (select: (cloud: PointCloudData, toClip: THREE.Matrix4, accept?: (index: number) => boolean) => Uint8Array) => {
+    const camera = cameraRef.current;
+    const canvas = rendererRef.current?.domElement;
+    if (!camera || !canvas) return;
+    camera.updateMatrixWorld();
+    const viewProjection = camera.projectionMatrix.clone().multiply(camera.matrixWorldInverse);
+    const candidates = layersRef.current.flatMap((layer) => {
+      const { cloud } = layer;
+      if (!cloud || !layer.visible) return [];
+      const object = layer.renderer.object;
+      object.updateMatrixWorld();
+      const toClip = viewProjection.clone().multiply(object.matrixWorld);
+      const indices = selectedIndices(select(cloud, toClip, layer.pointFilter ?? undefined));
+      return indices.length > 0 ? [{ layer, cloud, positions: cloud.positions, toClip, indices }] : [];
+    });
+    if (candidates.length === 0) return;
+
+    // 앞 점에 가려진 점은 칠하지 않음
+    const rect = canvas.getBoundingClientRect();
+    const cells: [number, number] = [Math.ceil(rect.width / PAINT_DEPTH_CELL), Math.ceil(rect.height / PAINT_DEPTH_CELL)];
+    const visible = frontSurface(candidates, cells);
+    let addedLabels = false;
+    candidates.forEach(({ layer, cloud }, c) => {
+      const created = !cloud.attributes.label;
+      if (created) {
+        layer.attributeNames = [...layer.attributeNames, 'label'];
+        addedLabels = true;
+      }
+      const { indices, previous } = paintLabels(ensureLabels(cloud), visible[c], paintClass, paintOnlyUnlabeled);
+      if (indices.length === 0) return;
+      let stroke = paintStrokeRef.current.get(layer);
+      if (!stroke) {
+        stroke = new Map();
+        paintStrokeRef.current.set(layer, stroke);
+      }
+      for (let k = 0; k < indices.length; k++) {
+        if (!stroke.has(indices[k])) stroke.set(indices[k], previous[k]);
+      }
+      // 바뀐 점이 든 노드만 다시 칠함 (숨긴 클래스로 칠한 점은 노드 필터로 바로 숨김)
+      // label 속성이 처음 생겼으면 숨길 label 조건을 새로 만듦
+      if (created && layer.hiddenLabels) {
+        applyLayerFilter(layer, rangeFilters);
+        applyLayerColors(layer, layerColoring(layer), pointColor);
+      } else {
+        refreshLayerPoints(layer, indices);
+      }
+    });
+    if (addedLabels) updateLayerInfo();
+  };
+
+  brushPaintRef.current = (x: number, y: number) => {
+    const canvas = rendererRef.current?.domElement;
+    if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    const center: [number, number] = [((x - rect.left) / rect.width) * 2 - 1, -((y - rect.top) / rect.height) * 2 + 1];
+    const radius: [number, number] = [(brushRadius * 2) / rect.width, (brushRadius * 2) / rect.height];
+    paintPoints((cloud, toClip, accept) => selectInCircle(cloud.positions, cloud.count, toClip, center, radius, accept));
+  };
+
+  polygonFillRef.current = () => {
+    const canvas = rendererRef.current?.domElement;
+    if (!canvas || paintPolygon.length < 3) return;
+    const rect = canvas.getBoundingClientRect();
+    const polygon: ScreenPolygon = paintPolygon.map(([x, y]) => [
+      ((x - rect.left) / rect.width) * 2 - 1,
+      -((y - rect.top) / rect.height) * 2 + 1,
+    ]);
+    paintPoints((cloud, toClip, accept) => selectInLasso(cloud.positions, cloud.count, toClip, polygon, accept));
+    setPaintPolygon([]);
+    finishPaintStroke('다각형 채우기');
+  };
+
+  brushStrokeEndRef.current = () => finishPaintStroke('브러시');
+
+  // 칠하기 한 획 (브러시 드래그, 다각형 채우기)을 편집 기록 하나로 남김 (실행 취소하면 이전 label로 돌아감)
+  const finishPaintStroke = (tool: string) => {
+    const edits = Array.from(paintStrokeRef.current)
+      .filter(([layer]) => layersRef.current.includes(layer))
+      .map(([layer, stroke]): LayerLabelEdit => ({
+        kind: 'labels',
+        layer,
+        indices: Uint32Array.from(stroke.keys()),
+        values: Float64Array.from(stroke.values()),
+      }));
+    paintStrokeRef.current = new Map();
+    const total = edits.reduce((sum, edit) => sum + edit.indices.length, 0);
+    recordEdit(`${tool}: ${semanticClassName(semanticPalette, paintClass)} (${total.toLocaleString()}개)`, edits);
+    updatePaintCounts();
+  };
+
+  // 클래스 목록 변경 (클래스 색상 팔레트와 같이 저장)
+  const changeSemanticClasses = (palette: SemanticClass[]) => {
+    saveSemanticPalette(palette);
+    updateSemanticPalette(palette);
+    if (paintTool) showLabelColors(true, palette);
+    if (!palette.some(c => c.id === paintClass)) setPaintClass(palette.find(c => c.id !== UNLABELED)?.id ?? UNLABELED);
+  };
+
+  const toggleSemanticClass = (id: number) => {
+    const hidden = hiddenClasses.includes(id) ? hiddenClasses.filter(c => c !== id) : [...hiddenClasses, id];
+    setHiddenClasses(hidden);
+    for (const layer of layersRef.current) {
+      layer.hiddenLabels = hidden.length > 0 ? new Set(hidden) : null;
+      applyLayerFilter(layer, rangeFilters);
+    }
+  };
+
+  // 칠한 label 저장: PCD는 보이는 점에 label 필드를 붙여, .label은 레이어마다 원래 점 순서 그대로 (SemanticKITTI)
+  const exportLabels = async (format: LabelFileFormat) => {
+    const targets = layersRef.current.filter(layer => layer.visible && layer.cloud);
+    for (const layer of targets) {
+      if (layer.cloud!.attributes.label) continue;
+      ensureLabels(layer.cloud!);
+      layer.attributeNames = [...layer.attributeNames, 'label'];
+    }
+    updateLayerInfo();
+    const baseName = baseFileName() || 'point_cloud';
+    try {
+      if (format === 'pcd') {
+        const cloud = visibleCloud();
+        if (!cloud) return;
+        await saveFile(exportPointCloud(cloud, 'pcd_binary'), `${baseName}_labeled.pcd`, [{ name: 'PCD', extensions: ['pcd'] }]);
+        return;
+      }
+      for (const layer of targets) {
+        const name = targets.length === 1 ? baseName : layer.name.replace(/[\\/:*?"<>|]/g, '_');
+        await saveFile(encodeKITTILabels(layer.cloud!), `${name}.label`, [{ name: 'SemanticKITTI label', extensions: ['label'] }]);
+      }
+    } catch (error) {
+      console.error('Error saving labels:', error);
+      alert('Error saving labels: ' + (error as Error).message);
+    }
+  };
+
+  // 라벨링 중 클릭한 점(원래 좌표): 상자를 놓는 중이면 그 점을 중심으로 새 상자, 아니면 점을 담은 가장 작은 상자를 고름
+  const clickCuboid = (cloud: string, point: [number, number, number]) => {
+    if (placingCuboid) {
+      const label = cuboidLabel.trim();
+      const cuboid: Cuboid = { id: nextCuboidIdRef.current++, cloud, label, trackId: null, center: point, size: defaultCuboidSize(label), yaw: 0 };
+      setCuboids(prev => [...prev, cuboid]);
+      setSelectedCuboidId(cuboid.id);
+      setPlacingCuboid(false);
+      return;
+    }
+    const volume = ({ size }: Cuboid) => size[0] * size[1] * size[2];
+    const hit = cuboids
+      .filter(cuboid => pointInCuboid(cuboid, point))
+      .sort((a, b) => volume(a) - volume(b))[0];
+    setSelectedCuboidId(hit?.id ?? null);
+  };
+
+  const updateCuboid = (id: number, changes: Partial<CuboidFields>) => {
+    setCuboids(prev => prev.map(cuboid => (cuboid.id === id ? { ...cuboid, ...changes } : cuboid)));
+  };
+
+  const deleteCuboid = (id: number) => {
+    setCuboids(prev => prev.filter(cuboid => cuboid.id !== id));
+    if (selectedCuboidId === id) setSelectedCuboidId(null);
+  };
+
+  // 목록에서 고른 상자로 카메라를 옮김
+  const selectCuboid = (id: number) => {
+    const cuboid = cuboids.find(c => c.id === id);
+    if (!cuboid) return;
+    setSelectedCuboidId(id);
+    const center = new THREE.Vector3(...cuboid.center).sub(new THREE.Vector3(...sceneOrigin));
+    flyTo(center, Math.max(Math.hypot(...cuboid.size) / 2, 1));
+  };
+
+  // 라벨 파일 이름: 클라우드가 하나면 열어 둔 파일 이름, 여러 개면 레이어(스캔) 이름
+  const cuboidFileBase = (cloud: string, single: boolean) =>
+    (single && baseFileName()) || cloud.replace(/\.[^.]*$/, '').replace(/[\\/:*?"<>|]/g, '_');
+
+  // 클라우드마다 라벨 파일 하나씩 저장
+  const saveCuboids = async (format: CuboidFileFormat) => {
+    const clouds = [...new Set(cuboids.map(cuboid => cuboid.cloud))];
+    try {
+      for (const cloud of clouds) {
+        const boxes = cuboids.filter(cuboid => cuboid.cloud === cloud);
+        const text = format === 'kitti' ? formatKittiLabels(boxes) : formatCuboidJson(cloud, boxes);
+        const extension = format === 'kitti' ? 'txt' : 'json';
+        await saveFile(
+          new TextEncoder().encode(text),
+          `${cuboidFileBase(cloud, clouds.length === 1)}.${extension}`,
+          [{ name: format === 'kitti' ? 'KITTI label' : 'JSON', extensions: [extension] }]
+        );
+      }
+    } catch (error) {
+      console.error('Error saving labels:', error);
+      alert('Error saving labels: ' + (error as Error).message);
+    }
+  };
+
+  // 라벨 파일마다 클라우드를 찾아 그 클라우드의 상자를 바꿈
+  // (JSON에 적힌 클라우드 -> 파일 이름이 같은 레이어 -> 처음 보이는 레이어 순)
+  const loadCuboids = async (files: File[]) => {
+    const layerNames = layersRef.current.map(layer => layer.name);
+    const fallback = layersRef.current.find(layer => layer.visible)?.name;
+    try {
+      const loaded: Cuboid[] = [];
+      for (const file of files) {
+        const text = await file.text();
+        const base = file.name.replace(/\.[^.]*$/, '');
+        const json = /\.json$/i.test(file.name) ? parseCuboidJson(text) : null;
+        const fields = json ? json.cuboids : parseKittiLabels(text);
+        const cloud = (json?.cloud && layerNames.includes(json.cloud) ? json.cloud : null)
+          ?? layerNames.find(name => cuboidFileBase(name, layerNames.length === 1) === base)
+          ?? fallback;
+        if (!cloud) continue;
+        loaded.push(...fields.map(field => ({ ...field, id: nextCuboidIdRef.current++, cloud })));
+      }
+      const clouds = new Set(loaded.map(cuboid => cuboid.cloud));
+      setCuboids(prev => [...prev.filter(cuboid => !clouds.has(cuboid.cloud)), ...loaded]);
+      setSelectedCuboidId(null);
+    } catch (error) {
+      console.error('Error loading labels:', error);
+      alert('Error loading labels: ' + (error as Error).message);
+    }
+  };
+
+  // 보이는 메모리 레이어의 점을 유클리드 군집으로 나눠 군집마다 다른 색과 상자로 표시
+  const runClustering = async (options: ClusterOptions) => {
+    changePaintTool(null);
+    clearClusters();
+    const targets = layersRef.current.filter(layer => layer.visible && layer.cloud && layer.index);
+    if (targets.length === 0) return;
+    const inputs = targets.map(layer => ({ positions: layer.cloud!.positions, tree: layer.index!, hidden: hiddenMask(layer) }));
+    try {
+      const result = await runProcessTask({ kind: 'clusters', inputs, options }, 'Extracting clusters...');
+      if (!result || result.kind !== 'clusters' || !targets.every(layer => layersRef.current.includes(layer))) return;
+
+      const found: ClusterInfo[] = [];
+      targets.forEach((layer, i) => {
+        const { labels, clusters: layerClusters } = result.results[i];
+        // 군집 번호는 레이어를 이어서 매김 (색도 번호 순서대로)
+        const first = found.length;
+        const [ox, oy, oz] = layer.offset;
+        layerClusters.forEach(({ count, centroid, box }, k) => {
+          found.push({
+            id: first + k + 1,
+            layerName: layer.name,
+            count,
+            centroid: [centroid[0] + ox, centroid[1] + oy, centroid[2] + oz],
+            box: { ...box, center: [box.center[0] + ox, box.center[1] + oy, box.center[2] + oz] },
+            color: categoricalColor(first + k),
+          });
+        });
+        layer.overlay = (index) => (labels[index] >= 0 ? categoricalColor(first + labels[index]) : UNCLUSTERED_COLOR);
+        applyLayerColors(layer, layerColoring(layer), pointColor);
+      });
+      if (found.length === 0) {
+        clearClusters();
+        alert('No clusters found. Try a larger tolerance or a smaller minimum size.');
+        return;
+      }
+      setClusters(found);
+    } catch (error) {
+      console.error('Error extracting clusters:', error);
+      alert('Error extracting clusters: ' + (error as Error).message);
+    }
+  };
+
+  const clearClusters = () => {
+    for (const layer of layersRef.current) {
+      if (!layer.overlay) continue;
+      layer.overlay = null;
+      applyLayerColors(layer, layerColoring(layer), pointColor);
+    }
+    setClusters([]);
+  };
+
+  // 화면에 표시 중인 클라우드 저장
+  const handleExport = async (format: ExportFormat) => {
+    const { label, extension } = EXPORT_FORMATS.find(option => option.value === format)!;
+    // KITTI의 'scan.bin + scan.label' 표시 이름과 .gz 확장자 정리
+    const baseName = baseFileName();
+
+    const cloud = visibleCloud();
+    if (!cloud) return;
+
+    try {
+      const data = exportPointCloud(cloud, format);
+      await saveFile(data, `${baseName || 'point_cloud'}.${extension}`, [{ name: label, extensions: [extension] }]);
+    } catch (error) {
+      console.error('Error saving point cloud file:', error);
+      alert('Error saving point cloud file: ' + (error as Error).message);
     }
   };
 
   // 포인트 크기 업데이트
   const updatePointSize = (size: number) => {
     setPointSize(size);
-    if (pointCloudRef.current) {
-      const material = pointCloudRef.current.material as THREE.PointsMaterial;
-      material.size = size;
-      if (raycasterRef.current) {
-        raycasterRef.current.params.Points!.threshold = Math.max(0.1, size * 0.1);
-      }
+    for (const layer of layersRef.current) {
+      layer.renderer.material.size = size;
     }
   };
 
   // 포인트 색상 업데이트
   const updatePointColor = (color: string) => {
     setPointColor(color);
-    if (pointCloudRef.current && !hasOriginalColors()) {
-      const threeColor = new THREE.Color(color);
-      const geometry = pointCloudRef.current.geometry;
-      const colors = geometry.attributes.color.array as Float32Array;
-      
-      for (let i = 0; i < colors.length; i += 3) {
-        colors[i] = threeColor.r;
-        colors[i + 1] = threeColor.g;
-        colors[i + 2] = threeColor.b;
+    // 색상이 없는 클라우드만 단색 적용 (선택/지울 점 강조 중이면 단색 부분을 다시 칠함)
+    for (const layer of layersRef.current) {
+      if (layer.selected || layer.pendingRemoval) {
+        applyLayerColors(layer, layerColoring(layer), color);
+      } else if (!layer.renderer.material.vertexColors && !layer.color) {
+        layer.renderer.material.color.set(color);
       }
-      
-      geometry.attributes.color.needsUpdate = true;
     }
   };
 
-  const hasOriginalColors = (): boolean => {
-    return originalPointsRef.current.some(point => point.color);
-  };
-
   const handleReset = () => {
-    if (originalPointsRef.current.length > 0) {
-      fitCameraToPoints(originalPointsRef.current);
-    }
+    fitCameraToPoints(visibleCloudBounds());
   };
 
   const handleZoomIn = () => {
@@ -526,7 +2035,7 @@ const Monitoring: React.FC = () => {
   return (
     <Grid container spacing={3}>
       {/* PCD 뷰어 메인 영역 */}
-      <Grid item xs={12} md={8}>
+      <Grid size={{ xs: 12, md: 8 }}>
         <Paper sx={{ p: 2, borderRadius: 3, height: '70vh', position: 'relative' }}>
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
             <Typography variant="h6" sx={{ fontWeight: 600 }}>
@@ -551,17 +2060,89 @@ const Monitoring: React.FC = () => {
             </Box>
           </Box>
 
-          <Box
-            ref={mountRef}
-            sx={{
-              width: '100%',
-              height: 'calc(100% - 80px)',
-              border: '2px solid #e0e0e0',
-              borderRadius: 2,
-              overflow: 'hidden',
-              position: 'relative',
-            }}
-          />
+          <Box sx={{ position: 'relative', width: '100%', height: 'calc(100% - 80px)' }}>
+            <Box
+              ref={mountRef}
+              sx={{
+                width: '100%',
+                height: '100%',
+                border: '2px solid #e0e0e0',
+                borderRadius: 2,
+                overflow: 'hidden',
+                position: 'relative',
+              }}
+            />
+            {/* 고른 상자의 보조 뷰 테두리와 이름 (뷰는 캔버스 오른쪽 아래에 그림) */}
+            {annotating && selectedCuboidId !== null && (
+              <Box
+                sx={{
+                  position: 'absolute',
+                  right: 2 + CUBOID_VIEW_GAP,
+                  bottom: 2 + CUBOID_VIEW_GAP,
+                  display: 'flex',
+                  gap: `${CUBOID_VIEW_GAP}px`,
+                  pointerEvents: 'none',
+                }}
+              >
+                {CUBOID_VIEWS.map(view => (
+                  <Box
+                    key={view.label}
+                    sx={{ width: CUBOID_VIEW_SIZE, height: CUBOID_VIEW_SIZE, border: '1px solid rgba(255, 255, 255, 0.5)' }}
+                  >
+                    <Typography variant="caption" sx={{ color: 'white', px: 0.5 }}>
+                      {view.label}
+                    </Typography>
+                  </Box>
+                ))}
+              </Box>
+            )}
+          </Box>
+          
+          {scalarColor.field && (
+            <ColorLegend
+              label={scalarFieldLabel(scalarColor.field)}
+              colormap={scalarColor.colormap}
+              min={scalarColor.min}
+              max={scalarColor.max}
+            />
+          )}
+          
+          {paintTool === 'brush' && brushCursor && (
+            <svg style={{ position: 'fixed', inset: 0, width: '100%', height: '100%', pointerEvents: 'none', zIndex: 20 }}>
+              <circle
+                cx={brushCursor[0]}
+                cy={brushCursor[1]}
+                r={brushRadius}
+                fill="none"
+                stroke={semanticPalette.find(c => c.id === paintClass)?.color ?? '#ffffff'}
+                strokeWidth={1.5}
+              />
+            </svg>
+          )}
+
+          {paintPolygon.length > 0 && (
+            <svg style={{ position: 'fixed', inset: 0, width: '100%', height: '100%', pointerEvents: 'none', zIndex: 20 }}>
+              <polygon
+                points={paintPolygon.map(([x, y]) => `${x},${y}`).join(' ')}
+                fill="rgba(255, 255, 255, 0.1)"
+                stroke={semanticPalette.find(c => c.id === paintClass)?.color ?? '#ffffff'}
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+              />
+            </svg>
+          )}
+
+          {lassoPath && (
+            <svg style={{ position: 'fixed', inset: 0, width: '100%', height: '100%', pointerEvents: 'none', zIndex: 20 }}>
+              <polygon
+                points={lassoPath.map(([x, y]) => `${x},${y}`).join(' ')}
+                fill="rgba(255, 87, 34, 0.15)"
+                stroke="#ff5722"
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+              />
+            </svg>
+          )}
           
           {loading && (
             <Box
@@ -575,23 +2156,28 @@ const Monitoring: React.FC = () => {
                 p: 2,
                 borderRadius: 2,
                 zIndex: 10,
+                minWidth: 260,
               }}
             >
-              <Typography>Loading PCD file...</Typography>
+              <Typography sx={{ mb: 1 }}>{loadingMessage} {progress}%</Typography>
+              <LinearProgress variant="determinate" value={progress} sx={{ mb: 1.5 }} />
+              <Button size="small" variant="outlined" color="inherit" fullWidth onClick={cancelWorkerTask}>
+                취소
+              </Button>
             </Box>
           )}
         </Paper>
       </Grid>
 
       {/* 컨트롤 패널 */}
-      <Grid item xs={12} md={4}>
+      <Grid size={{ xs: 12, md: 4 }}>
         <Grid container spacing={2}>
           {/* 파일 업로드 */}
-          <Grid item xs={12}>
+          <Grid size={12}>
             <Card sx={{ borderRadius: 3 }}>
               <CardContent>
                 <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
-                  PCD 파일 업로드
+                  포인트 클라우드 파일 업로드
                 </Typography>
                 <Button
                   variant="contained"
@@ -600,26 +2186,44 @@ const Monitoring: React.FC = () => {
                   fullWidth
                   sx={{ mb: 2 }}
                 >
-                  PCD 파일 선택
+                  포인트 클라우드 파일 선택
                   <input
                     type="file"
                     hidden
-                    accept=".pcd,.pcd.gz"
+                    accept={POINT_CLOUD_ACCEPT}
+                    multiple
                     onChange={handleFileUpload}
                   />
                 </Button>
+                {window.ipcRenderer && (
+                  <Button
+                    variant="outlined"
+                    startIcon={<FolderOpen />}
+                    fullWidth
+                    sx={{ mb: 2 }}
+                    onClick={openPotreeFolder}
+                  >
+                    Potree 폴더 열기
+                  </Button>
+                )}
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                  지원 형식: PCD, PLY, LAS, E57, XYZ / CSV / PTS, KITTI .bin (+ .label 함께 선택)
+                </Typography>
                 <Typography variant="body2" color="text.secondary" sx={{ mb: 0.5 }}>
                   파일: {fileName}
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
                   포인트 수: {pointCount.toLocaleString()}
                 </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  표시 중: {renderedCount.toLocaleString()}
+                </Typography>
               </CardContent>
             </Card>
           </Grid>
 
           {/* 표시 컨트롤 */}
-          <Grid item xs={12}>
+          <Grid size={12}>
             <Card sx={{ borderRadius: 3 }}>
               <CardContent>
                 <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
@@ -640,6 +2244,20 @@ const Monitoring: React.FC = () => {
                   />
                 </Box>
 
+                <Box sx={{ mb: 3 }}>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    포인트 예산: {(pointBudget / 1000000).toFixed(1)}M
+                  </Typography>
+                  <Slider
+                    value={pointBudget}
+                    onChange={(_, value) => applyPointBudget(value as number)}
+                    min={500000}
+                    max={20000000}
+                    step={500000}
+                    size="small"
+                  />
+                </Box>
+
                 <Box>
                   <Typography variant="body2" sx={{ mb: 1 }}>
                     포인트 색상
@@ -661,24 +2279,250 @@ const Monitoring: React.FC = () => {
             </Card>
           </Grid>
 
+          {/* 스칼라 필드 색상 */}
+          <Grid size={12}>
+            <ScalarColorPanel
+              settings={scalarColor}
+              attributes={attributeNames}
+              onChange={applyScalarColor}
+            />
+          </Grid>
+
+          {/* 측정 */}
+          <Grid size={12}>
+            <MeasurementPanel
+              tool={measureTool}
+              draft={measureDraft}
+              measurements={measurements}
+              onToolChange={changeMeasureTool}
+              onFinish={() => finishMeasurement()}
+              onCancel={() => setMeasureDraft([])}
+              onRename={(id, name) => setMeasurements(prev => prev.map(m => (m.id === id ? { ...m, name } : m)))}
+              onDelete={(id) => setMeasurements(prev => prev.filter(m => m.id !== id))}
+              onExport={exportMeasurements}
+            />
+          </Grid>
+
+          {/* 상자/올가미 선택 */}
+          <Grid size={12}>
+            <SelectionPanel
+              tool={selectTool}
+              boxMode={boxMode}
+              oriented={boxOriented}
+              additive={selectAdditive}
+              selectionCount={selectionCount}
+              disabled={!exportable}
+              onToolChange={changeSelectTool}
+              onBoxModeChange={setBoxMode}
+              onOrientedChange={changeBoxOriented}
+              onAdditiveChange={setSelectAdditive}
+              onSelectBox={selectWithBox}
+              onCrop={() => removeSelection(true)}
+              onDelete={() => removeSelection(false)}
+              onInvert={invertSelection}
+              onClear={clearSelection}
+            />
+          </Grid>
+
+          {/* 포인트 라벨링 */}
+          <Grid size={12}>
+            <SemanticPaintPanel
+              tool={paintTool}
+              classes={semanticPalette}
+              activeClass={paintClass}
+              hiddenClasses={hiddenClasses}
+              counts={paintCounts}
+              brushRadius={brushRadius}
+              onlyUnlabeled={paintOnlyUnlabeled}
+              polygonPoints={paintPolygon.length}
+              disabled={!exportable}
+              onToolChange={changePaintTool}
+              onActiveClassChange={setPaintClass}
+              onToggleClass={toggleSemanticClass}
+              onBrushRadiusChange={setBrushRadius}
+              onOnlyUnlabeledChange={setPaintOnlyUnlabeled}
+              onFillPolygon={() => polygonFillRef.current()}
+              onCancelPolygon={() => setPaintPolygon([])}
+              onClassesChange={changeSemanticClasses}
+              onExport={exportLabels}
+            />
+          </Grid>
+
+          {/* 3D 상자 라벨링 */}
+          <Grid size={12}>
+            <CuboidPanel
+              active={annotating}
+              cuboids={cuboids}
+              selectedId={selectedCuboidId}
+              newLabel={cuboidLabel}
+              placing={placingCuboid}
+              mode={cuboidMode}
+              disabled={layers.length === 0}
+              onActiveChange={changeAnnotating}
+              onNewLabelChange={setCuboidLabel}
+              onPlace={() => setPlacingCuboid(!placingCuboid)}
+              onModeChange={setCuboidMode}
+              onSelect={selectCuboid}
+              onChange={updateCuboid}
+              onDelete={deleteCuboid}
+              onSave={saveCuboids}
+              onLoad={loadCuboids}
+            />
+          </Grid>
+
+          {/* 복셀 다운샘플링 */}
+          <Grid size={12}>
+            <DownsamplePanel
+              preview={downsamplePreview}
+              disabled={!exportable || loading}
+              onRun={runDownsample}
+              onApply={applyDownsample}
+              onDiscard={discardPreview}
+            />
+          </Grid>
+
+          {/* 이상점 제거 */}
+          <Grid size={12}>
+            <OutlierPanel
+              preview={outlierPreview}
+              disabled={!exportable || loading}
+              onRun={runOutlierRemoval}
+              onApply={applyOutlierRemoval}
+              onDiscard={discardOutliers}
+            />
+          </Grid>
+
+          {/* RANSAC 지면 분리 */}
+          <Grid size={12}>
+            <GroundPanel results={groundResults} disabled={!exportable || loading} onRun={runGroundSegmentation} />
+          </Grid>
+
+          {/* 유클리드 군집화 */}
+          <Grid size={12}>
+            <ClusterPanel
+              clusters={clusters}
+              disabled={!exportable || loading}
+              onRun={runClustering}
+              onClear={clearClusters}
+              onFocus={focusCluster}
+            />
+          </Grid>
+
+          {/* 편집 기록 */}
+          <Grid size={12}>
+            <HistoryPanel
+              items={historyItems}
+              position={historyPosition}
+              onUndo={undoEdit}
+              onRedo={redoEdit}
+              onJump={jumpHistory}
+            />
+          </Grid>
+
+          {/* 히스토그램 범위 필터 */}
+          <Grid size={12}>
+            <HistogramPanel
+              attributes={attributeNames}
+              field={histogramField}
+              histogram={histogram}
+              filters={rangeFilters}
+              onFieldChange={updateHistogram}
+              onRefresh={() => updateHistogram(histogramField)}
+              onFiltersChange={applyRangeFilters}
+            />
+          </Grid>
+
+          {/* 레이어 (E57 스캔 등) */}
+          {layers.length > 1 && (
+            <Grid size={12}>
+              <LayerPanel layers={layers} onToggle={toggleLayer} onColorChange={changeLayerColor} />
+            </Grid>
+          )}
+
+          {/* SemanticKITTI 클래스 색상 */}
+          {labelCounts && (
+            <Grid size={12}>
+              <SemanticPalettePanel
+                palette={semanticPalette}
+                labelCounts={labelCounts}
+                onChange={(palette) => {
+                  saveSemanticPalette(palette);
+                  updateSemanticPalette(palette);
+                }}
+                onReset={() => updateSemanticPalette(resetSemanticPalette())}
+              />
+            </Grid>
+          )}
+
+          {/* 포인트 인스펙터 */}
+          {pinnedPoints.length > 0 && (
+            <Grid size={12}>
+              <PointInspectorPanel
+                points={pinnedPoints}
+                onRemove={(id) => setPinnedPoints(prev => prev.filter(point => point.id !== id))}
+                onClear={() => setPinnedPoints([])}
+              />
+            </Grid>
+          )}
+
+          {/* 내보내기 */}
+          <Grid size={12}>
+            <ExportPanel disabled={!exportable} onExport={handleExport} />
+          </Grid>
+
           {/* 컨트롤 가이드 */}
-          <Grid item xs={12}>
+          <Grid size={12}>
             <Paper sx={{ p: 2, borderRadius: 3 }}>
               <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
                 컨트롤 가이드
               </Typography>
-              <Typography variant="body2" sx={{ mb: 1 }}>
-                • 마우스 드래그: 회전
-              </Typography>
-              <Typography variant="body2" sx={{ mb: 1 }}>
-                • 마우스 휠: 줌 인/아웃
-              </Typography>
-              <Typography variant="body2" sx={{ mb: 1 }}>
-                • 우클릭 드래그: 팬
-              </Typography>
-              <Typography variant="body2">
-                • 포인트 hover: 좌표 표시
-              </Typography>
+              {paintTool ? (
+                <>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    {paintTool === 'brush'
+                      ? '• 왼쪽 드래그: 브러시로 칠하기'
+                      : '• 왼쪽 클릭: 다각형 꼭짓점 추가'}
+                  </Typography>
+                  {paintTool === 'polygon' && (
+                    <Typography variant="body2" sx={{ mb: 1 }}>
+                      • 더블클릭/Enter: 다각형 채우기, Esc: 다각형 취소
+                    </Typography>
+                  )}
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    • 우클릭 드래그: 회전
+                  </Typography>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    • 가운데 버튼 드래그: 팬
+                  </Typography>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    • 마우스 휠: 줌 인/아웃
+                  </Typography>
+                  <Typography variant="body2">
+                    • Ctrl+Z: 칠하기 한 획 실행 취소, Ctrl+Shift+Z: 다시 실행
+                  </Typography>
+                </>
+              ) : (
+                <>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    • 마우스 드래그: 회전
+                  </Typography>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    • 마우스 휠: 줌 인/아웃
+                  </Typography>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    • 우클릭 드래그: 팬
+                  </Typography>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    • 포인트 hover: 좌표와 속성 표시
+                  </Typography>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    • 포인트 클릭: 인스펙터에 고정 (측정 도구 선택 시 측정 점 추가)
+                  </Typography>
+                  <Typography variant="body2">
+                    • Enter: 폴리라인/면적 완료, Esc: 측정 취소
+                  </Typography>
+                </>
+              )}
             </Paper>
           </Grid>
         </Grid>
@@ -715,11 +2559,38 @@ const Monitoring: React.FC = () => {
           </Typography>
           {tooltip.point.color && (
             <Typography variant="caption" sx={{ display: 'block', mt: 0.5, fontWeight: 600 }}>
-              색상: RGB({Math.round(tooltip.point.color.r * 255)}, {Math.round(tooltip.point.color.g * 255)}, {Math.round(tooltip.point.color.b * 255)})
+              색상: RGB({tooltip.point.color.join(', ')})
+            </Typography>
+          )}
+          {tooltip.point.normal && (
+            <Typography variant="caption" sx={{ display: 'block' }}>
+              법선: ({tooltip.point.normal.map(v => v.toFixed(3)).join(', ')})
+            </Typography>
+          )}
+          {Object.entries(tooltip.point.attributes).map(([name, value]) => (
+            <Typography key={name} variant="caption" sx={{ display: 'block' }}>
+              {name}: {formatPointValue(value)}
+            </Typography>
+          ))}
+          {labelCounts && tooltip.point.attributes.label !== undefined && (
+            <Typography variant="caption" sx={{ display: 'block', fontWeight: 600 }}>
+              클래스: {semanticClassName(semanticPalette, tooltip.point.attributes.label)} ({tooltip.point.attributes.label})
             </Typography>
           )}
         </Box>
       )}
+
+      {/* 텍스트 가져오기 컬럼 매핑 */}
+      {textImport && (
+        <TextImportDialog
+          open
+          fileName={textImport.file.name}
+          sample={textImport.sample}
+          initialOptions={textImport.options}
+          onCancel={() => setTextImport(null)}
+          onConfirm={handleTextImport}
+        />
+      )}
     </Grid>
   );
 };
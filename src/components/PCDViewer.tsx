@@ -21,13 +21,7 @@ import {
   CloudUpload,
   Visibility,
 } from '@mui/icons-material';
-
-interface PCDPoint {
-  x: number;
-  y: number;
-  z: number;
-  color?: THREE.Color;
-}
+import { PointCloudData, PointRecord, getPoint, parsePCD } from '@/services/pointcloud';
 
 interface PCDViewerProps {
   width?: number;
@@ -37,7 +31,7 @@ interface PCDViewerProps {
 interface TooltipData {
   x: number;
   y: number;
-  point: PCDPoint;
+  point: PointRecord;
 }
 
 // OrbitControls 타입 정의 (Three.js examples의 OrbitControls)
@@ -62,7 +56,7 @@ const PCDViewer: React.FC<PCDViewerProps> = ({ width = 800, height = 600 }) => {
   const pointCloudRef = useRef<THREE.Points | null>(null);
   const raycasterRef = useRef<THREE.Raycaster | null>(null);
   const mouseRef = useRef<THREE.Vector2 | null>(null);
-  const originalPointsRef = useRef<PCDPoint[]>([]);
+  const pointCloudDataRef = useRef<PointCloudData | null>(null);
   const animationIdRef = useRef<number | null>(null);
   
   const [pointSize, setPointSize] = useState(2);
@@ -144,13 +138,13 @@ const PCDViewer: React.FC<PCDViewerProps> = ({ width = 800, height = 600 }) => {
         if (intersects.length > 0) {
           const intersect = intersects[0];
           const index = intersect.index!;
-          const point = originalPointsRef.current[index];
+          const data = pointCloudDataRef.current;
           
-          if (point) {
+          if (data && index < data.count) {
             setTooltip({
               x: event.clientX,
               y: event.clientY,
-              point
+              point: getPoint(data, index)
             });
           }
         } else {
@@ -200,89 +194,8 @@ const PCDViewer: React.FC<PCDViewerProps> = ({ width = 800, height = 600 }) => {
     };
   }, [width, height, pointSize]);
 
-  // PCD 파일 파싱 함수
-  const parsePCD = (arrayBuffer: ArrayBuffer): PCDPoint[] => {
-    const decoder = new TextDecoder();
-    const fullText = decoder.decode(arrayBuffer);
-    const lines = fullText.split('\n');
-    
-    const points: PCDPoint[] = [];
-    let fields: string[] = [];
-    let size: number[] = [];
-    let type: string[] = [];
-    let count: number[] = [];
-    let dataType = 'ascii';
-    let pointsCount = 0;
-    let headerEndIndex = -1;
-    
-    // 헤더 파싱
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      if (line.startsWith('FIELDS')) {
-        fields = line.split(' ').slice(1);
-      } else if (line.startsWith('SIZE')) {
-        size = line.split(' ').slice(1).map(Number);
-      } else if (line.startsWith('TYPE')) {
-        type = line.split(' ').slice(1);
-      } else if (line.startsWith('COUNT')) {
-        count = line.split(' ').slice(1).map(Number);
-      } else if (line.startsWith('POINTS')) {
-        pointsCount = parseInt(line.split(' ')[1]);
-      } else if (line.startsWith('DATA')) {
-        dataType = line.split(' ')[1];
-        headerEndIndex = i;
-        break;
-      }
-    }
-    
-    if (headerEndIndex === -1) {
-      throw new Error('Invalid PCD file: DATA section not found');
-    }
-    
-    if (dataType === 'ascii') {
-      // ASCII 데이터 파싱
-      for (let i = headerEndIndex + 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (line === '') continue;
-        
-        const values = line.split(/\s+/).map(parseFloat);
-        if (values.length >= 3) {
-          const point: PCDPoint = { x: values[0], y: values[1], z: values[2] };
-          
-          // RGB 색상 처리
-          if (fields.includes('rgb')) {
-            const rgbIdx = fields.indexOf('rgb');
-            const rgb = values[rgbIdx];
-            const r = ((rgb >> 16) & 0xFF) / 255;
-            const g = ((rgb >> 8) & 0xFF) / 255;
-            const b = (rgb & 0xFF) / 255;
-            point.color = new THREE.Color(r, g, b);
-          } else if (fields.includes('r') && fields.includes('g') && fields.includes('b')) {
-            const rIdx = fields.indexOf('r');
-            const gIdx = fields.indexOf('g');
-            const bIdx = fields.indexOf('b');
-            point.color = new THREE.Color(
-              values[rIdx] / 255,
-              values[gIdx] / 255,
-              values[bIdx] / 255
-            );
-          }
-          
-          points.push(point);
-        }
-      }
-    } else if (dataType === 'binary') {
-      // Binary 데이터 파싱 (간단한 버전)
-      // 실제 구현에서는 더 복잡한 binary parsing이 필요
-      console.warn('Binary PCD files are not fully supported in this implementation');
-    }
-    
-    return points;
-  };
-
   // Point Cloud 생성
-  const createPointCloud = (points: PCDPoint[]) => {
+  const createPointCloud = (data: PointCloudData) => {
     if (!sceneRef.current) return;
     
     // 기존 point cloud 제거
@@ -296,37 +209,18 @@ const PCDViewer: React.FC<PCDViewerProps> = ({ width = 800, height = 600 }) => {
       }
     }
     
-    originalPointsRef.current = points;
+    pointCloudDataRef.current = data;
     
     const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(points.length * 3);
-    const colors = new Float32Array(points.length * 3);
-    
-    let hasColors = false;
-    const defaultColor = new THREE.Color(1, 1, 1);
-    
-    for (let i = 0; i < points.length; i++) {
-      const point = points[i];
-      const i3 = i * 3;
-      
-      positions[i3] = point.x;
-      positions[i3 + 1] = point.y;
-      positions[i3 + 2] = point.z;
-      
-      const color = point.color || defaultColor;
-      colors[i3] = color.r;
-      colors[i3 + 1] = color.g;
-      colors[i3 + 2] = color.b;
-      
-      if (point.color) hasColors = true;
+    geometry.setAttribute('position', new THREE.BufferAttribute(data.positions, 3));
+    if (data.colors) {
+      geometry.setAttribute('color', new THREE.BufferAttribute(data.colors, 3, true));
     }
     
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-    
     const material = new THREE.PointsMaterial({
       size: pointSize,
-      vertexColors: hasColors,
+      vertexColors: !!data.colors,
+      color: data.colors ? 0xffffff : pointColor,
       sizeAttenuation: true
     });
     
@@ -335,20 +229,17 @@ const PCDViewer: React.FC<PCDViewerProps> = ({ width = 800, height = 600 }) => {
     sceneRef.current.add(pointCloud);
     
     // 카메라를 포인트 클라우드에 맞춤
-    fitCameraToPoints(points);
+    fitCameraToPoints(data);
     
     // 상태 업데이트
-    setPointCount(points.length);
+    setPointCount(data.count);
   };
 
   // 카메라를 포인트들에 맞춤
-  const fitCameraToPoints = (points: PCDPoint[]) => {
-    if (points.length === 0 || !cameraRef.current || !controlsRef.current) return;
+  const fitCameraToPoints = (data: PointCloudData | null) => {
+    if (!data || data.count === 0 || !cameraRef.current || !controlsRef.current) return;
     
-    const box = new THREE.Box3();
-    points.forEach(point => {
-      box.expandByPoint(new THREE.Vector3(point.x, point.y, point.z));
-    });
+    const box = new THREE.Box3(new THREE.Vector3(...data.bounds.min), new THREE.Vector3(...data.bounds.max));
     
     const center = box.getCenter(new THREE.Vector3());
     const size = box.getSize(new THREE.Vector3());
@@ -383,8 +274,7 @@ const PCDViewer: React.FC<PCDViewerProps> = ({ width = 800, height = 600 }) => {
         arrayBuffer = await file.arrayBuffer();
       }
       
-      const points = parsePCD(arrayBuffer);
-      createPointCloud(points);
+      createPointCloud(parsePCD(arrayBuffer));
       setFileName(file.name);
       
     } catch (error) {
@@ -408,29 +298,14 @@ const PCDViewer: React.FC<PCDViewerProps> = ({ width = 800, height = 600 }) => {
 
   // 포인트 색상 업데이트
   useEffect(() => {
-    if (pointCloudRef.current && !hasOriginalColors()) {
-      const threeColor = new THREE.Color(pointColor);
-      const geometry = pointCloudRef.current.geometry;
-      const colors = geometry.attributes.color.array as Float32Array;
-      
-      for (let i = 0; i < colors.length; i += 3) {
-        colors[i] = threeColor.r;
-        colors[i + 1] = threeColor.g;
-        colors[i + 2] = threeColor.b;
-      }
-      
-      geometry.attributes.color.needsUpdate = true;
+    if (pointCloudRef.current && !pointCloudDataRef.current?.colors) {
+      const material = pointCloudRef.current.material as THREE.PointsMaterial;
+      material.color.set(pointColor);
     }
   }, [pointColor]);
 
-  const hasOriginalColors = (): boolean => {
-    return originalPointsRef.current.some(point => point.color);
-  };
-
   const handleReset = () => {
-    if (originalPointsRef.current.length > 0) {
-      fitCameraToPoints(originalPointsRef.current);
-    }
+    fitCameraToPoints(pointCloudDataRef.current);
   };
 
   const handleZoomIn = () => {
@@ -623,7 +498,7 @@ const PCDViewer: React.FC<PCDViewerProps> = ({ width = 800, height = 600 }) => {
           </Typography>
           {tooltip.point.color && (
             <Typography variant="caption" sx={{ display: 'block', mt: 0.5 }}>
-              색상: RGB({Math.round(tooltip.point.color.r * 255)}, {Math.round(tooltip.point.color.g * 255)}, {Math.round(tooltip.point.color.b * 255)})
+              색상: RGB({tooltip.point.color.join(', ')})
             </Typography>
           )}
         </Box>
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  List,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { ClusterOptions, DEFAULT_CLUSTER_OPTIONS, OrientedBox } from '@/services/pointcloud/clusters';
+
+// 뷰어에 표시 중인 군집 하나 (중심과 상자는 원래 좌표 기준)
+export interface ClusterInfo {
+  id: number;
+  layerName: string;
+  count: number;
+  centroid: [number, number, number];
+  box: OrientedBox;
+  color: [number, number, number];
+}
+
+interface ClusterPanelProps {
+  clusters: ClusterInfo[];
+  disabled: boolean;
+  onRun: (options: ClusterOptions) => void;
+  onClear: () => void;
+  onFocus: (cluster: ClusterInfo) => void;
+}
+
+const ClusterPanel: React.FC<ClusterPanelProps> = ({ clusters, disabled, onRun, onClear, onFocus }) => {
+  const [values, setValues] = useState({
+    tolerance: String(DEFAULT_CLUSTER_OPTIONS.tolerance),
+    minSize: String(DEFAULT_CLUSTER_OPTIONS.minSize),
+    maxSize: String(DEFAULT_CLUSTER_OPTIONS.maxSize),
+  });
+
+  const number = (key: keyof typeof values) => (values[key].trim() === '' ? NaN : Number(values[key]));
+  const options: ClusterOptions | null = number('tolerance') > 0
+    && Number.isInteger(number('minSize')) && number('minSize') >= 1
+    && Number.isInteger(number('maxSize')) && number('maxSize') >= number('minSize')
+    ? { tolerance: number('tolerance'), minSize: number('minSize'), maxSize: number('maxSize') }
+    : null;
+
+  const field = (key: keyof typeof values, label: string, step: number) => (
+    <TextField
+      label={label}
+      size="small"
+      type="number"
+      value={values[key]}
+      onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+      slotProps={{ htmlInput: { min: 0, step } }}
+      sx={{ flex: 1 }}
+    />
+  );
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          군집화
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          {field('tolerance', '거리 (m)', 0.05)}
+          {field('minSize', '최소 점 수', 10)}
+          {field('maxSize', '최대 점 수', 1000)}
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            size="small"
+            sx={{ flex: 1 }}
+            disabled={disabled || !options}
+            onClick={() => options && onRun(options)}
+          >
+            유클리드 군집화
+          </Button>
+          <Button size="small" onClick={onClear} disabled={clusters.length === 0}>
+            지우기
+          </Button>
+        </Box>
+
+        {clusters.length > 0 && (
+          <>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1.5 }}>
+              군집 {clusters.length.toLocaleString()}개 · 클릭하면 카메라가 이동합니다
+            </Typography>
+            <List dense disablePadding sx={{ maxHeight: 240, overflowY: 'auto' }}>
+              {clusters.map(cluster => (
+                <ListItemButton key={cluster.id} title={cluster.layerName} onClick={() => onFocus(cluster)} sx={{ gap: 1, px: 1 }}>
+                  <Box
+                    sx={{
+                      width: 14,
+                      height: 14,
+                      borderRadius: 0.5,
+                      flexShrink: 0,
+                      bgcolor: `rgb(${cluster.color.join(',')})`,
+                    }}
+                  />
+                  <ListItemText
+                    primary={`#${cluster.id} · ${cluster.count.toLocaleString()}개`}
+                    secondary={
+                      <>
+                        중심 ({cluster.centroid.map(value => value.toFixed(2)).join(', ')})
+                        <br />
+                        크기 {cluster.box.size.map(value => value.toFixed(2)).join(' × ')} m
+                      </>
+                    }
+                    slotProps={{ secondary: { sx: { fontFamily: 'monospace' } } }}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClusterPanel;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { ColormapName, categoricalColor, sampleColormap } from '@/services/pointcloud/colormap';
+import { formatPointValue } from './PointInspectorPanel';
+
+// 범주형 범례에 칸으로 나열할 최대 값 개수
+const MAX_CATEGORIES = 16;
+
+interface ColorLegendProps {
+  label: string;
+  colormap: ColormapName;
+  min: number;
+  max: number;
+}
+
+const rgb = (color: [number, number, number]) => `rgb(${color.join(', ')})`;
+
+// 뷰어 위에 겹쳐 그리는 컬러맵 범례
+const ColorLegend: React.FC<ColorLegendProps> = ({ label, colormap, min, max }) => {
+  const categories = [];
+  if (colormap === 'categorical' && max - min < MAX_CATEGORIES) {
+    for (let value = Math.ceil(min); value <= Math.floor(max); value++) categories.push(value);
+  }
+
+  return (
+    <Box
+      sx={{
+        position: 'absolute',
+        left: 28,
+        bottom: 28,
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        color: 'white',
+        px: 1.5,
+        py: 1,
+        borderRadius: 1,
+        minWidth: 200,
+        pointerEvents: 'none',
+        zIndex: 5,
+      }}
+    >
+      <Typography variant="caption" sx={{ fontWeight: 600, display: 'block', mb: 0.5 }}>
+        {label}
+      </Typography>
+      {colormap === 'categorical' ? (
+        categories.length > 0 ? (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.75 }}>
+            {categories.map(value => (
+              <Box key={value} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                <Box sx={{ width: 10, height: 10, backgroundColor: rgb(categoricalColor(value)) }} />
+                <Typography variant="caption">{value}</Typography>
+              </Box>
+            ))}
+          </Box>
+        ) : (
+          <Typography variant="caption">
+            값마다 다른 색 ({formatPointValue(min)} ~ {formatPointValue(max)})
+          </Typography>
+        )
+      ) : (
+        <>
+          <Box
+            sx={{
+              height: 12,
+              borderRadius: 0.5,
+              background: `linear-gradient(to right, ${Array.from({ length: 16 }, (_, i) =>
+                rgb(sampleColormap(colormap, i / 15))
+              ).join(', ')})`,
+            }}
+          />
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.25 }}>
+            <Typography variant="caption">{formatPointValue(min)}</Typography>
+            <Typography variant="caption">{formatPointValue((min + max) / 2)}</Typography>
+            <Typography variant="caption">{formatPointValue(max)}</Typography>
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default ColorLegend;
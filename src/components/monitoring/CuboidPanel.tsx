@@ -0,0 +1,264 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { Delete } from '@mui/icons-material';
+import { CUBOID_CLASSES, Cuboid, CuboidFields } from '@/services/pointcloud/cuboids';
+import { BoxGizmoMode } from './SelectionPanel';
+import { cuboidColor } from './cuboidObjects';
+
+export type CuboidFileFormat = 'kitti' | 'json';
+
+interface CuboidPanelProps {
+  // 라벨링 모드 (켜면 클릭은 상자 선택/추가)
+  active: boolean;
+  cuboids: Cuboid[];
+  selectedId: number | null;
+  // 새 상자의 클래스와 다음 클릭으로 상자를 놓을지
+  newLabel: string;
+  placing: boolean;
+  mode: BoxGizmoMode;
+  disabled: boolean;
+  onActiveChange: (active: boolean) => void;
+  onNewLabelChange: (label: string) => void;
+  onPlace: () => void;
+  onModeChange: (mode: BoxGizmoMode) => void;
+  onSelect: (id: number) => void;
+  onChange: (id: number, changes: Partial<CuboidFields>) => void;
+  onDelete: (id: number) => void;
+  onSave: (format: CuboidFileFormat) => void;
+  onLoad: (files: File[]) => void;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const formatNumber = (value: number) => String(Number(value.toFixed(3)));
+
+// 입력 중인 문자열은 그대로 두고 숫자로 읽을 수 있을 때만 반영 (기즈모로 값이 바뀌면 다시 맞춤)
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, step, onChange }) => {
+  const [text, setText] = useState(formatNumber(value));
+  useEffect(() => {
+    if (Number(text) !== value) setText(formatNumber(value));
+  }, [value]);
+
+  return (
+    <TextField
+      label={label}
+      size="small"
+      type="number"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = Number(e.target.value);
+        if (e.target.value.trim() !== '' && Number.isFinite(parsed)) onChange(parsed);
+      }}
+      slotProps={{ htmlInput: { step } }}
+      sx={{ flex: 1 }}
+    />
+  );
+};
+
+const ClassField: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <Autocomplete
+    freeSolo
+    size="small"
+    options={CUBOID_CLASSES}
+    inputValue={value}
+    onInputChange={(_, input) => onChange(input)}
+    renderInput={(params) => <TextField {...params} label={label} />}
+    sx={{ flex: 1 }}
+  />
+);
+
+const CuboidPanel: React.FC<CuboidPanelProps> = ({
+  active,
+  cuboids,
+  selectedId,
+  newLabel,
+  placing,
+  mode,
+  disabled,
+  onActiveChange,
+  onNewLabelChange,
+  onPlace,
+  onModeChange,
+  onSelect,
+  onChange,
+  onDelete,
+  onSave,
+  onLoad,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = cuboids.find(cuboid => cuboid.id === selectedId) ?? null;
+  const multipleClouds = new Set(cuboids.map(cuboid => cuboid.cloud)).size > 1;
+
+  const vectorFields = (key: 'center' | 'size', labels: string[], step: number) => (
+    <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+      {labels.map((label, axis) => (
+        <NumberField
+          key={label}
+          label={label}
+          value={selected![key][axis]}
+          step={step}
+          onChange={(value) => {
+            const vector = [...selected![key]] as [number, number, number];
+            vector[axis] = key === 'size' ? Math.max(0, value) : value;
+            onChange(selected!.id, { [key]: vector });
+          }}
+        />
+      ))}
+    </Box>
+  );
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          3D 상자 라벨
+        </Typography>
+        <FormControlLabel
+          control={<Switch size="small" checked={active} disabled={disabled} onChange={(e) => onActiveChange(e.target.checked)} />}
+          label={<Typography variant="body2">라벨링 모드</Typography>}
+          sx={{ mb: 1 }}
+        />
+
+        {active && (
+          <>
+            <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+              <ClassField label="새 상자 클래스" value={newLabel} onChange={onNewLabelChange} />
+              <Button variant={placing ? 'contained' : 'outlined'} size="small" onClick={onPlace} disabled={!newLabel.trim()}>
+                상자 추가
+              </Button>
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+              {placing
+                ? '상자를 놓을 점을 클릭하세요 (Esc: 취소)'
+                : '상자 안의 점을 클릭하면 그 상자를 고릅니다 (Delete: 고른 상자 삭제)'}
+            </Typography>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              fullWidth
+              value={mode}
+              onChange={(_, value: BoxGizmoMode | null) => value && onModeChange(value)}
+              sx={{ mb: 1.5 }}
+            >
+              <ToggleButton value="translate">이동</ToggleButton>
+              <ToggleButton value="rotate">회전</ToggleButton>
+              <ToggleButton value="scale">크기</ToggleButton>
+            </ToggleButtonGroup>
+          </>
+        )}
+
+        {selected && (
+          <Box sx={{ mb: 1 }}>
+            <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+              <ClassField label="클래스" value={selected.label} onChange={(label) => onChange(selected.id, { label })} />
+              <TextField
+                label="트랙 ID"
+                size="small"
+                type="number"
+                value={selected.trackId ?? ''}
+                onChange={(e) => {
+                  const trackId = Number(e.target.value);
+                  onChange(selected.id, { trackId: e.target.value.trim() !== '' && Number.isInteger(trackId) ? trackId : null });
+                }}
+                slotProps={{ htmlInput: { min: 0, step: 1 } }}
+                sx={{ width: 100 }}
+              />
+            </Box>
+            {vectorFields('center', ['x', 'y', 'z'], 0.05)}
+            {vectorFields('size', ['길이', '폭', '높이'], 0.05)}
+            <NumberField
+              label="방향 (°)"
+              value={(selected.yaw * 180) / Math.PI}
+              step={1}
+              onChange={(degrees) => onChange(selected.id, { yaw: (degrees * Math.PI) / 180 })}
+            />
+          </Box>
+        )}
+
+        <List dense disablePadding sx={{ maxHeight: 240, overflowY: 'auto' }}>
+          {cuboids.map(cuboid => (
+            <ListItemButton
+              key={cuboid.id}
+              selected={cuboid.id === selectedId}
+              onClick={() => onSelect(cuboid.id)}
+              sx={{ gap: 1, px: 1 }}
+            >
+              <Box
+                sx={{
+                  width: 14,
+                  height: 14,
+                  borderRadius: 0.5,
+                  flexShrink: 0,
+                  bgcolor: `rgb(${cuboidColor(cuboid.label).join(',')})`,
+                }}
+              />
+              <ListItemText
+                primary={`${cuboid.label || '(클래스 없음)'}${cuboid.trackId !== null ? ` #${cuboid.trackId}` : ''}`}
+                secondary={`${multipleClouds ? `${cuboid.cloud} · ` : ''}${cuboid.size.map(value => value.toFixed(2)).join(' × ')} m`}
+              />
+              <IconButton
+                size="small"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(cuboid.id);
+                }}
+              >
+                <Delete fontSize="small" />
+              </IconButton>
+            </ListItemButton>
+          ))}
+        </List>
+
+        <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+          <Button variant="outlined" size="small" fullWidth disabled={cuboids.length === 0} onClick={() => onSave('kitti')}>
+            KITTI 저장
+          </Button>
+          <Button variant="outlined" size="small" fullWidth disabled={cuboids.length === 0} onClick={() => onSave('json')}>
+            JSON 저장
+          </Button>
+          <Button size="small" fullWidth disabled={disabled} onClick={() => fileInputRef.current?.click()}>
+            불러오기
+          </Button>
+        </Box>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.json"
+          multiple
+          hidden
+          onChange={(e) => {
+            onLoad(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+          클라우드마다 라벨 파일 하나 (KITTI label_2 .txt 또는 JSON)
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CuboidPanel;
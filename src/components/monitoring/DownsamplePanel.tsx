@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { DEFAULT_VOXEL_OPTIONS, VoxelMode, VoxelOptions } from '@/services/pointcloud/voxel';
+
+// 다운샘플링 결과 미리보기 (적용 전까지 원래 레이어는 숨겨 둠)
+export interface DownsamplePreview {
+  before: number;
+  after: number;
+}
+
+interface DownsamplePanelProps {
+  preview: DownsamplePreview | null;
+  disabled: boolean;
+  onRun: (options: VoxelOptions) => void;
+  // replace: 표시 중인 클라우드를 결과로 교체, layer: 결과를 새 레이어로 추가
+  onApply: (target: 'replace' | 'layer') => void;
+  onDiscard: () => void;
+}
+
+const DownsamplePanel: React.FC<DownsamplePanelProps> = ({ preview, disabled, onRun, onApply, onDiscard }) => {
+  const [leafSize, setLeafSize] = useState(String(DEFAULT_VOXEL_OPTIONS.leafSize));
+  const [mode, setMode] = useState<VoxelMode>(DEFAULT_VOXEL_OPTIONS.mode);
+  const leaf = Number(leafSize);
+  const valid = leafSize.trim() !== '' && leaf > 0;
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          복셀 다운샘플링
+        </Typography>
+        <TextField
+          label="복셀 크기 (m)"
+          size="small"
+          type="number"
+          fullWidth
+          value={leafSize}
+          error={!valid}
+          onChange={(e) => setLeafSize(e.target.value)}
+          slotProps={{ htmlInput: { min: 0, step: 0.01 } }}
+          sx={{ mb: 1 }}
+        />
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          fullWidth
+          value={mode}
+          onChange={(_, value: VoxelMode | null) => value && setMode(value)}
+          sx={{ mb: 1 }}
+        >
+          <ToggleButton value="centroid">무게중심</ToggleButton>
+          <ToggleButton value="nearest">중심에 가까운 점</ToggleButton>
+        </ToggleButtonGroup>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+          색상과 속성은 복셀 안 점들의 평균, 분류와 label은 가장 많은 값을 씁니다
+        </Typography>
+
+        {preview ? (
+          <>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              {preview.before.toLocaleString()} → {preview.after.toLocaleString()}개
+              ({((preview.after / Math.max(preview.before, 1)) * 100).toFixed(1)}%)
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button size="small" variant="contained" onClick={() => onApply('replace')}>
+                교체
+              </Button>
+              <Button size="small" variant="outlined" onClick={() => onApply('layer')}>
+                새 레이어로
+              </Button>
+              <Button size="small" onClick={onDiscard}>
+                취소
+              </Button>
+            </Box>
+          </>
+        ) : (
+          <Button
+            variant="outlined"
+            size="small"
+            fullWidth
+            disabled={disabled || !valid}
+            onClick={() => onRun({ leafSize: leaf, mode })}
+          >
+            미리보기
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DownsamplePanel;
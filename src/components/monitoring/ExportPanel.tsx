@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Card,
+  CardContent,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Save } from '@mui/icons-material';
+import { EXPORT_FORMATS, ExportFormat } from '@/services/pointcloud/export';
+
+interface ExportPanelProps {
+  disabled: boolean;
+  onExport: (format: ExportFormat) => void;
+}
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ disabled, onExport }) => {
+  const [format, setFormat] = useState<ExportFormat>('pcd_binary');
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          내보내기
+        </Typography>
+        <TextField
+          select
+          label="형식"
+          size="small"
+          fullWidth
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          sx={{ mb: 2 }}
+        >
+          {EXPORT_FORMATS.map(option => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button
+          variant="outlined"
+          startIcon={<Save />}
+          fullWidth
+          disabled={disabled}
+          onClick={() => onExport(format)}
+        >
+          현재 클라우드 저장
+        </Button>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          화면에 표시된 점만 저장되며 색상과 추가 필드가 함께 저장됩니다
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  FormControlLabel,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { DEFAULT_GROUND_OPTIONS, GroundOptions, Plane, formatPlane, planeSlope } from '@/services/pointcloud/ground';
+
+// 레이어별 지면 분리 결과 (평면은 원래 좌표 기준)
+export interface GroundResult {
+  layerName: string;
+  plane: Plane;
+  groundCount: number;
+  nonGroundCount: number;
+}
+
+interface GroundPanelProps {
+  results: GroundResult[];
+  disabled: boolean;
+  onRun: (options: GroundOptions) => void;
+}
+
+const GroundPanel: React.FC<GroundPanelProps> = ({ results, disabled, onRun }) => {
+  const [threshold, setThreshold] = useState(String(DEFAULT_GROUND_OPTIONS.distanceThreshold));
+  const [iterations, setIterations] = useState(String(DEFAULT_GROUND_OPTIONS.maxIterations));
+  const [limitSlope, setLimitSlope] = useState(DEFAULT_GROUND_OPTIONS.maxSlope !== null);
+  const [slope, setSlope] = useState(String(DEFAULT_GROUND_OPTIONS.maxSlope ?? 15));
+
+  const distanceThreshold = Number(threshold);
+  const maxIterations = Number(iterations);
+  const maxSlope = Number(slope);
+  const valid = threshold.trim() !== '' && distanceThreshold > 0
+    && Number.isInteger(maxIterations) && maxIterations > 0
+    && (!limitSlope || (slope.trim() !== '' && maxSlope >= 0 && maxSlope <= 90));
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          지면 분리
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          <TextField
+            label="거리 임계값 (m)"
+            size="small"
+            type="number"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            slotProps={{ htmlInput: { min: 0, step: 0.05 } }}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            label="최대 반복"
+            size="small"
+            type="number"
+            value={iterations}
+            onChange={(e) => setIterations(e.target.value)}
+            slotProps={{ htmlInput: { min: 1, step: 50 } }}
+            sx={{ flex: 1 }}
+          />
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <FormControlLabel
+            control={<Switch size="small" checked={limitSlope} onChange={(e) => setLimitSlope(e.target.checked)} />}
+            label={<Typography variant="body2">기울기 제한</Typography>}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            label="최대 기울기 (°)"
+            size="small"
+            type="number"
+            value={slope}
+            disabled={!limitSlope}
+            onChange={(e) => setSlope(e.target.value)}
+            slotProps={{ htmlInput: { min: 0, max: 90, step: 1 } }}
+            sx={{ flex: 1 }}
+          />
+        </Box>
+        <Button
+          variant="outlined"
+          size="small"
+          fullWidth
+          disabled={disabled || !valid}
+          onClick={() => onRun({ distanceThreshold, maxIterations, maxSlope: limitSlope ? maxSlope : null })}
+        >
+          RANSAC 지면 분리
+        </Button>
+
+        {results.map(result => (
+          <Box key={result.layerName} sx={{ mt: 1.5 }}>
+            <Typography variant="body2" sx={{ fontWeight: 600 }} noWrap>
+              {result.layerName}
+            </Typography>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+              {formatPlane(result.plane)}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              기울기 {planeSlope(result.plane).toFixed(1)}° · 지면 {result.groundCount.toLocaleString()}개 · 비지면{' '}
+              {result.nonGroundCount.toLocaleString()}개
+            </Typography>
+          </Box>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GroundPanel;
@@ -0,0 +1,187 @@
+import React, { useRef, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  MenuItem,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import { Histogram, RangeFilter } from '@/services/pointcloud/filter';
+import { formatPointValue } from './PointInspectorPanel';
+import { POSITION_FIELD_LABELS, scalarFieldLabel } from './ScalarColorPanel';
+
+const CHART_HEIGHT = 120;
+
+interface HistogramPanelProps {
+  // 현재 레이어에 있는 점 속성 이름
+  attributes: string[];
+  // 히스토그램을 볼 필드 ('' 이면 선택 안 함)
+  field: string;
+  // field가 있는 보이는 레이어가 없으면 null
+  histogram: Histogram | null;
+  filters: RangeFilter[];
+  onFieldChange: (field: string) => void;
+  onRefresh: () => void;
+  onFiltersChange: (filters: RangeFilter[]) => void;
+}
+
+// 필드 히스토그램 위를 드래그해 값 범위 필터를 만듦 (필드마다 하나, 모두 AND)
+const HistogramPanel: React.FC<HistogramPanelProps> = ({
+  attributes,
+  field,
+  histogram,
+  filters,
+  onFieldChange,
+  onRefresh,
+  onFiltersChange,
+}) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  // 드래그를 시작한 값
+  const [brushStart, setBrushStart] = useState<number | null>(null);
+  const fields = [...Object.keys(POSITION_FIELD_LABELS), ...attributes];
+  const active = filters.find(filter => filter.field === field);
+
+  const valueAt = (clientX: number) => {
+    const rect = chartRef.current!.getBoundingClientRect();
+    const t = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return histogram!.min + t * (histogram!.max - histogram!.min);
+  };
+
+  const setFilter = (filter: RangeFilter | null) => {
+    const others = filters.filter(f => f.field !== field);
+    onFiltersChange(filter ? [...others, filter] : others);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!histogram) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setBrushStart(valueAt(event.clientX));
+  };
+
+  // 드래그하는 동안 바로 필터를 적용
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (brushStart === null) return;
+    const value = valueAt(event.clientX);
+    setFilter({ field, min: Math.min(brushStart, value), max: Math.max(brushStart, value) });
+  };
+
+  // 드래그 없이 클릭만 하면 이 필드의 필터를 지움
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (brushStart === null) return;
+    const value = valueAt(event.clientX);
+    const rect = chartRef.current!.getBoundingClientRect();
+    const moved = Math.abs(value - brushStart) / (histogram!.max - histogram!.min || 1) * rect.width;
+    if (moved < 3) setFilter(null);
+    setBrushStart(null);
+  };
+
+  const peak = histogram ? Math.max(1, ...histogram.counts) : 1;
+  const bins = histogram?.counts.length ?? 0;
+  const span = histogram ? histogram.max - histogram.min || 1 : 1;
+  const toX = (value: number) => ((value - histogram!.min) / span) * 100;
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            히스토그램 필터
+          </Typography>
+          <Tooltip title="현재 점으로 다시 계산">
+            <span>
+              <IconButton size="small" onClick={onRefresh} disabled={!field}>
+                <Refresh fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+        <TextField
+          select
+          label="필드"
+          size="small"
+          fullWidth
+          value={field}
+          onChange={(e) => onFieldChange(e.target.value)}
+          sx={{ mb: 2 }}
+        >
+          <MenuItem value="">선택 안 함</MenuItem>
+          {fields.map(name => (
+            <MenuItem key={name} value={name}>
+              {scalarFieldLabel(name)}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {histogram && (
+          <>
+            <Box
+              ref={chartRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              sx={{ height: CHART_HEIGHT, cursor: 'crosshair', touchAction: 'none', userSelect: 'none' }}
+            >
+              <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="none">
+                {Array.from(histogram.counts, (count, bin) => {
+                  const from = histogram.min + (bin / bins) * span;
+                  const to = histogram.min + ((bin + 1) / bins) * span;
+                  const inside = !active || (to >= active.min && from <= active.max);
+                  const height = (count / peak) * 100;
+                  return (
+                    <rect
+                      key={bin}
+                      x={(bin / bins) * 100}
+                      y={100 - height}
+                      width={100 / bins}
+                      height={height}
+                      fill={inside ? '#1976d2' : '#bdbdbd'}
+                    />
+                  );
+                })}
+                {active && (
+                  <rect
+                    x={toX(active.min)}
+                    y={0}
+                    width={Math.max(toX(active.max) - toX(active.min), 0.2)}
+                    height={100}
+                    fill="rgba(25, 118, 210, 0.12)"
+                    stroke="#1976d2"
+                    strokeWidth={0.3}
+                  />
+                )}
+              </svg>
+            </Box>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Typography variant="caption" color="text.secondary">{formatPointValue(histogram.min)}</Typography>
+              <Typography variant="caption" color="text.secondary">{formatPointValue(histogram.max)}</Typography>
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+              드래그해서 범위 지정, 클릭하면 이 필드 필터 해제
+            </Typography>
+          </>
+        )}
+
+        {filters.length > 0 && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1.5 }}>
+            {filters.map(filter => (
+              <Chip
+                key={filter.field}
+                size="small"
+                label={`${scalarFieldLabel(filter.field)}: ${formatPointValue(filter.min)} ~ ${formatPointValue(filter.max)}`}
+                onClick={() => onFieldChange(filter.field)}
+                onDelete={() => onFiltersChange(filters.filter(f => f.field !== filter.field))}
+              />
+            ))}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HistogramPanel;
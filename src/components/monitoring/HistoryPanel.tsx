@@ -0,0 +1,68 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  List,
+  ListItemButton,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { Redo, Undo } from '@mui/icons-material';
+import { HistoryItem } from '@/services/pointcloud/history';
+
+interface HistoryPanelProps {
+  items: HistoryItem[];
+  // 적용된 편집 개수 (뒤쪽은 취소해 둔 편집)
+  position: number;
+  onUndo: () => void;
+  onRedo: () => void;
+  // 편집 position개가 적용된 상태로 이동
+  onJump: (position: number) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ items, position, onUndo, onRedo, onJump }) => {
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          편집 기록
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          <Button size="small" variant="outlined" fullWidth startIcon={<Undo />} onClick={onUndo} disabled={position === 0}>
+            실행 취소
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            fullWidth
+            startIcon={<Redo />}
+            onClick={onRedo}
+            disabled={position === items.length}
+          >
+            다시 실행
+          </Button>
+        </Box>
+        <List dense disablePadding sx={{ maxHeight: 200, overflowY: 'auto' }}>
+          <ListItemButton selected={position === 0} onClick={() => onJump(0)}>
+            <ListItemText primary="불러온 상태" />
+          </ListItemButton>
+          {items.map((item, index) => (
+            <ListItemButton key={item.id} selected={position === index + 1} onClick={() => onJump(index + 1)}>
+              <ListItemText
+                primary={item.label}
+                slotProps={{ primary: { color: index < position ? 'text.primary' : 'text.disabled' } }}
+              />
+            </ListItemButton>
+          ))}
+        </List>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          Ctrl+Z: 실행 취소, Ctrl+Shift+Z: 다시 실행
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Checkbox,
+  IconButton,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { FormatColorReset } from '@mui/icons-material';
+
+export interface LayerInfo {
+  id: number;
+  name: string;
+  visible: boolean;
+  pointCount: number;
+  // 레이어 단색; null이면 파일 색상 (없으면 전체 포인트 색상)
+  color: string | null;
+}
+
+interface LayerPanelProps {
+  layers: LayerInfo[];
+  onToggle: (id: number, visible: boolean) => void;
+  onColorChange: (id: number, color: string | null) => void;
+}
+
+const LayerPanel: React.FC<LayerPanelProps> = ({ layers, onToggle, onColorChange }) => {
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          레이어
+        </Typography>
+        <Box sx={{ maxHeight: 240, overflowY: 'auto' }}>
+          {layers.map(layer => (
+            <Box key={layer.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Checkbox
+                size="small"
+                checked={layer.visible}
+                onChange={(e) => onToggle(layer.id, e.target.checked)}
+              />
+              <Typography variant="body2" sx={{ flex: 1 }} noWrap>
+                {layer.name}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {layer.pointCount.toLocaleString()}
+              </Typography>
+              <Tooltip title="레이어 색상">
+                <input
+                  type="color"
+                  value={layer.color ?? '#ffffff'}
+                  onChange={(e) => onColorChange(layer.id, e.target.value)}
+                  style={{ width: 24, height: 24, padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
+                />
+              </Tooltip>
+              <Tooltip title="원래 색상">
+                <span>
+                  <IconButton size="small" disabled={!layer.color} onClick={() => onColorChange(layer.id, null)}>
+                    <FormatColorReset fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
+          ))}
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LayerPanel;
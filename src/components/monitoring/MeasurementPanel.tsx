@@ -0,0 +1,124 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  IconButton,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { Delete } from '@mui/icons-material';
+import {
+  MEASUREMENT_KINDS,
+  Measurement,
+  MeasurementKind,
+  MeasurementPoint,
+  formatMeasurement,
+  measurementKind,
+} from '@/services/pointcloud/measure';
+
+interface MeasurementPanelProps {
+  // 선택한 측정 도구 (null이면 클릭은 인스펙터 고정)
+  tool: MeasurementKind | null;
+  // 만드는 중인 측정의 점
+  draft: MeasurementPoint[];
+  measurements: Measurement[];
+  onToolChange: (tool: MeasurementKind | null) => void;
+  onFinish: () => void;
+  onCancel: () => void;
+  onRename: (id: number, name: string) => void;
+  onDelete: (id: number) => void;
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
+  tool,
+  draft,
+  measurements,
+  onToolChange,
+  onFinish,
+  onCancel,
+  onRename,
+  onDelete,
+  onExport,
+}) => {
+  const info = tool && measurementKind(tool);
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          측정
+        </Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          fullWidth
+          value={tool}
+          onChange={(_, value: MeasurementKind | null) => onToolChange(value)}
+          sx={{ mb: 1 }}
+        >
+          {MEASUREMENT_KINDS.map(kind => (
+            <ToggleButton key={kind.value} value={kind.value}>
+              {kind.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+
+        {info && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+              {draft.length === 0
+                ? '포인트를 클릭해 측정을 시작하세요'
+                : `${draft.length}개 선택: ${formatMeasurement({ kind: info.value, points: draft })}`}
+            </Typography>
+            {info.maxPoints === Infinity && (
+              <Button size="small" onClick={onFinish} disabled={draft.length < info.minPoints}>
+                완료
+              </Button>
+            )}
+            <Button size="small" onClick={onCancel} disabled={draft.length === 0}>
+              취소
+            </Button>
+          </Box>
+        )}
+
+        <Box sx={{ maxHeight: 240, overflowY: 'auto' }}>
+          {measurements.map(measurement => (
+            <Box key={measurement.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.5 }}>
+              <TextField
+                variant="standard"
+                size="small"
+                value={measurement.name}
+                onChange={(e) => onRename(measurement.id, e.target.value)}
+                sx={{ flex: 1 }}
+              />
+              <Typography variant="body2" sx={{ whiteSpace: 'nowrap' }}>
+                {formatMeasurement(measurement)}
+              </Typography>
+              <IconButton size="small" onClick={() => onDelete(measurement.id)}>
+                <Delete fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+        </Box>
+
+        {measurements.length > 0 && (
+          <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+            <Button variant="outlined" size="small" fullWidth onClick={() => onExport('csv')}>
+              CSV 저장
+            </Button>
+            <Button variant="outlined" size="small" fullWidth onClick={() => onExport('json')}>
+              JSON 저장
+            </Button>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MeasurementPanel;
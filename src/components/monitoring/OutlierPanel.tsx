@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import {
+  DEFAULT_RADIUS_OUTLIER_OPTIONS,
+  DEFAULT_STATISTICAL_OUTLIER_OPTIONS,
+  OutlierOptions,
+} from '@/services/pointcloud/outliers';
+
+// 이상점 미리보기 (지울 점은 뷰어에서 빨간색)
+export interface OutlierPreview {
+  method: OutlierOptions['method'];
+  removed: number;
+  total: number;
+}
+
+export const OUTLIER_METHOD_LABELS: Record<OutlierOptions['method'], string> = {
+  statistical: '통계적',
+  radius: '반경',
+};
+
+interface OutlierPanelProps {
+  preview: OutlierPreview | null;
+  disabled: boolean;
+  onRun: (options: OutlierOptions) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const OutlierPanel: React.FC<OutlierPanelProps> = ({ preview, disabled, onRun, onApply, onDiscard }) => {
+  const [method, setMethod] = useState<OutlierOptions['method']>('statistical');
+  // 입력 중인 값 (숫자로 바꿀 수 없으면 실행 불가)
+  const [values, setValues] = useState({
+    k: String(DEFAULT_STATISTICAL_OUTLIER_OPTIONS.k),
+    stdRatio: String(DEFAULT_STATISTICAL_OUTLIER_OPTIONS.stdRatio),
+    radius: String(DEFAULT_RADIUS_OUTLIER_OPTIONS.radius),
+    minNeighbors: String(DEFAULT_RADIUS_OUTLIER_OPTIONS.minNeighbors),
+  });
+
+  const number = (key: keyof typeof values) => (values[key].trim() === '' ? NaN : Number(values[key]));
+  const options: OutlierOptions | null = method === 'statistical'
+    ? Number.isInteger(number('k')) && number('k') > 0 && number('stdRatio') >= 0
+      ? { method, k: number('k'), stdRatio: number('stdRatio') }
+      : null
+    : number('radius') > 0 && Number.isInteger(number('minNeighbors')) && number('minNeighbors') >= 0
+      ? { method, radius: number('radius'), minNeighbors: number('minNeighbors') }
+      : null;
+
+  const field = (key: keyof typeof values, label: string, step: number) => (
+    <TextField
+      label={label}
+      size="small"
+      type="number"
+      value={values[key]}
+      onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+      slotProps={{ htmlInput: { min: 0, step } }}
+      sx={{ flex: 1 }}
+    />
+  );
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          이상점 제거
+        </Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          fullWidth
+          value={method}
+          onChange={(_, value: OutlierOptions['method'] | null) => value && setMethod(value)}
+          sx={{ mb: 1.5 }}
+        >
+          {Object.entries(OUTLIER_METHOD_LABELS).map(([value, label]) => (
+            <ToggleButton key={value} value={value}>{label}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          {method === 'statistical' ? (
+            <>
+              {field('k', '이웃 수 (k)', 1)}
+              {field('stdRatio', '표준편차 배수', 0.1)}
+            </>
+          ) : (
+            <>
+              {field('radius', '반경 (m)', 0.05)}
+              {field('minNeighbors', '최소 이웃 수', 1)}
+            </>
+          )}
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+          {method === 'statistical'
+            ? '이웃까지 평균 거리가 전체 평균 + 배수 × 표준편차보다 먼 점을 지웁니다'
+            : '반경 안의 이웃이 최소 이웃 수보다 적은 점을 지웁니다'}
+        </Typography>
+
+        {preview ? (
+          <>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              지울 점: {preview.removed.toLocaleString()} / {preview.total.toLocaleString()}개
+              ({((preview.removed / Math.max(preview.total, 1)) * 100).toFixed(1)}%)
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button size="small" variant="contained" color="error" onClick={onApply} disabled={preview.removed === 0}>
+                적용
+              </Button>
+              <Button size="small" onClick={onDiscard}>
+                취소
+              </Button>
+            </Box>
+          </>
+        ) : (
+          <Button
+            variant="outlined"
+            size="small"
+            fullWidth
+            disabled={disabled || !options}
+            onClick={() => options && onRun(options)}
+          >
+            미리보기
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OutlierPanel;
@@ -0,0 +1,111 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Close } from '@mui/icons-material';
+import { PointRecord } from '@/services/pointcloud';
+
+export interface PinnedPoint {
+  id: number;
+  layerName: string;
+  // 메모리에 있는 클라우드는 점 인덱스, Potree는 '노드:인덱스'
+  pointId: string;
+  point: PointRecord;
+}
+
+interface PointInspectorPanelProps {
+  points: PinnedPoint[];
+  onRemove: (id: number) => void;
+  onClear: () => void;
+}
+
+// 정수는 그대로, 실수는 유효숫자 6자리까지
+export const formatPointValue = (value: number) => {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(6)));
+};
+
+// 고정한 점들을 열로 나란히 놓고 필드별로 비교
+const PointInspectorPanel: React.FC<PointInspectorPanelProps> = ({ points, onRemove, onClear }) => {
+  const rows: { name: string; value: (point: PointRecord) => string }[] = [
+    { name: 'X', value: point => point.x.toFixed(3) },
+    { name: 'Y', value: point => point.y.toFixed(3) },
+    { name: 'Z', value: point => point.z.toFixed(3) },
+  ];
+  if (points.some(({ point }) => point.color)) {
+    rows.push({ name: 'RGB', value: point => point.color?.join(', ') ?? '-' });
+  }
+  if (points.some(({ point }) => point.normal)) {
+    rows.push({ name: 'Normal', value: point => point.normal?.map(v => v.toFixed(3)).join(', ') ?? '-' });
+  }
+  const attributeNames = Array.from(new Set(points.flatMap(({ point }) => Object.keys(point.attributes))));
+  for (const name of attributeNames) {
+    rows.push({
+      name,
+      value: point => (point.attributes[name] === undefined ? '-' : formatPointValue(point.attributes[name])),
+    });
+  }
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            포인트 인스펙터
+          </Typography>
+          <Button size="small" onClick={onClear} disabled={points.length === 0}>
+            모두 지우기
+          </Button>
+        </Box>
+        {points.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            포인트를 클릭하면 여기에 고정됩니다
+          </Typography>
+        ) : (
+          <Box sx={{ overflowX: 'auto', maxHeight: 320 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>필드</TableCell>
+                  {points.map(pinned => (
+                    <TableCell key={pinned.id} align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Box component="span" title={pinned.layerName}>
+                        #{pinned.pointId}
+                      </Box>
+                      <IconButton size="small" onClick={() => onRemove(pinned.id)}>
+                        <Close fontSize="inherit" />
+                      </IconButton>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.name}>
+                    <TableCell sx={{ fontWeight: 600 }}>{row.name}</TableCell>
+                    {points.map(pinned => (
+                      <TableCell key={pinned.id} align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        {row.value(pinned.point)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PointInspectorPanel;
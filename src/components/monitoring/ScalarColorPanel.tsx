@@ -0,0 +1,133 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { COLORMAPS, ColormapName } from '@/services/pointcloud/colormap';
+
+export interface ScalarColorSettings {
+  // null이면 파일 색상 (없으면 단색)
+  field: string | null;
+  colormap: ColormapName;
+  // 보이는 레이어의 값 범위를 그대로 쓸지 여부
+  auto: boolean;
+  min: number;
+  max: number;
+}
+
+// 위치에서 계산하는 필드의 표시 이름
+export const POSITION_FIELD_LABELS: Record<string, string> = {
+  x: 'X',
+  y: 'Y',
+  z: 'Z (높이)',
+  distance: '센서 거리',
+};
+
+export const scalarFieldLabel = (field: string) => POSITION_FIELD_LABELS[field] ?? field;
+
+interface ScalarColorPanelProps {
+  settings: ScalarColorSettings;
+  // 현재 레이어에 있는 점 속성 이름
+  attributes: string[];
+  onChange: (settings: ScalarColorSettings) => void;
+}
+
+const ScalarColorPanel: React.FC<ScalarColorPanelProps> = ({ settings, attributes, onChange }) => {
+  const fields = [...Object.keys(POSITION_FIELD_LABELS), ...attributes];
+  const categorical = settings.colormap === 'categorical';
+
+  const updateBound = (key: 'min' | 'max', text: string) => {
+    const value = Number(text);
+    if (text.trim() !== '' && Number.isFinite(value)) {
+      onChange({ ...settings, auto: false, [key]: value });
+    }
+  };
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          색상 모드
+        </Typography>
+        <TextField
+          select
+          label="필드"
+          size="small"
+          fullWidth
+          value={settings.field ?? ''}
+          onChange={(e) => onChange({ ...settings, field: e.target.value || null, auto: true })}
+          sx={{ mb: 2 }}
+        >
+          <MenuItem value="">원본 색상</MenuItem>
+          {fields.map(field => (
+            <MenuItem key={field} value={field}>
+              {scalarFieldLabel(field)}
+            </MenuItem>
+          ))}
+        </TextField>
+        {settings.field && (
+          <>
+            <TextField
+              select
+              label="컬러맵"
+              size="small"
+              fullWidth
+              value={settings.colormap}
+              onChange={(e) => onChange({ ...settings, colormap: e.target.value as ColormapName })}
+              sx={{ mb: 1 }}
+            >
+              {COLORMAPS.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            {!categorical && (
+              <>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      size="small"
+                      checked={settings.auto}
+                      onChange={(e) => onChange({ ...settings, auto: e.target.checked })}
+                    />
+                  }
+                  label={<Typography variant="body2">자동 범위</Typography>}
+                />
+                <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                  {/* 값이 바뀌면 입력란을 새로 만들어 자동 범위 결과를 보여 줌 */}
+                  <TextField
+                    key={`min-${settings.min}`}
+                    label="최소"
+                    size="small"
+                    type="number"
+                    defaultValue={Number(settings.min.toPrecision(6))}
+                    disabled={settings.auto}
+                    onBlur={(e) => updateBound('min', e.target.value)}
+                  />
+                  <TextField
+                    key={`max-${settings.max}`}
+                    label="최대"
+                    size="small"
+                    type="number"
+                    defaultValue={Number(settings.max.toPrecision(6))}
+                    disabled={settings.auto}
+                    onBlur={(e) => updateBound('max', e.target.value)}
+                  />
+                </Box>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScalarColorPanel;
@@ -0,0 +1,136 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  FormControlLabel,
+  Switch,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+
+export type SelectionTool = 'box' | 'lasso';
+export type BoxGizmoMode = 'translate' | 'rotate' | 'scale';
+
+interface SelectionPanelProps {
+  tool: SelectionTool | null;
+  boxMode: BoxGizmoMode;
+  // 상자 회전 허용 (끄면 축 정렬 상자)
+  oriented: boolean;
+  // 새 선택을 기존 선택에 더할지
+  additive: boolean;
+  selectionCount: number;
+  // 메모리에 있는 레이어가 없으면 (Potree만 있으면) 선택 불가
+  disabled: boolean;
+  onToolChange: (tool: SelectionTool | null) => void;
+  onBoxModeChange: (mode: BoxGizmoMode) => void;
+  onOrientedChange: (oriented: boolean) => void;
+  onAdditiveChange: (additive: boolean) => void;
+  onSelectBox: () => void;
+  onCrop: () => void;
+  onDelete: () => void;
+  onInvert: () => void;
+  onClear: () => void;
+}
+
+const SelectionPanel: React.FC<SelectionPanelProps> = ({
+  tool,
+  boxMode,
+  oriented,
+  additive,
+  selectionCount,
+  disabled,
+  onToolChange,
+  onBoxModeChange,
+  onOrientedChange,
+  onAdditiveChange,
+  onSelectBox,
+  onCrop,
+  onDelete,
+  onInvert,
+  onClear,
+}) => {
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          선택
+        </Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          fullWidth
+          disabled={disabled}
+          value={tool}
+          onChange={(_, value: SelectionTool | null) => onToolChange(value)}
+          sx={{ mb: 1 }}
+        >
+          <ToggleButton value="box">상자</ToggleButton>
+          <ToggleButton value="lasso">올가미</ToggleButton>
+        </ToggleButtonGroup>
+
+        {tool === 'box' && (
+          <>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              fullWidth
+              value={boxMode}
+              onChange={(_, value: BoxGizmoMode | null) => value && onBoxModeChange(value)}
+              sx={{ mb: 1 }}
+            >
+              <ToggleButton value="translate">이동</ToggleButton>
+              <ToggleButton value="rotate" disabled={!oriented}>회전</ToggleButton>
+              <ToggleButton value="scale">크기</ToggleButton>
+            </ToggleButtonGroup>
+            <FormControlLabel
+              control={<Switch size="small" checked={oriented} onChange={(e) => onOrientedChange(e.target.checked)} />}
+              label={<Typography variant="body2">회전 상자</Typography>}
+            />
+            <Button variant="outlined" size="small" fullWidth onClick={onSelectBox} sx={{ my: 1 }}>
+              상자 안 점 선택
+            </Button>
+          </>
+        )}
+        {tool === 'lasso' && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            뷰어에서 드래그해 선택할 영역을 그리세요
+          </Typography>
+        )}
+        {tool && (
+          <FormControlLabel
+            control={<Switch size="small" checked={additive} onChange={(e) => onAdditiveChange(e.target.checked)} />}
+            label={<Typography variant="body2">기존 선택에 추가</Typography>}
+          />
+        )}
+
+        <Typography variant="body2" sx={{ my: 1 }}>
+          선택한 점: {selectionCount.toLocaleString()}개
+        </Typography>
+        <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 1 }}>
+          <Button size="small" variant="outlined" onClick={onCrop} disabled={selectionCount === 0}>
+            선택만 남기기
+          </Button>
+          <Button size="small" variant="outlined" color="error" onClick={onDelete} disabled={selectionCount === 0}>
+            삭제
+          </Button>
+          <Button size="small" variant="outlined" onClick={onInvert} disabled={disabled}>
+            선택 반전
+          </Button>
+          <Button size="small" onClick={onClear} disabled={selectionCount === 0}>
+            선택 해제
+          </Button>
+        </Box>
+        {disabled && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Potree 데이터셋은 선택/편집할 수 없습니다
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SelectionPanel;
@@ -0,0 +1,198 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  FormControlLabel,
+  IconButton,
+  Radio,
+  Slider,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Delete, Visibility, VisibilityOff } from '@mui/icons-material';
+import { SemanticClass } from '@/services/pointcloud/kitti';
+import { categoricalColor } from '@/services/pointcloud/colormap';
+
+export type PaintTool = 'brush' | 'polygon';
+export type LabelFileFormat = 'pcd' | 'label';
+
+interface SemanticPaintPanelProps {
+  tool: PaintTool | null;
+  // 칠할 수 있는 클래스 목록 (클래스 색상 팔레트와 같음)
+  classes: SemanticClass[];
+  activeClass: number;
+  hiddenClasses: number[];
+  // 메모리에 있는 레이어의 label별 점 수
+  counts: Map<number, number>;
+  // 브러시 반지름 (화면 픽셀)
+  brushRadius: number;
+  onlyUnlabeled: boolean;
+  // 그리는 중인 다각형의 꼭짓점 수
+  polygonPoints: number;
+  disabled: boolean;
+  onToolChange: (tool: PaintTool | null) => void;
+  onActiveClassChange: (id: number) => void;
+  onToggleClass: (id: number) => void;
+  onBrushRadiusChange: (radius: number) => void;
+  onOnlyUnlabeledChange: (onlyUnlabeled: boolean) => void;
+  onFillPolygon: () => void;
+  onCancelPolygon: () => void;
+  onClassesChange: (classes: SemanticClass[]) => void;
+  onExport: (format: LabelFileFormat) => void;
+}
+
+const toHex = (color: [number, number, number]) => `#${color.map(value => value.toString(16).padStart(2, '0')).join('')}`;
+
+const SemanticPaintPanel: React.FC<SemanticPaintPanelProps> = ({
+  tool,
+  classes,
+  activeClass,
+  hiddenClasses,
+  counts,
+  brushRadius,
+  onlyUnlabeled,
+  polygonPoints,
+  disabled,
+  onToolChange,
+  onActiveClassChange,
+  onToggleClass,
+  onBrushRadiusChange,
+  onOnlyUnlabeledChange,
+  onFillPolygon,
+  onCancelPolygon,
+  onClassesChange,
+  onExport,
+}) => {
+  const updateClass = (id: number, changes: Partial<SemanticClass>) => {
+    onClassesChange(classes.map(semanticClass => (semanticClass.id === id ? { ...semanticClass, ...changes } : semanticClass)));
+  };
+
+  const addClass = () => {
+    const id = Math.max(0, ...classes.map(semanticClass => semanticClass.id)) + 1;
+    onClassesChange([...classes, { id, name: `class ${id}`, color: toHex(categoricalColor(classes.length)) }]);
+    onActiveClassChange(id);
+  };
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          포인트 라벨링
+        </Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          fullWidth
+          disabled={disabled}
+          value={tool}
+          onChange={(_, value: PaintTool | null) => onToolChange(value)}
+          sx={{ mb: 1 }}
+        >
+          <ToggleButton value="brush">브러시</ToggleButton>
+          <ToggleButton value="polygon">다각형 채우기</ToggleButton>
+        </ToggleButtonGroup>
+
+        {tool === 'brush' && (
+          <Box sx={{ mb: 1 }}>
+            <Typography variant="body2">브러시 반지름: {brushRadius}px</Typography>
+            <Slider
+              value={brushRadius}
+              onChange={(_, value) => onBrushRadiusChange(value as number)}
+              min={2}
+              max={100}
+              step={1}
+              size="small"
+            />
+          </Box>
+        )}
+        {tool === 'polygon' && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+              {polygonPoints === 0 ? '꼭짓점을 클릭하세요 (더블클릭/Enter: 채우기)' : `꼭짓점 ${polygonPoints}개`}
+            </Typography>
+            <Button size="small" onClick={onFillPolygon} disabled={polygonPoints < 3}>
+              채우기
+            </Button>
+            <Button size="small" onClick={onCancelPolygon} disabled={polygonPoints === 0}>
+              취소
+            </Button>
+          </Box>
+        )}
+        {tool && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+            왼쪽 버튼: 칠하기 · 오른쪽 드래그: 회전 · 가운데 드래그: 이동
+          </Typography>
+        )}
+        <FormControlLabel
+          control={<Switch size="small" checked={onlyUnlabeled} onChange={(e) => onOnlyUnlabeledChange(e.target.checked)} />}
+          label={<Typography variant="body2">라벨 없는 점만 칠하기</Typography>}
+          sx={{ mb: 1 }}
+        />
+
+        <Box sx={{ maxHeight: 280, overflowY: 'auto' }}>
+          {classes.map(semanticClass => {
+            const hidden = hiddenClasses.includes(semanticClass.id);
+            return (
+              <Box key={semanticClass.id} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                <Radio
+                  size="small"
+                  checked={semanticClass.id === activeClass}
+                  onChange={() => onActiveClassChange(semanticClass.id)}
+                  sx={{ p: 0.5 }}
+                />
+                <input
+                  type="color"
+                  value={semanticClass.color}
+                  onChange={(e) => updateClass(semanticClass.id, { color: e.target.value })}
+                  style={{ width: 28, height: 24, border: 'none', padding: 0, cursor: 'pointer' }}
+                />
+                <TextField
+                  variant="standard"
+                  size="small"
+                  value={semanticClass.name}
+                  onChange={(e) => updateClass(semanticClass.id, { name: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <Typography variant="caption" color="text.secondary" sx={{ minWidth: 72, textAlign: 'right' }}>
+                  {semanticClass.id} · {(counts.get(semanticClass.id) ?? 0).toLocaleString()}
+                </Typography>
+                <Tooltip title={hidden ? '보이기' : '숨기기'}>
+                  <IconButton size="small" onClick={() => onToggleClass(semanticClass.id)}>
+                    {hidden ? <VisibilityOff fontSize="small" /> : <Visibility fontSize="small" />}
+                  </IconButton>
+                </Tooltip>
+                <IconButton
+                  size="small"
+                  disabled={semanticClass.id === 0}
+                  onClick={() => onClassesChange(classes.filter(c => c.id !== semanticClass.id))}
+                >
+                  <Delete fontSize="small" />
+                </IconButton>
+              </Box>
+            );
+          })}
+        </Box>
+        <Button size="small" onClick={addClass} sx={{ mt: 0.5 }}>
+          클래스 추가
+        </Button>
+
+        <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+          <Button variant="outlined" size="small" fullWidth disabled={disabled} onClick={() => onExport('pcd')}>
+            PCD 저장 (label)
+          </Button>
+          <Button variant="outlined" size="small" fullWidth disabled={disabled} onClick={() => onExport('label')}>
+            .label 저장
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SemanticPaintPanel;
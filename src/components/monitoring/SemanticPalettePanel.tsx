@@ -0,0 +1,73 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Typography,
+} from '@mui/material';
+import { SemanticClass, semanticClassName } from '@/services/pointcloud/kitti';
+
+interface SemanticPalettePanelProps {
+  palette: SemanticClass[];
+  // 현재 클라우드에 있는 label별 점 개수
+  labelCounts: Map<number, number>;
+  onChange: (palette: SemanticClass[]) => void;
+  onReset: () => void;
+}
+
+const SemanticPalettePanel: React.FC<SemanticPalettePanelProps> = ({
+  palette,
+  labelCounts,
+  onChange,
+  onReset,
+}) => {
+  const labels = Array.from(labelCounts.keys()).sort((a, b) => a - b);
+
+  const updateColor = (id: number, color: string) => {
+    if (palette.some(semanticClass => semanticClass.id === id)) {
+      onChange(palette.map(semanticClass => (semanticClass.id === id ? { ...semanticClass, color } : semanticClass)));
+    } else {
+      // 팔레트에 없는 label은 새 클래스로 추가
+      onChange([...palette, { id, name: semanticClassName(palette, id), color }]);
+    }
+  };
+
+  return (
+    <Card sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            클래스 색상
+          </Typography>
+          <Button size="small" onClick={onReset}>
+            기본값
+          </Button>
+        </Box>
+        <Box sx={{ maxHeight: 240, overflowY: 'auto' }}>
+          {labels.map(id => {
+            const color = palette.find(semanticClass => semanticClass.id === id)?.color ?? '#808080';
+            return (
+              <Box key={id} sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.5 }}>
+                <input
+                  type="color"
+                  value={color}
+                  onChange={(e) => updateColor(id, e.target.value)}
+                  style={{ width: 28, height: 24, border: 'none', padding: 0, cursor: 'pointer' }}
+                />
+                <Typography variant="body2" sx={{ flex: 1 }}>
+                  {semanticClassName(palette, id)} ({id})
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {labelCounts.get(id)!.toLocaleString()}
+                </Typography>
+              </Box>
+            );
+          })}
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SemanticPalettePanel;
@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  TEXT_DELIMITERS,
+  TextColumn,
+  TextColumnRole,
+  TextImportOptions,
+  previewTextRows,
+} from '@/services/pointcloud/text';
+
+interface TextImportDialogProps {
+  open: boolean;
+  fileName: string;
+  // 파일 앞부분 (미리보기용)
+  sample: string;
+  initialOptions: TextImportOptions;
+  onCancel: () => void;
+  onConfirm: (options: TextImportOptions) => void;
+}
+
+const ROLE_OPTIONS: { value: TextColumnRole; label: string }[] = [
+  { value: 'ignore', label: '무시' },
+  { value: 'x', label: 'X' },
+  { value: 'y', label: 'Y' },
+  { value: 'z', label: 'Z' },
+  { value: 'r', label: 'R' },
+  { value: 'g', label: 'G' },
+  { value: 'b', label: 'B' },
+  { value: 'intensity', label: 'Intensity' },
+  { value: 'custom', label: '사용자 정의' },
+];
+
+// 위치 좌표와 색상은 한 컬럼에만 지정 가능
+const UNIQUE_ROLES: TextColumnRole[] = ['x', 'y', 'z', 'r', 'g', 'b', 'intensity'];
+
+const TextImportDialog: React.FC<TextImportDialogProps> = ({
+  open,
+  fileName,
+  sample,
+  initialOptions,
+  onCancel,
+  onConfirm,
+}) => {
+  const [options, setOptions] = useState<TextImportOptions>(initialOptions);
+
+  useEffect(() => {
+    setOptions(initialOptions);
+  }, [initialOptions]);
+
+  const rows = useMemo(() => previewTextRows(sample, options), [sample, options]);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  // 구분자/건너뛸 줄 변경으로 컬럼 수가 바뀌면 매핑 길이를 맞춤
+  const columns: TextColumn[] = Array.from({ length: columnCount }, (_, i) => (
+    options.columns[i] || { role: 'ignore', name: `field_${i + 1}` }
+  ));
+
+  const updateColumn = (index: number, column: Partial<TextColumn>) => {
+    const next = columns.map((current, i) => {
+      if (i === index) return { ...current, ...column };
+      // 같은 역할이 다른 컬럼에 있으면 해제
+      if (column.role && UNIQUE_ROLES.includes(column.role) && current.role === column.role) {
+        return { ...current, role: 'ignore' as TextColumnRole };
+      }
+      return current;
+    });
+    setOptions({ ...options, columns: next });
+  };
+
+  const hasPosition = ['x', 'y', 'z'].every(role => columns.some(column => column.role === role));
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>텍스트 포인트 클라우드 가져오기</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          파일: {fileName}
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          <TextField
+            select
+            label="구분자"
+            size="small"
+            value={options.delimiter}
+            onChange={(e) => setOptions({ ...options, delimiter: e.target.value })}
+            sx={{ minWidth: 160 }}
+          >
+            {TEXT_DELIMITERS.map(delimiter => (
+              <MenuItem key={delimiter.label} value={delimiter.value}>
+                {delimiter.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            type="number"
+            label="건너뛸 줄 수"
+            size="small"
+            value={options.skipLines}
+            onChange={(e) => setOptions({ ...options, skipLines: Math.max(0, parseInt(e.target.value) || 0) })}
+            sx={{ width: 140 }}
+          />
+        </Box>
+
+        <TableContainer sx={{ maxHeight: 360, border: '1px solid #e0e0e0', borderRadius: 1 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                {columns.map((column, i) => (
+                  <TableCell key={i} sx={{ minWidth: 120, verticalAlign: 'top' }}>
+                    <TextField
+                      select
+                      size="small"
+                      fullWidth
+                      value={column.role}
+                      onChange={(e) => updateColumn(i, { role: e.target.value as TextColumnRole })}
+                    >
+                      {ROLE_OPTIONS.map(role => (
+                        <MenuItem key={role.value} value={role.value}>
+                          {role.label}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    {column.role === 'custom' && (
+                      <TextField
+                        size="small"
+                        fullWidth
+                        placeholder="필드 이름"
+                        value={column.name}
+                        onChange={(e) => updateColumn(i, { name: e.target.value })}
+                        sx={{ mt: 1 }}
+                      />
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map((row, r) => (
+                <TableRow key={r}>
+                  {columns.map((_, c) => (
+                    <TableCell key={c} sx={{ fontFamily: 'monospace' }}>
+                      {row[c] ?? ''}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        {!hasPosition && (
+          <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+            X, Y, Z 컬럼을 지정해야 합니다.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>취소</Button>
+        <Button
+          variant="contained"
+          disabled={!hasPosition}
+          onClick={() => onConfirm({ ...options, columns })}
+        >
+          가져오기
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TextImportDialog;
@@ -0,0 +1,101 @@
+import * as THREE from 'three';
+import { CUBOID_CLASSES, Cuboid } from '@/services/pointcloud/cuboids';
+import { categoricalColor } from '@/services/pointcloud/colormap';
+
+const UNKNOWN_CLASS_COLOR: [number, number, number] = [189, 189, 189];
+// 크기가 0인 상자도 기즈모로 다시 늘릴 수 있도록
+const MIN_SIZE = 0.01;
+
+// 클래스별 상자 색 (목록에 없는 클래스는 회색)
+export const cuboidColor = (label: string): [number, number, number] => {
+  const index = CUBOID_CLASSES.indexOf(label);
+  return index >= 0 ? categoricalColor(index) : UNKNOWN_CLASS_COLOR;
+};
+
+// 상자 하나: 반투명 면, 모서리, 진행 방향 표시선 ([-0.5, 0.5]³ 단위 상자를 위치/회전/크기로 변형)
+export const createCuboidObject = () => {
+  const mesh = new THREE.Mesh(
+    new THREE.BoxGeometry(1, 1, 1),
+    new THREE.MeshBasicMaterial({ transparent: true, depthWrite: false })
+  );
+  mesh.add(new THREE.LineSegments(new THREE.EdgesGeometry(mesh.geometry), new THREE.LineBasicMaterial()));
+  mesh.add(new THREE.Line(
+    new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(0, 0, 0), new THREE.Vector3(0.5, 0, 0)]),
+    new THREE.LineBasicMaterial()
+  ));
+  return mesh;
+};
+
+// origin은 씬 원점의 원래 좌표
+export const updateCuboidObject = (object: THREE.Mesh, cuboid: Cuboid, origin: [number, number, number], selected: boolean) => {
+  const { center, size, yaw } = cuboid;
+  object.position.set(center[0] - origin[0], center[1] - origin[1], center[2] - origin[2]);
+  object.rotation.set(0, 0, yaw);
+  object.scale.set(...size.map(value => Math.max(value, MIN_SIZE)) as [number, number, number]);
+
+  const color = new THREE.Color(...cuboidColor(cuboid.label).map(value => value / 255) as [number, number, number]);
+  const fill = object.material as THREE.MeshBasicMaterial;
+  fill.color.copy(color);
+  fill.opacity = selected ? 0.25 : 0.08;
+  for (const child of object.children) {
+    ((child as THREE.Line).material as THREE.LineBasicMaterial).color.copy(color);
+  }
+};
+
+export const disposeCuboidObject = (object: THREE.Object3D) => {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+  });
+};
+
+// 선택한 상자를 맞출 때 보는 정사영 보조 뷰 (상자 좌표계 기준 카메라 방향, 화면 위쪽, 가로/세로/깊이 축)
+export const CUBOID_VIEWS = [
+  { label: '위', direction: [0, 0, 1], up: [1, 0, 0], horizontal: 1, vertical: 0, depth: 2 },
+  { label: '옆', direction: [0, -1, 0], up: [0, 0, 1], horizontal: 0, vertical: 2, depth: 1 },
+  { label: '앞', direction: [1, 0, 0], up: [0, 0, 1], horizontal: 1, vertical: 2, depth: 0 },
+];
+
+const viewCamera = new THREE.OrthographicCamera();
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+
+// 캔버스 오른쪽 아래에 paneSize 픽셀 정사각형 보조 뷰를 나란히 그림
+// 깊이 방향으로는 상자 주변만 잘라서 보여 줌 (상자 앞뒤의 점이 가리지 않도록)
+export const renderCuboidViews = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  object: THREE.Object3D,
+  paneSize: number,
+  gap: number
+) => {
+  const { x: width, y: height } = renderer.getSize(new THREE.Vector2());
+  const size = object.scale.toArray();
+  const toWorld = (vector: number[]) => new THREE.Vector3(...vector).applyAxisAngle(Z_AXIS, object.rotation.z);
+
+  renderer.setScissorTest(true);
+  CUBOID_VIEWS.forEach((view, i) => {
+    const half = Math.max(size[view.horizontal], size[view.vertical]) * 0.65 + 0.1;
+    const depth = size[view.depth];
+    const margin = Math.max(0.3, depth * 0.5);
+    const distance = depth / 2 + margin + 1;
+    viewCamera.left = -half;
+    viewCamera.right = half;
+    viewCamera.top = half;
+    viewCamera.bottom = -half;
+    viewCamera.near = distance - depth / 2 - margin;
+    viewCamera.far = distance + depth / 2 + margin;
+    viewCamera.position.copy(object.position).addScaledVector(toWorld(view.direction), distance);
+    viewCamera.up.copy(toWorld(view.up));
+    viewCamera.lookAt(object.position);
+    viewCamera.updateProjectionMatrix();
+
+    const x = width - (CUBOID_VIEWS.length - i) * (paneSize + gap);
+    renderer.setViewport(x, gap, paneSize, paneSize);
+    renderer.setScissor(x, gap, paneSize, paneSize);
+    renderer.render(scene, viewCamera);
+  });
+  renderer.setScissorTest(false);
+  renderer.setViewport(0, 0, width, height);
+};
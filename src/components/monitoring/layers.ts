@@ -0,0 +1,307 @@
+import * as THREE from 'three';
+import { PointCloudData } from '@/services/pointcloud';
+import { IndexedOctreeNode, OctreeNode, PointCloudOctree } from '@/services/pointcloud/octree';
+import { LODRenderer } from '@/services/pointcloud/lod';
+import { KDTree, pickScreenNearest } from '@/services/pointcloud/kdtree';
+import { ScalarColoring, colorByScalar } from '@/services/pointcloud/colormap';
+import { RangeFilter, filterIndices, rangePredicate } from '@/services/pointcloud/filter';
+import { PointCloudBounds } from '@/services/pointcloud/types';
+import { countSelected } from '@/services/pointcloud/selection';
+import { flipMask, maskDelta } from '@/services/pointcloud/history';
+
+// 하나의 파일에서 온 여러 클라우드 (E57 스캔 등); 레이어마다 옥트리 LOD 렌더러로 그림
+export interface PointCloudLayer {
+  id: number;
+  name: string;
+  // 전체 점이 메모리에 있는 레이어만 (Potree 데이터셋은 보이는 노드만 디스크에서 읽음)
+  cloud: PointCloudData | null;
+  // cloud의 옥트리 (노드 점 -> cloud 인덱스); cloud가 있을 때만
+  octree: PointCloudOctree | null;
+  // 지우지 않은 점 수
+  pointCount: number;
+  // cloud 전체에 대한 KD-tree (cloud가 있을 때만)
+  index: KDTree | null;
+  // 원래 좌표 = 노드 positions + offset
+  offset: [number, number, number];
+  // positions 기준 경계
+  bounds: PointCloudBounds;
+  // 파일에 색상이 있는지 (컬러맵을 끄면 이 색상으로 돌아감)
+  hasColors: boolean;
+  // 레이어 단색 (파일 색상과 전체 포인트 색상 대신); 없으면 null
+  color: string | null;
+  // 점 속성 이름과 'distance' 필드의 기준 센서 위치 (원래 좌표)
+  attributeNames: string[];
+  sensor: [number, number, number];
+  // 필드 값 범위 (컬러맵 자동 범위용); 필드가 없으면 null
+  fieldRange: (field: string) => [number, number] | null;
+  renderer: LODRenderer<OctreeNode>;
+  visible: boolean;
+  // cloud 인덱스별 표시 (removed는 지운 점, selected는 선택한 점이 1); 없으면 null
+  removed: Uint8Array | null;
+  selected: Uint8Array | null;
+  // 처리 미리보기에서 지울 점 (적용 전까지 빨간색으로 표시); 없으면 null
+  pendingRemoval: Uint8Array | null;
+  // cloud 인덱스별로 덮어 칠할 색 (군집 결과 등; null을 돌려주면 원래 색); 없으면 null
+  overlay: ((index: number) => [number, number, number] | null) | null;
+  // 숨길 semantic label (cloud의 label 속성 값); 없으면 null
+  hiddenLabels: Set<number> | null;
+  // cloud 인덱스 기준으로 범위 필터를 통과하고 지우지 않은 점인지 (피킹/선택에서 숨긴 점 제외); 조건이 없으면 null
+  pointFilter: ((index: number) => boolean) | null;
+}
+
+export type PointCloudLayerSource = Omit<
+  PointCloudLayer,
+  'id' | 'visible' | 'removed' | 'selected' | 'pendingRemoval' | 'overlay' | 'hiddenLabels' | 'pointFilter'
+>;
+
+// 레이어 표시(removed/selected) 편집 한 번; 값이 바뀐 cloud 인덱스만 저장
+export interface LayerMaskEdit {
+  kind: 'mask';
+  layer: PointCloudLayer;
+  removed: Uint32Array;
+  selected: Uint32Array;
+}
+
+// 점 데이터와 그에 딸린 상태 (다운샘플링 결과로 바꿀 때 통째로 맞바꿈)
+export type LayerData = Pick<
+  PointCloudLayer,
+  'cloud' | 'octree' | 'index' | 'pointCount' | 'offset' | 'bounds' | 'hasColors' | 'attributeNames' | 'sensor' | 'fieldRange' | 'renderer' | 'removed' | 'selected'
+>;
+
+// 레이어 데이터 교체 한 번; data에는 레이어에 없는 쪽(적용 전에는 새 데이터, 적용 후에는 원래 데이터)을 둠
+export interface LayerDataEdit {
+  kind: 'data';
+  layer: PointCloudLayer;
+  data: LayerData;
+}
+
+// 점 label 편집 한 번 (칠하기 한 획); values에는 indices 점의 레이어에 없는 쪽 label을 둠
+export interface LayerLabelEdit {
+  kind: 'labels';
+  layer: PointCloudLayer;
+  indices: Uint32Array;
+  values: Float64Array;
+}
+
+export type LayerEdit = LayerMaskEdit | LayerDataEdit | LayerLabelEdit;
+
+export interface LayerPick {
+  layer: PointCloudLayer;
+  data: PointCloudData;
+  index: number;
+  angle: number;
+  // 메모리에 있는 클라우드는 전체 점 인덱스, Potree는 '노드:노드 안 인덱스'
+  pointId: string;
+}
+
+// 선택한 점과 지울 점(미리보기)을 칠할 색
+const SELECTION_COLOR: [number, number, number] = [255, 87, 34];
+const REMOVAL_COLOR: [number, number, number] = [255, 0, 0];
+
+// 레이어에서 광선(씬 좌표)에 화면상 가장 가까운 점
+// 메모리에 있는 클라우드는 전체 KD-tree, Potree는 그려진 노드에서 찾음
+export const pickLayer = (layer: PointCloudLayer, ray: THREE.Ray, maxAngle: number): LayerPick | null => {
+  if (!layer.cloud || !layer.index) {
+    const hit = layer.renderer.pick(ray, maxAngle);
+    return hit && { layer, data: hit.data, index: hit.index, angle: hit.angle, pointId: `${hit.node.name}:${hit.index}` };
+  }
+  const object = layer.renderer.object;
+  object.updateMatrixWorld();
+  const localRay = ray.clone().applyMatrix4(object.matrixWorld.clone().invert());
+  const hit = pickScreenNearest(layer.index, layer.cloud.positions, localRay, maxAngle, layer.pointFilter ?? undefined);
+  return hit && { layer, data: layer.cloud, index: hit.index, angle: hit.angle, pointId: String(hit.index) };
+};
+
+// 노드 점 i의 cloud 인덱스 (메모리에 있는 레이어의 노드는 gatherNode로 모은 것)
+const nodeIndices = (octree: PointCloudOctree, node: OctreeNode) => {
+  const { start } = node as IndexedOctreeNode;
+  return octree.order.subarray(start, start + node.count);
+};
+
+// cloud 인덱스 -> octree.order 안 위치 (처음 쓸 때 옥트리마다 한 번 만듦)
+const orderPositions = new WeakMap<PointCloudOctree, Uint32Array>();
+
+const orderPositionsOf = (octree: PointCloudOctree) => {
+  let positions = orderPositions.get(octree);
+  if (!positions) {
+    positions = new Uint32Array(octree.order.length);
+    for (let k = 0; k < octree.order.length; k++) positions[octree.order[k]] = k;
+    orderPositions.set(octree, positions);
+  }
+  return positions;
+};
+
+// indices(cloud 인덱스) 점이 든 읽어 둔 노드만 색상과 필터를 다시 반영 (칠하기처럼 일부 점의 label만 바뀌었을 때)
+export const refreshLayerPoints = (layer: PointCloudLayer, indices: Uint32Array) => {
+  const { octree } = layer;
+  if (!octree || indices.length === 0) return;
+  const positions = orderPositionsOf(octree);
+  const sorted = indices.map(index => positions[index]).sort();
+  layer.renderer.refreshNodes((node) => {
+    const { start } = node as IndexedOctreeNode;
+    // start 이상인 첫 위치가 노드 범위 [start, start + count) 안이면 바뀐 점이 있음
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sorted[middle] < start) low = middle + 1;
+      else high = middle;
+    }
+    return low < sorted.length && sorted[low] < start + node.count;
+  });
+};
+
+// 범위 필터, 지운 점과 숨긴 label을 렌더러 인덱스 버퍼와 피킹 조건에 반영
+export const applyLayerFilter = (layer: PointCloudLayer, filters: RangeFilter[]) => {
+  const { cloud, octree, sensor, removed, hiddenLabels } = layer;
+  const passes = cloud && rangePredicate(cloud, filters, sensor);
+  const labels = hiddenLabels?.size ? cloud?.attributes.label : undefined;
+  const excluded = removed || labels
+    ? (index: number) => !!removed?.[index] || (!!labels && hiddenLabels!.has(labels[index]))
+    : null;
+  layer.pointFilter = passes || excluded ? (index) => !excluded?.(index) && (!passes || passes(index)) : null;
+
+  if (filters.length === 0 && !excluded) {
+    layer.renderer.setFilter(null);
+    return;
+  }
+  layer.renderer.setFilter((data, node) => {
+    const ranged = filterIndices(data, filters, sensor);
+    if (!excluded || !octree) return ranged;
+    const order = nodeIndices(octree, node);
+    const kept = new Uint32Array(ranged ? ranged.length : data.count);
+    let count = 0;
+    for (let k = 0; k < kept.length; k++) {
+      const i = ranged ? ranged[k] : k;
+      if (!excluded(order[i])) kept[count++] = i;
+    }
+    return kept.subarray(0, count);
+  });
+};
+
+// 레이어 색상: 스칼라 필드 컬러맵(레이어에 필드가 있을 때) 위에 덮어 칠할 색, 선택한 점과 지울 점 강조
+// baseColor는 색상이 없는 클라우드의 단색 (레이어 단색이 있으면 그 색)
+export const applyLayerColors = (layer: PointCloudLayer, coloring: ScalarColoring | null, baseColor: string) => {
+  const { octree, selected, pendingRemoval, overlay, sensor } = layer;
+  const highlight = (selected || pendingRemoval || overlay) && octree;
+  const material = layer.renderer.material;
+  const fileColors = layer.hasColors && !layer.color;
+  const solidColor = layer.color ?? baseColor;
+  const vertexColors = !!coloring || fileColors || !!highlight;
+  if (material.vertexColors !== vertexColors) {
+    material.vertexColors = vertexColors;
+    material.needsUpdate = true;
+  }
+  material.color.set(vertexColors ? 0xffffff : solidColor);
+
+  if (!coloring && !highlight) {
+    layer.renderer.setColorizer(null);
+    return;
+  }
+  const base = new THREE.Color(solidColor);
+  const solid = [base.r, base.g, base.b].map(value => Math.round(value * 255));
+  layer.renderer.setColorizer((data, node) => {
+    const colors = coloring ? colorByScalar(data, coloring, sensor) : null;
+    if (!highlight) return colors;
+
+    const original = fileColors ? data.colors : null;
+    const painted = colors ?? original?.slice() ?? new Uint8Array(data.count * 3);
+    if (!colors && !original) {
+      for (let i = 0; i < data.count; i++) painted.set(solid, i * 3);
+    }
+    const order = nodeIndices(octree, node);
+    for (let i = 0; i < data.count; i++) {
+      const index = order[i];
+      if (pendingRemoval?.[index]) painted.set(REMOVAL_COLOR, i * 3);
+      else if (selected?.[index]) painted.set(SELECTION_COLOR, i * 3);
+      else {
+        const color = overlay?.(index);
+        if (color) painted.set(color, i * 3);
+      }
+    }
+    return painted;
+  });
+};
+
+// 화면에 남아 있는 점의 cloud 인덱스 (범위 필터 통과, 지우지 않은 점); 모두 남아 있으면 null
+export const visibleIndices = (layer: PointCloudLayer): Uint32Array | null => {
+  const { cloud, pointFilter } = layer;
+  if (!cloud || !pointFilter) return null;
+  const indices = new Uint32Array(cloud.count);
+  let count = 0;
+  for (let i = 0; i < cloud.count; i++) {
+    if (pointFilter(i)) indices[count++] = i;
+  }
+  return indices.slice(0, count);
+};
+
+// 화면에서 빠진 점 표시 (범위 필터로 숨기거나 지운 점이 1); 모두 남아 있으면 null
+export const hiddenMask = (layer: PointCloudLayer): Uint8Array | null => {
+  const { cloud, pointFilter } = layer;
+  if (!cloud || !pointFilter) return null;
+  const hidden = new Uint8Array(cloud.count);
+  for (let i = 0; i < cloud.count; i++) {
+    if (!pointFilter(i)) hidden[i] = 1;
+  }
+  return hidden;
+};
+
+// 레이어 표시를 removed/selected로 바꾸는 편집
+export const layerMaskEdit = (layer: PointCloudLayer, removed: Uint8Array | null, selected: Uint8Array | null): LayerMaskEdit => {
+  const count = layer.cloud?.count ?? 0;
+  return {
+    kind: 'mask',
+    layer,
+    removed: maskDelta(layer.removed, removed, count),
+    selected: maskDelta(layer.selected, selected, count),
+  };
+};
+
+export const layerData = (layer: LayerData): LayerData => {
+  const { cloud, octree, index, pointCount, offset, bounds, hasColors, attributeNames, sensor, fieldRange, renderer, removed, selected } = layer;
+  return { cloud, octree, index, pointCount, offset, bounds, hasColors, attributeNames, sensor, fieldRange, renderer, removed, selected };
+};
+
+// 기록에서 버린 편집 정리: 데이터 교체 편집이 들고 있는 (레이어에 없는) 렌더러를 해제
+export const disposeLayerEdit = (edit: LayerEdit) => {
+  if (edit.kind === 'data' && edit.data.renderer !== edit.layer.renderer) edit.data.renderer.dispose();
+};
+
+// 편집이 바꾸는 것이 없는지 (기록하지 않음)
+export const isEmptyEdit = (edit: LayerEdit) =>
+  edit.kind === 'mask' ? edit.removed.length === 0 && edit.selected.length === 0 : edit.kind === 'labels' && edit.indices.length === 0;
+
+// 편집 적용과 취소는 같은 인덱스를 뒤집거나 같은 값을 맞바꾸는 것이라 같은 함수로 함; 필터와 색상은 호출하는 쪽에서 다시 반영
+export const flipLayerEdit = (edit: LayerEdit) => {
+  const { layer } = edit;
+  if (edit.kind === 'data') {
+    // 렌더러 그룹도 씬에서 맞바꿈 (offset이 다르면 그만큼 옮김); 빠지는 렌더러는 GPU 버퍼만 내려 둠
+    const current = layerData(layer);
+    const previous = current.renderer.object;
+    const next = edit.data.renderer.object;
+    next.position.copy(previous.position).add(new THREE.Vector3(...edit.data.offset).sub(new THREE.Vector3(...current.offset)));
+    next.visible = previous.visible;
+    previous.parent?.add(next);
+    previous.parent?.remove(previous);
+    current.renderer.reload();
+    Object.assign(layer, edit.data);
+    edit.data = current;
+    return;
+  }
+  if (edit.kind === 'labels') {
+    const labels = layer.cloud?.attributes.label;
+    if (!labels) return;
+    const { indices, values } = edit;
+    for (let k = 0; k < indices.length; k++) {
+      const value = labels[indices[k]];
+      labels[indices[k]] = values[k];
+      values[k] = value;
+    }
+    return;
+  }
+  const { removed, selected } = edit;
+  const count = layer.cloud?.count ?? 0;
+  layer.removed = flipMask(layer.removed, removed, count);
+  layer.selected = flipMask(layer.selected, selected, count);
+  layer.pointCount = count - (layer.removed ? countSelected(layer.removed) : 0);
+};
@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import { Measurement, MeasurementPoint, formatMeasurement } from '@/services/pointcloud/measure';
+
+const LINE_COLOR = 0xffd54f;
+const DRAFT_COLOR = 0x4fc3f7;
+// 라벨 높이 (화면 크기와 무관하게 일정하도록 sizeAttenuation 없이 그림)
+const LABEL_SCALE = 0.05;
+const LABEL_FONT_SIZE = 48;
+
+// 캔버스에 글자를 그려 항상 카메라를 향하는 라벨로 만듦
+const createLabel = (text: string) => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  const font = `600 ${LABEL_FONT_SIZE}px sans-serif`;
+  context.font = font;
+  const padding = LABEL_FONT_SIZE * 0.3;
+  canvas.width = Math.ceil(context.measureText(text).width + padding * 2);
+  canvas.height = Math.ceil(LABEL_FONT_SIZE + padding * 2);
+
+  context.font = font;
+  context.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = '#ffffff';
+  context.textBaseline = 'middle';
+  context.fillText(text, padding, canvas.height / 2);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture, depthTest: false, sizeAttenuation: false }));
+  sprite.scale.set((LABEL_SCALE * canvas.width) / canvas.height, LABEL_SCALE, 1);
+  sprite.center.set(0.5, -0.2);
+  sprite.renderOrder = 2;
+  return sprite;
+};
+
+// 측정 종류별로 선으로 이을 점 (높이는 수직선과 수평선으로 나눠 그림)
+const linePath = ({ kind, points }: Pick<Measurement, 'kind' | 'points'>): MeasurementPoint[] => {
+  if (kind === 'height' && points.length === 2) {
+    const [low, high] = points[0][2] <= points[1][2] ? points : [points[1], points[0]];
+    return [low, [low[0], low[1], high[2]], high];
+  }
+  if (kind === 'area' && points.length >= 3) return [...points, points[0]];
+  return points;
+};
+
+const labelAnchor = ({ kind, points }: Pick<Measurement, 'kind' | 'points'>): MeasurementPoint => {
+  if (kind === 'angle' && points.length >= 2) return points[1];
+  if (kind === 'height' && points.length === 2) {
+    const low = points[0][2] <= points[1][2] ? points[0] : points[1];
+    return [low[0], low[1], (points[0][2] + points[1][2]) / 2];
+  }
+  if (kind === 'distance' && points.length === 2) {
+    return [0, 1, 2].map(axis => (points[0][axis] + points[1][axis]) / 2) as MeasurementPoint;
+  }
+  if (kind === 'area') {
+    return [0, 1, 2].map(axis => points.reduce((sum, point) => sum + point[axis], 0) / points.length) as MeasurementPoint;
+  }
+  return points[points.length - 1];
+};
+
+// 측정 하나를 그리는 오브젝트 (origin: 씬 원점의 원래 좌표); 만드는 중인 측정은 name 없이 값만 표시
+export const createMeasurementObject = (
+  measurement: Pick<Measurement, 'kind' | 'points'> & { name?: string },
+  origin: [number, number, number]
+): THREE.Group => {
+  const group = new THREE.Group();
+  const color = measurement.name === undefined ? DRAFT_COLOR : LINE_COLOR;
+  const toScene = (point: MeasurementPoint) =>
+    new THREE.Vector3(point[0] - origin[0], point[1] - origin[1], point[2] - origin[2]);
+
+  const markers = new THREE.Points(
+    new THREE.BufferGeometry().setFromPoints(measurement.points.map(toScene)),
+    new THREE.PointsMaterial({ color, size: 8, sizeAttenuation: false, depthTest: false })
+  );
+  markers.renderOrder = 1;
+  group.add(markers);
+
+  const path = linePath(measurement);
+  if (path.length >= 2) {
+    const line = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints(path.map(toScene)),
+      new THREE.LineBasicMaterial({ color, depthTest: false })
+    );
+    line.renderOrder = 1;
+    group.add(line);
+  }
+
+  const value = formatMeasurement(measurement);
+  if (value !== '-') {
+    const label = createLabel(measurement.name ? `${measurement.name}: ${value}` : value);
+    label.position.copy(toScene(labelAnchor(measurement)));
+    group.add(label);
+  }
+  return group;
+};
+
+// 그룹 아래 오브젝트의 GPU 자원 해제
+export const disposeObject = (object: THREE.Object3D) => {
+  object.traverse((child) => {
+    if (child instanceof THREE.Points || child instanceof THREE.Line || child instanceof THREE.Sprite) {
+      // Sprite는 모든 인스턴스가 같은 geometry를 씀
+      if (!(child instanceof THREE.Sprite)) child.geometry.dispose();
+      const material = child.material as THREE.Material & { map?: THREE.Texture | null };
+      material.map?.dispose();
+      material.dispose();
+    }
+  });
+};
@@ -0,0 +1,40 @@
+export interface FileFilter {
+  name: string;
+  extensions: string[];
+}
+
+export interface SaveFileResult {
+  canceled: boolean;
+  filePath?: string;
+}
+
+// Electron에서는 메인 프로세스의 저장 대화상자, 브라우저에서는 다운로드로 저장
+export const saveFile = async (data: Uint8Array, defaultPath: string, filters: FileFilter[]): Promise<SaveFileResult> => {
+  if (window.ipcRenderer) {
+    return window.ipcRenderer.invoke('save-file', { defaultPath, filters, data });
+  }
+
+  const url = URL.createObjectURL(new Blob([data as BlobPart]));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = defaultPath;
+  link.click();
+  URL.revokeObjectURL(url);
+  return { canceled: false, filePath: defaultPath };
+};
+
+// 폴더 선택 (Electron 전용, 취소하면 null)
+export const openDirectory = async (): Promise<string | null> => {
+  if (!window.ipcRenderer) {
+    throw new Error('Opening folders is only available in the desktop app');
+  }
+  return window.ipcRenderer.invoke('open-directory');
+};
+
+// 파일 전체 또는 offset부터 length 바이트만 읽음 (Electron 전용)
+export const readFile = async (filePath: string, offset?: number, length?: number): Promise<Uint8Array> => {
+  if (!window.ipcRenderer) {
+    throw new Error('Reading local files is only available in the desktop app');
+  }
+  return window.ipcRenderer.invoke('read-file', { filePath, offset, length });
+};
@@ -0,0 +1,130 @@
+import * as THREE from 'three';
+import { KDTree, radiusSearch } from './kdtree';
+import { PROGRESS_INTERVAL, ProgressCallback } from './types';
+
+export interface ClusterOptions {
+  // 이 거리 안의 점끼리 같은 군집
+  tolerance: number;
+  // 점 수가 이 범위를 벗어나는 군집은 버림
+  minSize: number;
+  maxSize: number;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = { tolerance: 0.5, minSize: 30, maxSize: 100000 };
+
+// z축 기준으로만 돌린 상자 (center는 positions 좌표, size는 [길이, 폭, 높이], yaw는 라디안)
+export interface OrientedBox {
+  center: [number, number, number];
+  size: [number, number, number];
+  yaw: number;
+}
+
+export interface Cluster {
+  count: number;
+  centroid: [number, number, number];
+  box: OrientedBox;
+}
+
+export interface ClusterResult {
+  // 점마다 군집 번호 (clusters 인덱스); 군집에 들지 않은 점은 -1
+  labels: Int32Array;
+  clusters: Cluster[];
+}
+
+// 점들의 xy 주성분 방향으로 돌린 최소 상자
+export const orientedBox = (positions: Float32Array, indices: ArrayLike<number>): OrientedBox => {
+  const n = indices.length;
+  let mx = 0;
+  let my = 0;
+  for (let k = 0; k < n; k++) {
+    mx += positions[indices[k] * 3];
+    my += positions[indices[k] * 3 + 1];
+  }
+  mx /= n;
+  my /= n;
+  let cxx = 0;
+  let cxy = 0;
+  let cyy = 0;
+  for (let k = 0; k < n; k++) {
+    const x = positions[indices[k] * 3] - mx;
+    const y = positions[indices[k] * 3 + 1] - my;
+    cxx += x * x;
+    cxy += x * y;
+    cyy += y * y;
+  }
+  const yaw = 0.5 * Math.atan2(2 * cxy, cxx - cyy);
+  const cos = Math.cos(yaw);
+  const sin = Math.sin(yaw);
+
+  // 상자 좌표 (u: 주축, v: 수직축)에서 범위를 잼
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let k = 0; k < n; k++) {
+    const i = indices[k];
+    const x = positions[i * 3] - mx;
+    const y = positions[i * 3 + 1] - my;
+    const local = [x * cos + y * sin, -x * sin + y * cos, positions[i * 3 + 2]];
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], local[axis]);
+      max[axis] = Math.max(max[axis], local[axis]);
+    }
+  }
+  const u = (min[0] + max[0]) / 2;
+  const v = (min[1] + max[1]) / 2;
+  return {
+    center: [mx + u * cos - v * sin, my + u * sin + v * cos, (min[2] + max[2]) / 2],
+    size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]],
+    yaw,
+  };
+};
+
+// 유클리드 군집화: tolerance 안의 이웃을 따라 퍼져 나가며 점을 묶음
+// hidden이 1인 점(숨기거나 지운 점)은 묶지 않음
+export const extractClusters = (
+  positions: Float32Array,
+  tree: KDTree,
+  { tolerance, minSize, maxSize }: ClusterOptions,
+  hidden: Uint8Array | null,
+  onProgress?: ProgressCallback
+): ClusterResult => {
+  const count = tree.indices.length;
+  const labels = new Int32Array(count).fill(-1);
+  const visited = new Uint8Array(count);
+  const clusters: Cluster[] = [];
+  const point = new THREE.Vector3();
+  const accept = (j: number) => !visited[j] && !hidden?.[j];
+  // 지금 묶는 군집의 점 (다음 군집에서 다시 씀)
+  let members = new Uint32Array(1024);
+
+  for (let seed = 0; seed < count; seed++) {
+    if (onProgress && seed % PROGRESS_INTERVAL === 0) onProgress(seed / count);
+    if (visited[seed] || hidden?.[seed]) continue;
+
+    visited[seed] = 1;
+    members[0] = seed;
+    let size = 1;
+    for (let head = 0; head < size; head++) {
+      point.fromArray(positions, members[head] * 3);
+      for (const j of radiusSearch(tree, positions, point, tolerance, accept)) {
+        visited[j] = 1;
+        if (size === members.length) {
+          const grown = new Uint32Array(members.length * 2);
+          grown.set(members);
+          members = grown;
+        }
+        members[size++] = j;
+      }
+    }
+    if (size < minSize || size > maxSize) continue;
+
+    const indices = members.subarray(0, size);
+    const centroid: [number, number, number] = [0, 0, 0];
+    for (let k = 0; k < size; k++) {
+      labels[indices[k]] = clusters.length;
+      for (let axis = 0; axis < 3; axis++) centroid[axis] += positions[indices[k] * 3 + axis] / size;
+    }
+    clusters.push({ count: size, centroid, box: orientedBox(positions, indices) });
+  }
+  onProgress?.(1);
+  return { labels, clusters };
+};
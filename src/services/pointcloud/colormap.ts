@@ -0,0 +1,163 @@
+import { PointCloudBounds, PointCloudData } from './types';
+
+// 스칼라 필드 값을 색으로 바꾸는 컬러맵
+
+export type ColormapName = 'viridis' | 'turbo' | 'jet' | 'grayscale' | 'categorical';
+
+// 범주형을 뺀 연속 컬러맵
+export type ContinuousColormap = Exclude<ColormapName, 'categorical'>;
+
+type RGB = [number, number, number];
+
+export const COLORMAPS: { value: ColormapName; label: string }[] = [
+  { value: 'viridis', label: 'Viridis' },
+  { value: 'turbo', label: 'Turbo' },
+  { value: 'jet', label: 'Jet' },
+  { value: 'grayscale', label: 'Grayscale' },
+  { value: 'categorical', label: 'Categorical' },
+];
+
+// 연속 컬러맵: 0 ~ 1 위치에 고르게 놓인 색 사이를 선형 보간
+const GRADIENTS: Record<ContinuousColormap, RGB[]> = {
+  viridis: [
+    [68, 1, 84], [71, 44, 122], [59, 81, 139], [44, 113, 142], [33, 144, 141],
+    [39, 173, 129], [92, 200, 99], [170, 220, 50], [253, 231, 37],
+  ],
+  turbo: [
+    [48, 18, 59], [65, 69, 171], [70, 117, 237], [57, 162, 252], [27, 207, 212], [36, 236, 166],
+    [97, 252, 108], [164, 252, 59], [251, 185, 56], [228, 90, 18], [122, 4, 3],
+  ],
+  jet: [
+    [0, 0, 128], [0, 0, 255], [0, 128, 255], [0, 255, 255], [128, 255, 128],
+    [255, 255, 0], [255, 128, 0], [255, 0, 0], [128, 0, 0],
+  ],
+  grayscale: [[0, 0, 0], [255, 255, 255]],
+};
+
+// 범주형: 정수 값마다 구분되는 색 (개수를 넘으면 반복)
+export const CATEGORICAL_COLORS: RGB[] = [
+  [31, 119, 180], [255, 127, 14], [44, 160, 44], [214, 39, 40], [148, 103, 189],
+  [140, 86, 75], [227, 119, 194], [127, 127, 127], [188, 189, 34], [23, 190, 207],
+  [174, 199, 232], [255, 187, 120], [152, 223, 138], [255, 152, 150], [197, 176, 213],
+  [196, 156, 148], [247, 182, 210], [199, 199, 199], [219, 219, 141], [158, 218, 229],
+];
+
+// 위치에서 계산하는 필드; 나머지 이름은 점 속성
+export const POSITION_FIELDS = ['x', 'y', 'z', 'distance'] as const;
+
+export interface ScalarColoring {
+  field: string;
+  colormap: ColormapName;
+  // 이 범위 밖의 값은 양 끝 색으로 고정 (범주형은 사용하지 않음)
+  min: number;
+  max: number;
+}
+
+export const isPositionField = (field: string) => (POSITION_FIELDS as readonly string[]).includes(field);
+
+// 연속 컬러맵의 t(0 ~ 1) 위치 색
+export const sampleColormap = (colormap: ContinuousColormap, t: number): RGB => {
+  const stops = GRADIENTS[colormap];
+  const position = Math.min(Math.max(t, 0), 1) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const fraction = position - index;
+  const [a, b] = [stops[index], stops[index + 1]];
+  return [0, 1, 2].map(k => Math.round(a[k] + (b[k] - a[k]) * fraction)) as RGB;
+};
+
+export const categoricalColor = (value: number): RGB => {
+  const length = CATEGORICAL_COLORS.length;
+  return CATEGORICAL_COLORS[((Math.round(value) % length) + length) % length];
+};
+
+// 점 i의 필드 값 (좌표는 offset을 더한 원래 좌표, distance는 sensor(원래 좌표)까지의 거리)
+// 클라우드에 없는 속성이면 null
+export const scalarReader = (
+  cloud: PointCloudData,
+  field: string,
+  sensor: [number, number, number] = [0, 0, 0]
+): ((index: number) => number) | null => {
+  const { positions, offset } = cloud;
+  if (field === 'x' || field === 'y' || field === 'z') {
+    const axis = field === 'x' ? 0 : field === 'y' ? 1 : 2;
+    return index => positions[index * 3 + axis] + offset[axis];
+  }
+  if (field === 'distance') {
+    const [dx, dy, dz] = [0, 1, 2].map(axis => offset[axis] - sensor[axis]);
+    return index => Math.hypot(positions[index * 3] + dx, positions[index * 3 + 1] + dy, positions[index * 3 + 2] + dz);
+  }
+  const values = cloud.attributes[field];
+  return values ? index => values[index] : null;
+};
+
+// 클라우드 전체의 필드 값 범위 (NaN과 accept가 false인 점 제외); 값이 없으면 null
+export const scalarRange = (
+  cloud: PointCloudData,
+  field: string,
+  sensor?: [number, number, number],
+  accept?: (index: number) => boolean
+): [number, number] | null => {
+  const read = scalarReader(cloud, field, sensor);
+  if (!read) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < cloud.count; i++) {
+    if (accept && !accept(i)) continue;
+    const value = read(i);
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return min <= max ? [min, max] : null;
+};
+
+// 점을 읽지 않고 경계 상자(원래 좌표)만으로 구한 위치 필드 범위 (Potree 등)
+export const boundsScalarRange = (
+  bounds: PointCloudBounds,
+  field: string,
+  sensor: [number, number, number] = [0, 0, 0]
+): [number, number] | null => {
+  const { min, max } = bounds;
+  if (field === 'x' || field === 'y' || field === 'z') {
+    const axis = field === 'x' ? 0 : field === 'y' ? 1 : 2;
+    return [min[axis], max[axis]];
+  }
+  if (field !== 'distance') return null;
+  // 상자 안에서 센서에 가장 가까운 점과 가장 먼 꼭짓점
+  const near = [0, 1, 2].map(axis => Math.min(Math.max(sensor[axis], min[axis]), max[axis]) - sensor[axis]);
+  const far = [0, 1, 2].map(axis => Math.max(Math.abs(min[axis] - sensor[axis]), Math.abs(max[axis] - sensor[axis])));
+  return [Math.hypot(near[0], near[1], near[2]), Math.hypot(far[0], far[1], far[2])];
+};
+
+// 필드 값을 컬러맵으로 칠한 색상 배열 (0 ~ 255, r, g, b 반복); 원본 colors는 건드리지 않음
+export const colorByScalar = (
+  cloud: PointCloudData,
+  coloring: ScalarColoring,
+  sensor?: [number, number, number]
+): Uint8Array | null => {
+  const read = scalarReader(cloud, coloring.field, sensor);
+  if (!read) return null;
+  const colors = new Uint8Array(cloud.count * 3);
+
+  if (coloring.colormap === 'categorical') {
+    for (let i = 0; i < cloud.count; i++) {
+      colors.set(categoricalColor(read(i)), i * 3);
+    }
+    return colors;
+  }
+
+  // 256단계 색표를 미리 만들어 점마다 보간하지 않음
+  const { colormap, min, max } = coloring;
+  const table = new Uint8Array(256 * 3);
+  for (let step = 0; step < 256; step++) {
+    table.set(sampleColormap(colormap, step / 255), step * 3);
+  }
+  const scale = max > min ? 255 / (max - min) : 0;
+  for (let i = 0; i < cloud.count; i++) {
+    const value = read(i);
+    const step = Number.isNaN(value) ? 0 : Math.min(Math.max(Math.round((value - min) * scale), 0), 255);
+    colors[i * 3] = table[step * 3];
+    colors[i * 3 + 1] = table[step * 3 + 1];
+    colors[i * 3 + 2] = table[step * 3 + 2];
+  }
+  return colors;
+};
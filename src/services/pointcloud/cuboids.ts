@@ -0,0 +1,121 @@
+// 3D 상자 라벨 (좌표는 원래 좌표, z가 위)
+export interface Cuboid {
+  id: number;
+  // 라벨을 단 클라우드 (레이어 이름); 라벨 파일은 클라우드마다 하나
+  cloud: string;
+  label: string;
+  // 여러 프레임에서 같은 물체를 잇는 번호; 없으면 null
+  trackId: number | null;
+  center: [number, number, number];
+  // [길이(진행 방향), 폭, 높이]
+  size: [number, number, number];
+  // z축 회전 (라디안, 진행 방향이 +x일 때 0)
+  yaw: number;
+}
+
+// 파일에서 읽은 상자 (id와 클라우드는 불러오는 쪽에서 정함)
+export type CuboidFields = Omit<Cuboid, 'id' | 'cloud'>;
+
+// KITTI object 클래스
+export const CUBOID_CLASSES = ['Car', 'Van', 'Truck', 'Pedestrian', 'Person_sitting', 'Cyclist', 'Tram', 'Misc'];
+
+// 새 상자의 클래스별 기본 크기 (KITTI 평균 크기 근처)
+const DEFAULT_CUBOID_SIZES: Record<string, [number, number, number]> = {
+  Car: [3.9, 1.6, 1.56],
+  Van: [5.1, 1.9, 2.2],
+  Truck: [10.1, 2.6, 3.3],
+  Pedestrian: [0.8, 0.6, 1.75],
+  Person_sitting: [0.8, 0.6, 1.3],
+  Cyclist: [1.8, 0.6, 1.7],
+  Tram: [16, 2.5, 3.5],
+};
+
+export const defaultCuboidSize = (label: string): [number, number, number] => [...(DEFAULT_CUBOID_SIZES[label] ?? [1, 1, 1])] as [number, number, number];
+
+// 점(원래 좌표)이 상자 안에 있는지
+export const pointInCuboid = ({ center, size, yaw }: Cuboid | CuboidFields, point: [number, number, number]): boolean => {
+  const dx = point[0] - center[0];
+  const dy = point[1] - center[1];
+  const cos = Math.cos(yaw);
+  const sin = Math.sin(yaw);
+  return Math.abs(dx * cos + dy * sin) <= size[0] / 2
+    && Math.abs(-dx * sin + dy * cos) <= size[1] / 2
+    && Math.abs(point[2] - center[2]) <= size[2] / 2;
+};
+
+// [-π, π)로
+const wrapAngle = (angle: number) => angle - 2 * Math.PI * Math.floor((angle + Math.PI) / (2 * Math.PI));
+
+// KITTI label_2 한 줄: type truncated occluded alpha bbox(4) h w l x y z rotation_y
+// 좌표는 카메라 좌표(x 오른쪽, y 아래, z 앞)이고 위치는 상자 바닥 중심
+// 보정 파일이 없으므로 LiDAR -> 카메라 변환은 축만 바꿈 (x_cam = -y, y_cam = -z, z_cam = x)
+// 2D 상자는 이미지가 없어 0으로 두고, label_2에는 트랙 ID 칸이 없어 JSON에만 저장
+export const formatKittiLabels = (cuboids: CuboidFields[]): string => {
+  const lines = cuboids.map(({ label, center, size, yaw }) => {
+    const [l, w, h] = size;
+    const x = -center[1];
+    const y = -(center[2] - h / 2);
+    const z = center[0];
+    const rotationY = wrapAngle(-yaw - Math.PI / 2);
+    const alpha = wrapAngle(rotationY - Math.atan2(x, z));
+    const type = label.trim().replace(/\s+/g, '_') || 'Misc';
+    return [type, '0.00', '0', alpha, 0, 0, 0, 0, h, w, l, x, y, z, rotationY]
+      .map(value => (typeof value === 'number' ? value.toFixed(2) : value))
+      .join(' ');
+  });
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+};
+
+// KITTI label_2 텍스트에서 상자를 읽음 (DontCare는 건너뜀)
+export const parseKittiLabels = (text: string): CuboidFields[] => {
+  const cuboids: CuboidFields[] = [];
+  text.split(/\r?\n/).forEach((line, lineIndex) => {
+    const fields = line.trim().split(/\s+/);
+    if (fields[0] === '' || fields[0] === 'DontCare') return;
+    const values = fields.slice(1, 15).map(Number);
+    if (values.length < 14 || values.some(value => !Number.isFinite(value))) {
+      throw new Error(`Invalid KITTI label on line ${lineIndex + 1}`);
+    }
+    const [h, w, l, x, y, z, rotationY] = values.slice(7);
+    cuboids.push({
+      label: fields[0],
+      trackId: null,
+      center: [z, -x, -y + h / 2],
+      size: [l, w, h],
+      yaw: wrapAngle(-rotationY - Math.PI / 2),
+    });
+  });
+  return cuboids;
+};
+
+interface CuboidFile {
+  cloud: string;
+  boxes: CuboidFields[];
+}
+
+export const formatCuboidJson = (cloud: string, cuboids: CuboidFields[]): string => {
+  const file: CuboidFile = {
+    cloud,
+    boxes: cuboids.map(({ label, trackId, center, size, yaw }) => ({ label, trackId, center, size, yaw })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isVector = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(Number.isFinite);
+
+// formatCuboidJson으로 저장한 파일을 읽음 (cloud는 저장할 때의 클라우드 이름)
+export const parseCuboidJson = (text: string): { cloud: string | null; cuboids: CuboidFields[] } => {
+  const file = JSON.parse(text) as Partial<CuboidFile>;
+  if (!file || !Array.isArray(file.boxes)) {
+    throw new Error('Invalid label JSON: missing "boxes"');
+  }
+  const cuboids = file.boxes.map((box, i): CuboidFields => {
+    const { label, trackId, center, size, yaw } = box as Partial<CuboidFields>;
+    if (typeof label !== 'string' || !isVector(center) || !isVector(size) || !Number.isFinite(yaw)) {
+      throw new Error(`Invalid label JSON: box ${i + 1}`);
+    }
+    return { label, trackId: Number.isInteger(trackId) ? trackId! : null, center, size, yaw: yaw! };
+  });
+  return { cloud: typeof file.cloud === 'string' ? file.cloud : null, cuboids };
+};
@@ -0,0 +1,221 @@
+import { AttributeArray, AttributeArrayType, PointCloudBounds, PointCloudData, PointRecord } from './types';
+
+// 첫 점의 좌표가 이보다 크면 그 근처를 offset으로 잡음
+const OFFSET_THRESHOLD = 1e4;
+
+export interface PointCloudLayout {
+  color?: boolean;
+  normal?: boolean;
+  // 속성 이름 -> 배열 타입
+  attributes?: Record<string, AttributeArrayType>;
+  // 좌표 원점을 직접 지정 (없으면 첫 점 근처로 자동 선택)
+  offset?: [number, number, number];
+}
+
+export interface PointCloudBuilder {
+  // 점을 추가하고 인덱스를 돌려줌
+  add: (x: number, y: number, z: number) => number;
+  // 0 ~ 255 (범위를 벗어나면 잘라냄)
+  setColor: (index: number, r: number, g: number, b: number) => void;
+  setNormal: (index: number, x: number, y: number, z: number) => void;
+  setAttribute: (name: string, index: number, value: number) => void;
+  build: () => PointCloudData;
+}
+
+const resize = <T extends AttributeArray>(array: T, length: number): T => {
+  const resized = new (array.constructor as new (length: number) => T)(length);
+  resized.set(array.length > length ? array.subarray(0, length) : array);
+  return resized;
+};
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+// 파서가 점을 하나씩 채워 넣는 빌더 (capacity를 넘으면 두 배로 늘리고 build 시 개수에 맞춰 자름)
+export const createPointCloudBuilder = (layout: PointCloudLayout = {}, capacity = 1024): PointCloudBuilder => {
+  let size = Math.max(1, capacity);
+  let count = 0;
+  let positions = new Float32Array(size * 3);
+  let colors = layout.color ? new Uint8Array(size * 3) : null;
+  let normals = layout.normal ? new Float32Array(size * 3) : null;
+  const attributes: Record<string, AttributeArray> = {};
+  for (const [name, Type] of Object.entries(layout.attributes || {})) {
+    attributes[name] = new Type(size);
+  }
+
+  let offset: [number, number, number] | null = layout.offset ?? null;
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+  const reallocate = (length: number) => {
+    size = length;
+    positions = resize(positions, size * 3);
+    if (colors) colors = resize(colors, size * 3);
+    if (normals) normals = resize(normals, size * 3);
+    for (const name in attributes) {
+      attributes[name] = resize(attributes[name], size);
+    }
+  };
+
+  return {
+    add: (x, y, z) => {
+      if (!offset) {
+        offset = [x, y, z].map(v => (Math.abs(v) >= OFFSET_THRESHOLD ? Math.round(v) : 0)) as [number, number, number];
+      }
+      if (count === size) reallocate(size * 2);
+
+      const base = count * 3;
+      positions[base] = x - offset[0];
+      positions[base + 1] = y - offset[1];
+      positions[base + 2] = z - offset[2];
+      for (let axis = 0; axis < 3; axis++) {
+        const value = positions[base + axis];
+        if (value < min[axis]) min[axis] = value;
+        if (value > max[axis]) max[axis] = value;
+      }
+      return count++;
+    },
+    setColor: (index, r, g, b) => {
+      colors![index * 3] = clampByte(r);
+      colors![index * 3 + 1] = clampByte(g);
+      colors![index * 3 + 2] = clampByte(b);
+    },
+    setNormal: (index, x, y, z) => {
+      normals![index * 3] = x;
+      normals![index * 3 + 1] = y;
+      normals![index * 3 + 2] = z;
+    },
+    setAttribute: (name, index, value) => {
+      attributes[name][index] = value;
+    },
+    build: () => {
+      if (count < size) reallocate(count);
+      return {
+        count,
+        positions,
+        offset: offset || [0, 0, 0],
+        colors,
+        normals,
+        attributes,
+        bounds: count > 0 ? { min, max } : { min: [0, 0, 0], max: [0, 0, 0] },
+      };
+    },
+  };
+};
+
+export const computeBounds = (positions: Float32Array): PointCloudBounds => {
+  if (positions.length === 0) return { min: [0, 0, 0], max: [0, 0, 0] };
+
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      const value = positions[i + axis];
+      if (value < min[axis]) min[axis] = value;
+      if (value > max[axis]) max[axis] = value;
+    }
+  }
+  return { min, max };
+};
+
+export const getPoint = (cloud: PointCloudData, index: number): PointRecord => {
+  const base = index * 3;
+  const point: PointRecord = {
+    x: cloud.positions[base] + cloud.offset[0],
+    y: cloud.positions[base + 1] + cloud.offset[1],
+    z: cloud.positions[base + 2] + cloud.offset[2],
+    attributes: {},
+  };
+  if (cloud.colors) {
+    point.color = [cloud.colors[base], cloud.colors[base + 1], cloud.colors[base + 2]];
+  }
+  if (cloud.normals) {
+    point.normal = [cloud.normals[base], cloud.normals[base + 1], cloud.normals[base + 2]];
+  }
+  for (const name in cloud.attributes) {
+    point.attributes[name] = cloud.attributes[name][index];
+  }
+  return point;
+};
+
+// indices 순서대로 점을 골라 새 클라우드로 복사 (offset은 그대로)
+export const selectPoints = (cloud: PointCloudData, indices: ArrayLike<number>): PointCloudData => {
+  const count = indices.length;
+  const positions = new Float32Array(count * 3);
+  const colors = cloud.colors && new Uint8Array(count * 3);
+  const normals = cloud.normals && new Float32Array(count * 3);
+  const attributes: Record<string, AttributeArray> = {};
+  for (const name in cloud.attributes) {
+    const source = cloud.attributes[name];
+    const values = new (source.constructor as AttributeArrayType)(count);
+    for (let i = 0; i < count; i++) values[i] = source[indices[i]];
+    attributes[name] = values;
+  }
+
+  for (let i = 0; i < count; i++) {
+    const from = indices[i] * 3;
+    const to = i * 3;
+    for (let k = 0; k < 3; k++) {
+      positions[to + k] = cloud.positions[from + k];
+      if (colors) colors[to + k] = cloud.colors![from + k];
+      if (normals) normals[to + k] = cloud.normals![from + k];
+    }
+  }
+
+  const selected: PointCloudData = {
+    count,
+    positions,
+    offset: cloud.offset,
+    colors,
+    normals,
+    attributes,
+    bounds: computeBounds(positions),
+  };
+  if (cloud.sensor) selected.sensor = cloud.sensor;
+  return selected;
+};
+
+// 여러 클라우드를 하나로 합침 (첫 클라우드의 offset 기준)
+// 색상/법선/속성이 없는 클라우드의 값은 흰색/0으로 채움
+export const concatPointClouds = (clouds: PointCloudData[]): PointCloudData => {
+  if (clouds.length === 1) return clouds[0];
+
+  const count = clouds.reduce((sum, cloud) => sum + cloud.count, 0);
+  const offset = clouds[0]?.offset ?? [0, 0, 0];
+  const positions = new Float32Array(count * 3);
+  const colors = clouds.some(cloud => cloud.colors) ? new Uint8Array(count * 3).fill(255) : null;
+  const normals = clouds.some(cloud => cloud.normals) ? new Float32Array(count * 3) : null;
+  const attributes: Record<string, AttributeArray> = {};
+  for (const cloud of clouds) {
+    for (const name in cloud.attributes) {
+      if (!attributes[name]) {
+        attributes[name] = new (cloud.attributes[name].constructor as AttributeArrayType)(count);
+      }
+    }
+  }
+
+  let start = 0;
+  for (const cloud of clouds) {
+    if (cloud.offset.every((value, axis) => value === offset[axis])) {
+      positions.set(cloud.positions, start * 3);
+    } else {
+      const delta = cloud.offset.map((value, axis) => value - offset[axis]);
+      for (let i = 0; i < cloud.positions.length; i++) {
+        positions[start * 3 + i] = cloud.positions[i] + delta[i % 3];
+      }
+    }
+    if (colors && cloud.colors) colors.set(cloud.colors, start * 3);
+    if (normals && cloud.normals) normals.set(cloud.normals, start * 3);
+    for (const name in cloud.attributes) {
+      attributes[name].set(cloud.attributes[name], start);
+    }
+    start += cloud.count;
+  }
+
+  return { count, positions, offset, colors, normals, attributes, bounds: computeBounds(positions) };
+};
+
+// postMessage의 transfer 목록
+export const transferablesOf = (cloud: PointCloudData): ArrayBuffer[] => {
+  const arrays = [cloud.positions, cloud.colors, cloud.normals, ...Object.values(cloud.attributes)];
+  return arrays.flatMap(array => (array ? [array.buffer as ArrayBuffer] : []));
+};
@@ -0,0 +1,387 @@
+import * as THREE from 'three';
+import { createPointCloudBuilder } from './data';
+import { AttributeArrayType, PROGRESS_INTERVAL, PointCloudData, ProgressCallback } from './types';
+
+export interface E57Scan {
+  name: string;
+  cloud: PointCloudData;
+}
+
+interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+interface PrototypeField {
+  name: string;
+  type: 'Float' | 'ScaledInteger' | 'Integer';
+  // Float: 4 또는 8 바이트
+  byteSize: number;
+  minimum: number;
+  maximum: number;
+  scale: number;
+  offset: number;
+  // Integer / ScaledInteger의 비트 폭 (minimum ~ maximum 표현에 필요한 비트 수)
+  bits: number;
+}
+
+const FILE_HEADER_SIZE = 48;
+const CHECKSUM_SIZE = 4;
+
+// 좌표/색상/유효성 필드 이외의 숫자 필드는 attributes로 보존
+const GEOMETRY_FIELDS = [
+  'cartesianX', 'cartesianY', 'cartesianZ', 'cartesianInvalidState',
+  'sphericalRange', 'sphericalAzimuth', 'sphericalElevation', 'sphericalInvalidState',
+  'colorRed', 'colorGreen', 'colorBlue', 'isColorInvalid',
+];
+
+// 필드 값 범위에 맞는 attributes 배열 타입
+const attributeType = (field: PrototypeField): AttributeArrayType => {
+  if (field.type === 'Float') return field.byteSize === 4 ? Float32Array : Float64Array;
+  if (field.type === 'Integer') {
+    if (field.minimum >= 0 && field.maximum <= 0xff) return Uint8Array;
+    if (field.minimum >= 0 && field.maximum <= 0xffff) return Uint16Array;
+    if (field.minimum >= -0x80000000 && field.maximum <= 0x7fffffff) return Int32Array;
+  }
+  return Float64Array;
+};
+
+export const isE57 = (fileName: string): boolean => /\.e57$/i.test(fileName);
+
+// CRC-32C (Castagnoli) - E57 페이지 체크섬
+const CRC32C_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x82f63b78 : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+export const crc32c = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC32C_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+  if (entity[0] === '#') {
+    return String.fromCodePoint(entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1)));
+  }
+  return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[entity.toLowerCase()]!;
+});
+
+// E57 XML 섹션용 최소 XML 파서 (Worker/Node에서도 동작하도록 DOMParser 미사용)
+const parseXml = (xml: string): XmlNode => {
+  const root: XmlNode = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  const tokenPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+  const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(xml))) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closeName, openName, attributeText, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closeName !== undefined) {
+      if (stack.length === 1 || current.name !== closeName) {
+        throw new Error(`Invalid E57 XML: unexpected </${closeName}>`);
+      }
+      stack.pop();
+    } else if (openName !== undefined) {
+      const node: XmlNode = { name: openName, attributes: {}, children: [], text: '' };
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(attributeText))) {
+        node.attributes[attribute[1]] = decodeEntities(attribute[3] ?? attribute[4]);
+      }
+      current.children.push(node);
+      if (!selfClosing) stack.push(node);
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    }
+  }
+
+  if (stack.length !== 1 || root.children.length !== 1) {
+    throw new Error('Invalid E57 XML: unbalanced elements');
+  }
+  return root.children[0];
+};
+
+const child = (node: XmlNode | undefined, name: string) => node?.children.find(c => c.name === name);
+
+const numberValue = (node: XmlNode | undefined, fallback = 0): number => {
+  const text = node?.text.trim();
+  return text ? Number(text) : fallback;
+};
+
+// 물리 파일에서 각 페이지 끝의 CRC를 제거한 논리 바이트열 생성
+const toLogicalBytes = (bytes: Uint8Array, pageSize: number, verifyChecksums: boolean): Uint8Array => {
+  const logicalPageSize = pageSize - CHECKSUM_SIZE;
+  const pageCount = Math.floor(bytes.length / pageSize);
+  const logical = new Uint8Array(pageCount * logicalPageSize);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  for (let page = 0; page < pageCount; page++) {
+    const start = page * pageSize;
+    const data = bytes.subarray(start, start + logicalPageSize);
+    if (verifyChecksums) {
+      const crc = crc32c(data);
+      // 구현에 따라 체크섬 바이트 순서가 다르므로 양쪽 모두 허용
+      const stored = view.getUint32(start + logicalPageSize, false);
+      if (crc !== stored && crc !== view.getUint32(start + logicalPageSize, true)) {
+        throw new Error(`Invalid E57 file: checksum mismatch on page ${page}`);
+      }
+    }
+    logical.set(data, page * logicalPageSize);
+  }
+  return logical;
+};
+
+const readPrototype = (prototype: XmlNode): PrototypeField[] => {
+  return prototype.children.map(node => {
+    const type = node.attributes.type;
+    if (type !== 'Float' && type !== 'ScaledInteger' && type !== 'Integer') {
+      throw new Error(`Unsupported E57 point field type: ${node.name} (${type})`);
+    }
+    const minimum = Number(node.attributes.minimum ?? 0);
+    const maximum = Number(node.attributes.maximum ?? 0);
+    if (type !== 'Float' && (node.attributes.minimum === undefined || node.attributes.maximum === undefined)) {
+      throw new Error(`Unsupported E57 point field: ${node.name} has no integer bounds`);
+    }
+    return {
+      name: node.name,
+      type,
+      byteSize: node.attributes.precision === 'single' ? 4 : 8,
+      minimum,
+      maximum,
+      scale: Number(node.attributes.scale ?? 1),
+      offset: Number(node.attributes.offset ?? 0),
+      bits: type === 'Float' ? 0 : Math.ceil(Math.log2(maximum - minimum + 1)),
+    };
+  });
+};
+
+// 비트 단위로 LSB부터 채워진 정수 읽기 (최대 53비트)
+const readBits = (bytes: Uint8Array, bitOffset: number, bits: number): number => {
+  let value = 0;
+  let multiplier = 1;
+  let read = 0;
+  while (read < bits) {
+    const position = bitOffset + read;
+    const shift = position & 7;
+    const take = Math.min(8 - shift, bits - read);
+    value += ((bytes[position >> 3] >> shift) & ((1 << take) - 1)) * multiplier;
+    multiplier *= 2 ** take;
+    read += take;
+  }
+  return value;
+};
+
+// CompressedVector 바이너리 섹션을 필드별 값 배열로 디코딩
+const readCompressedVector = (
+  logical: Uint8Array,
+  toLogicalOffset: (physical: number) => number,
+  fileOffset: number,
+  fields: PrototypeField[],
+  recordCount: number
+): Float64Array[] => {
+  const view = new DataView(logical.buffer, logical.byteOffset, logical.byteLength);
+  const sectionStart = toLogicalOffset(fileOffset);
+  if (view.getUint8(sectionStart) !== 1) {
+    throw new Error('Invalid E57 file: CompressedVector section expected');
+  }
+  const sectionEnd = sectionStart + Number(view.getBigUint64(sectionStart + 8, true));
+  let position = toLogicalOffset(Number(view.getBigUint64(sectionStart + 16, true)));
+
+  // 각 필드는 하나의 bytestream이며, 데이터 패킷마다 조각으로 나뉘어 있음
+  const chunks: Uint8Array[][] = fields.map(() => []);
+  while (position < sectionEnd) {
+    const packetType = view.getUint8(position);
+    const packetLength = view.getUint16(position + 2, true) + 1;
+    if (packetType === 1) {
+      const streamCount = view.getUint16(position + 4, true);
+      if (streamCount !== fields.length) {
+        throw new Error('Invalid E57 file: bytestream count does not match the prototype');
+      }
+      let bufferStart = position + 6 + streamCount * 2;
+      for (let s = 0; s < streamCount; s++) {
+        const length = view.getUint16(position + 6 + s * 2, true);
+        chunks[s].push(logical.subarray(bufferStart, bufferStart + length));
+        bufferStart += length;
+      }
+    } else if (packetType !== 0 && packetType !== 2) {
+      throw new Error(`Invalid E57 file: unknown packet type ${packetType}`);
+    }
+    position += packetLength;
+  }
+
+  return fields.map((field, f) => {
+    const total = chunks[f].reduce((sum, chunk) => sum + chunk.length, 0);
+    const stream = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks[f]) {
+      stream.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    const values = new Float64Array(recordCount);
+    if (field.type === 'Float') {
+      if (total < recordCount * field.byteSize) {
+        throw new Error(`Invalid E57 file: bytestream for ${field.name} is truncated`);
+      }
+      const streamView = new DataView(stream.buffer);
+      for (let i = 0; i < recordCount; i++) {
+        values[i] = field.byteSize === 4
+          ? streamView.getFloat32(i * 4, true)
+          : streamView.getFloat64(i * 8, true);
+      }
+    } else {
+      if (total * 8 < recordCount * field.bits) {
+        throw new Error(`Invalid E57 file: bytestream for ${field.name} is truncated`);
+      }
+      const scale = field.type === 'ScaledInteger' ? field.scale : 1;
+      const offset = field.type === 'ScaledInteger' ? field.offset : 0;
+      for (let i = 0; i < recordCount; i++) {
+        const raw = readBits(stream, i * field.bits, field.bits) + field.minimum;
+        values[i] = raw * scale + offset;
+      }
+    }
+    return values;
+  });
+};
+
+// E57 파일 파싱 함수: data3D의 스캔마다 하나의 E57Scan (pose 적용)
+export const parseE57 = (arrayBuffer: ArrayBuffer, verifyChecksums = true, onProgress?: ProgressCallback): E57Scan[] => {
+  if (arrayBuffer.byteLength < FILE_HEADER_SIZE) {
+    throw new Error('Invalid E57 file: header is truncated');
+  }
+  const bytes = new Uint8Array(arrayBuffer);
+  const headerView = new DataView(arrayBuffer);
+  if (new TextDecoder().decode(bytes.subarray(0, 8)) !== 'ASTM-E57') {
+    throw new Error('Invalid E57 file: missing "ASTM-E57" signature');
+  }
+  const majorVersion = headerView.getUint32(8, true);
+  if (majorVersion !== 1) {
+    throw new Error(`Unsupported E57 version: ${majorVersion}`);
+  }
+  const xmlPhysicalOffset = Number(headerView.getBigUint64(24, true));
+  const xmlLogicalLength = Number(headerView.getBigUint64(32, true));
+  const pageSize = Number(headerView.getBigUint64(40, true));
+  if (pageSize <= CHECKSUM_SIZE || arrayBuffer.byteLength % pageSize !== 0) {
+    throw new Error('Invalid E57 file: file length is not a multiple of the page size');
+  }
+
+  const logical = toLogicalBytes(bytes, pageSize, verifyChecksums);
+  const toLogicalOffset = (physical: number) => Math.floor(physical / pageSize) * (pageSize - CHECKSUM_SIZE) + (physical % pageSize);
+
+  const xmlStart = toLogicalOffset(xmlPhysicalOffset);
+  const root = parseXml(new TextDecoder().decode(logical.subarray(xmlStart, xmlStart + xmlLogicalLength)));
+  const data3D = child(root, 'data3D');
+
+  const scans = data3D?.children || [];
+  return scans.map((scan, index) => {
+    const pointsNode = child(scan, 'points');
+    const prototype = child(pointsNode, 'prototype');
+    if (!pointsNode || !prototype || pointsNode.attributes.type !== 'CompressedVector') {
+      throw new Error(`Invalid E57 file: scan ${index} has no points`);
+    }
+    const fields = readPrototype(prototype);
+    const recordCount = Number(pointsNode.attributes.recordCount);
+    const columns = readCompressedVector(logical, toLogicalOffset, Number(pointsNode.attributes.fileOffset), fields, recordCount);
+    const column = (name: string) => columns[fields.findIndex(field => field.name === name)];
+
+    const x = column('cartesianX');
+    const y = column('cartesianY');
+    const z = column('cartesianZ');
+    const range = column('sphericalRange');
+    const azimuth = column('sphericalAzimuth');
+    const elevation = column('sphericalElevation');
+    const hasCartesian = x && y && z;
+    if (!hasCartesian && !(range && azimuth && elevation)) {
+      throw new Error(`Invalid E57 file: scan ${index} has no cartesian or spherical coordinates`);
+    }
+    const invalidState = hasCartesian ? column('cartesianInvalidState') : column('sphericalInvalidState');
+
+    // 색상은 채널마다 colorLimits (없으면 그 채널의 prototype 범위) 기준으로 0~255로 정규화
+    const red = column('colorRed');
+    const green = column('colorGreen');
+    const blue = column('colorBlue');
+    const colorInvalid = column('isColorInvalid');
+    const colorLimits = child(scan, 'colorLimits');
+    const channelScale = (channel: 'Red' | 'Green' | 'Blue') => {
+      const prototypeField = fields.find(field => field.name === `color${channel}`);
+      const min = numberValue(child(colorLimits, `color${channel}Minimum`), prototypeField?.minimum ?? 0);
+      const max = numberValue(child(colorLimits, `color${channel}Maximum`), prototypeField?.maximum || 255);
+      const range = max - min || 1;
+      return (value: number) => Math.round(((value - min) / range) * 255);
+    };
+    const scaleRed = channelScale('Red');
+    const scaleGreen = channelScale('Green');
+    const scaleBlue = channelScale('Blue');
+
+    const attributeFields = fields.filter(field => !GEOMETRY_FIELDS.includes(field.name));
+    const attributeColumns = attributeFields.map(field => ({ name: field.name, values: column(field.name) }));
+
+    // pose: 스캔 좌표계 -> 파일 좌표계
+    const pose = child(scan, 'pose');
+    const rotation = child(pose, 'rotation');
+    const translation = child(pose, 'translation');
+    const quaternion = new THREE.Quaternion(
+      numberValue(child(rotation, 'x')),
+      numberValue(child(rotation, 'y')),
+      numberValue(child(rotation, 'z')),
+      numberValue(child(rotation, 'w'), 1)
+    ).normalize();
+    const offset = new THREE.Vector3(
+      numberValue(child(translation, 'x')),
+      numberValue(child(translation, 'y')),
+      numberValue(child(translation, 'z'))
+    );
+    const position = new THREE.Vector3();
+
+    const builder = createPointCloudBuilder({
+      color: !!(red && green && blue),
+      attributes: Object.fromEntries(attributeFields.map(field => [field.name, attributeType(field)])),
+    }, recordCount);
+    for (let i = 0; i < recordCount; i++) {
+      if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress((index + i / recordCount) / scans.length);
+      // 0: 유효, 1: 방향만 유효, 2: 무효
+      if (invalidState && invalidState[i] !== 0) continue;
+
+      if (hasCartesian) {
+        position.set(x[i], y[i], z[i]);
+      } else {
+        const horizontal = range[i] * Math.cos(elevation[i]);
+        position.set(horizontal * Math.cos(azimuth[i]), horizontal * Math.sin(azimuth[i]), range[i] * Math.sin(elevation[i]));
+      }
+      if (pose) position.applyQuaternion(quaternion).add(offset);
+
+      const pointIndex = builder.add(position.x, position.y, position.z);
+      if (red && green && blue) {
+        // 색상이 무효인 점은 회색
+        if (colorInvalid && colorInvalid[i]) {
+          builder.setColor(pointIndex, 128, 128, 128);
+        } else {
+          builder.setColor(pointIndex, scaleRed(red[i]), scaleGreen(green[i]), scaleBlue(blue[i]));
+        }
+      }
+      for (const { name, values } of attributeColumns) {
+        builder.setAttribute(name, pointIndex, values[i]);
+      }
+    }
+
+    const name = child(scan, 'name')?.text.trim();
+    const cloud = builder.build();
+    if (pose) cloud.sensor = [offset.x, offset.y, offset.z];
+    return { name: name || `Scan ${index + 1}`, cloud };
+  });
+};
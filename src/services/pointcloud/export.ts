@@ -0,0 +1,249 @@
+import { lzfCompress } from './lzf';
+import { AttributeArray, PointCloudData } from './types';
+
+export type PCDDataFormat = 'ascii' | 'binary' | 'binary_compressed';
+export type ExportFormat = 'pcd_ascii' | 'pcd_binary' | 'pcd_binary_compressed' | 'ply' | 'xyz';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: 'pcd_binary', label: 'PCD (binary)', extension: 'pcd' },
+  { value: 'pcd_binary_compressed', label: 'PCD (binary_compressed)', extension: 'pcd' },
+  { value: 'pcd_ascii', label: 'PCD (ascii)', extension: 'pcd' },
+  { value: 'ply', label: 'PLY (binary)', extension: 'ply' },
+  { value: 'xyz', label: 'XYZ (text)', extension: 'xyz' },
+];
+
+type ScalarType = 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'float64';
+
+// 파일에 쓸 컬럼 하나 (점 인덱스 -> 값)
+interface Column {
+  name: string;
+  type: ScalarType;
+  value: (index: number) => number;
+}
+
+const SCALAR_SIZES: Record<ScalarType, number> = {
+  int8: 1, uint8: 1, int16: 2, uint16: 2, int32: 4, uint32: 4, float32: 4, float64: 8,
+};
+
+const PCD_TYPES: Record<ScalarType, string> = {
+  int8: 'I', uint8: 'U', int16: 'I', uint16: 'U', int32: 'I', uint32: 'U', float32: 'F', float64: 'F',
+};
+
+const PLY_TYPES: Record<ScalarType, string> = {
+  int8: 'char', uint8: 'uchar', int16: 'short', uint16: 'ushort',
+  int32: 'int', uint32: 'uint', float32: 'float', float64: 'double',
+};
+
+const scalarTypeOf = (array: AttributeArray): ScalarType => {
+  if (array instanceof Int8Array) return 'int8';
+  if (array instanceof Uint8Array) return 'uint8';
+  if (array instanceof Int16Array) return 'int16';
+  if (array instanceof Uint16Array) return 'uint16';
+  if (array instanceof Int32Array) return 'int32';
+  if (array instanceof Uint32Array) return 'uint32';
+  if (array instanceof Float32Array) return 'float32';
+  return 'float64';
+};
+
+// offset이 있으면 원래 좌표의 정밀도를 위해 float64로 저장
+const positionColumns = (cloud: PointCloudData): Column[] => {
+  const type: ScalarType = cloud.offset.some(value => value !== 0) ? 'float64' : 'float32';
+  return ['x', 'y', 'z'].map((name, axis) => ({
+    name,
+    type,
+    value: (i: number) => cloud.positions[i * 3 + axis] + cloud.offset[axis],
+  }));
+};
+
+const normalColumns = (cloud: PointCloudData, names: string[]): Column[] => {
+  const normals = cloud.normals;
+  if (!normals) return [];
+  return names.map((name, axis) => ({ name, type: 'float32', value: (i: number) => normals[i * 3 + axis] }));
+};
+
+const colorColumns = (cloud: PointCloudData, names: string[]): Column[] => {
+  const colors = cloud.colors;
+  if (!colors) return [];
+  return names.map((name, channel) => ({ name, type: 'uint8', value: (i: number) => colors[i * 3 + channel] }));
+};
+
+const attributeColumns = (cloud: PointCloudData): Column[] => {
+  return Object.entries(cloud.attributes).map(([name, values]) => ({
+    name,
+    type: scalarTypeOf(values),
+    value: (i: number) => values[i],
+  }));
+};
+
+// PCL과 같이 0x00RRGGBB 비트를 float로 재해석한 rgb 필드
+const packedRgbColumn = (cloud: PointCloudData): Column[] => {
+  const colors = cloud.colors;
+  if (!colors) return [];
+  const view = new DataView(new ArrayBuffer(4));
+  return [{
+    name: 'rgb',
+    type: 'float32',
+    value: (i: number) => {
+      view.setUint32(0, (colors[i * 3] << 16) | (colors[i * 3 + 1] << 8) | colors[i * 3 + 2]);
+      return view.getFloat32(0);
+    },
+  }];
+};
+
+const writeScalar = (view: DataView, offset: number, type: ScalarType, value: number) => {
+  switch (type) {
+    case 'int8': return view.setInt8(offset, value);
+    case 'uint8': return view.setUint8(offset, value);
+    case 'int16': return view.setInt16(offset, value, true);
+    case 'uint16': return view.setUint16(offset, value, true);
+    case 'int32': return view.setInt32(offset, value, true);
+    case 'uint32': return view.setUint32(offset, value, true);
+    case 'float32': return view.setFloat32(offset, value, true);
+    default: return view.setFloat64(offset, value, true);
+  }
+};
+
+// float32 값은 다시 읽었을 때 같은 값이 되는 가장 짧은 표현으로
+const formatValue = (value: number, type: ScalarType) => {
+  if (type !== 'float32' || !Number.isFinite(value)) return String(value);
+  for (let digits = 6; digits < 9; digits++) {
+    const text = value.toPrecision(digits);
+    if (Math.fround(Number(text)) === Math.fround(value)) return String(Number(text));
+  }
+  return String(Number(value.toPrecision(9)));
+};
+
+const textRows = (cloud: PointCloudData, columns: Column[]) => {
+  const lines: string[] = new Array(cloud.count);
+  for (let i = 0; i < cloud.count; i++) {
+    lines[i] = columns.map(column => formatValue(column.value(i), column.type)).join(' ');
+  }
+  return lines;
+};
+
+export const writePCD = (cloud: PointCloudData, data: PCDDataFormat): Uint8Array => {
+  const columns = [
+    ...positionColumns(cloud),
+    ...packedRgbColumn(cloud),
+    ...normalColumns(cloud, ['normal_x', 'normal_y', 'normal_z']),
+    ...attributeColumns(cloud),
+  ];
+
+  const header = [
+    '# .PCD v0.7 - Point Cloud Data file format',
+    'VERSION 0.7',
+    `FIELDS ${columns.map(column => column.name).join(' ')}`,
+    `SIZE ${columns.map(column => SCALAR_SIZES[column.type]).join(' ')}`,
+    `TYPE ${columns.map(column => PCD_TYPES[column.type]).join(' ')}`,
+    `COUNT ${columns.map(() => 1).join(' ')}`,
+    `WIDTH ${cloud.count}`,
+    'HEIGHT 1',
+    'VIEWPOINT 0 0 0 1 0 0 0',
+    `POINTS ${cloud.count}`,
+    `DATA ${data}`,
+    '',
+  ].join('\n');
+  const headerBytes = new TextEncoder().encode(header);
+
+  if (data === 'ascii') {
+    const body = textRows(cloud, columns).join('\n');
+    return concatBytes([headerBytes, new TextEncoder().encode(cloud.count ? `${body}\n` : '')]);
+  }
+
+  const pointSize = columns.reduce((sum, column) => sum + SCALAR_SIZES[column.type], 0);
+  const body = new Uint8Array(cloud.count * pointSize);
+  const view = new DataView(body.buffer);
+
+  // binary는 점 단위(AoS), binary_compressed는 필드 단위(SoA)로 배치
+  let fieldOffset = 0;
+  for (const column of columns) {
+    const size = SCALAR_SIZES[column.type];
+    for (let i = 0; i < cloud.count; i++) {
+      const offset = data === 'binary'
+        ? i * pointSize + fieldOffset
+        : cloud.count * fieldOffset + i * size;
+      writeScalar(view, offset, column.type, column.value(i));
+    }
+    fieldOffset += size;
+  }
+
+  if (data === 'binary') {
+    return concatBytes([headerBytes, body]);
+  }
+
+  const compressed = lzfCompress(body);
+  const sizes = new Uint8Array(8);
+  new DataView(sizes.buffer).setUint32(0, compressed.length, true);
+  new DataView(sizes.buffer).setUint32(4, body.length, true);
+  return concatBytes([headerBytes, sizes, compressed]);
+};
+
+export const writePLY = (cloud: PointCloudData): Uint8Array => {
+  const columns = [
+    ...positionColumns(cloud),
+    ...colorColumns(cloud, ['red', 'green', 'blue']),
+    ...normalColumns(cloud, ['nx', 'ny', 'nz']),
+    ...attributeColumns(cloud),
+  ];
+
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    `element vertex ${cloud.count}`,
+    ...columns.map(column => `property ${PLY_TYPES[column.type]} ${column.name}`),
+    'end_header',
+    '',
+  ].join('\n');
+
+  const vertexSize = columns.reduce((sum, column) => sum + SCALAR_SIZES[column.type], 0);
+  const body = new Uint8Array(cloud.count * vertexSize);
+  const view = new DataView(body.buffer);
+
+  let offset = 0;
+  for (let i = 0; i < cloud.count; i++) {
+    for (const column of columns) {
+      writeScalar(view, offset, column.type, column.value(i));
+      offset += SCALAR_SIZES[column.type];
+    }
+  }
+
+  return concatBytes([new TextEncoder().encode(header), body]);
+};
+
+// 첫 줄은 CloudCompare 방식의 // 주석 헤더 (텍스트 가져오기에서 컬럼 이름으로 인식)
+export const writeXYZ = (cloud: PointCloudData): Uint8Array => {
+  const columns = [
+    ...positionColumns(cloud),
+    ...colorColumns(cloud, ['R', 'G', 'B']),
+    ...normalColumns(cloud, ['Nx', 'Ny', 'Nz']),
+    ...attributeColumns(cloud),
+  ];
+
+  const header = `//${['X', 'Y', 'Z', ...columns.slice(3).map(column => column.name)].join(' ')}`;
+  return new TextEncoder().encode(`${[header].concat(textRows(cloud, columns)).join('\n')}\n`);
+};
+
+export const exportPointCloud = (cloud: PointCloudData, format: ExportFormat): Uint8Array => {
+  switch (format) {
+    case 'pcd_ascii':
+      return writePCD(cloud, 'ascii');
+    case 'pcd_binary':
+      return writePCD(cloud, 'binary');
+    case 'pcd_binary_compressed':
+      return writePCD(cloud, 'binary_compressed');
+    case 'ply':
+      return writePLY(cloud);
+    case 'xyz':
+      return writeXYZ(cloud);
+  }
+};
+
+const concatBytes = (chunks: Uint8Array[]) => {
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
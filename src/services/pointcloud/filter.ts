@@ -0,0 +1,85 @@
+import { scalarRange, scalarReader } from './colormap';
+import { PointCloudData } from './types';
+
+// 필드 값이 [min, max] 안에 있는 점만 남기는 필터 (여러 개면 AND)
+export interface RangeFilter {
+  field: string;
+  min: number;
+  max: number;
+}
+
+export interface Histogram {
+  field: string;
+  min: number;
+  max: number;
+  // 구간마다 점 개수 ([min, max]를 counts.length개로 등분)
+  counts: Uint32Array;
+}
+
+export const DEFAULT_HISTOGRAM_BINS = 64;
+
+// 클라우드마다 distance 기준 센서 위치를 따로 가짐
+export interface ScalarSource {
+  cloud: PointCloudData;
+  sensor?: [number, number, number];
+  // false인 점(지운 점 등)은 세지 않음
+  accept?: (index: number) => boolean;
+}
+
+// 여러 클라우드에 걸친 필드 값 히스토그램; 필드가 있는 클라우드가 없으면 null
+export const computeHistogram = (sources: ScalarSource[], field: string, bins = DEFAULT_HISTOGRAM_BINS): Histogram | null => {
+  const ranges = sources.map(({ cloud, sensor, accept }) => scalarRange(cloud, field, sensor, accept)).filter(range => range !== null);
+  if (ranges.length === 0) return null;
+  const min = Math.min(...ranges.map(range => range[0]));
+  const max = Math.max(...ranges.map(range => range[1]));
+
+  const counts = new Uint32Array(bins);
+  const scale = max > min ? bins / (max - min) : 0;
+  for (const { cloud, sensor, accept } of sources) {
+    const read = scalarReader(cloud, field, sensor);
+    if (!read) continue;
+    for (let i = 0; i < cloud.count; i++) {
+      const value = read(i);
+      if (Number.isNaN(value) || (accept && !accept(i))) continue;
+      counts[Math.min(Math.floor((value - min) * scale), bins - 1)]++;
+    }
+  }
+  return { field, min, max, counts };
+};
+
+// 점 i가 모든 필터를 통과하는지; 클라우드에 없는 필드의 필터는 무시하고 남는 필터가 없으면 null
+export const rangePredicate = (
+  cloud: PointCloudData,
+  filters: RangeFilter[],
+  sensor?: [number, number, number]
+): ((index: number) => boolean) | null => {
+  const checks = filters.flatMap(({ field, min, max }) => {
+    const read = scalarReader(cloud, field, sensor);
+    return read ? [{ read, min, max }] : [];
+  });
+  if (checks.length === 0) return null;
+  return (index) => {
+    for (const { read, min, max } of checks) {
+      const value = read(index);
+      // NaN은 비교가 모두 false이므로 걸러짐
+      if (!(value >= min && value <= max)) return false;
+    }
+    return true;
+  };
+};
+
+// 필터를 통과하는 점 인덱스; 걸러낼 필터가 없으면 null (전부 통과)
+export const filterIndices = (
+  cloud: PointCloudData,
+  filters: RangeFilter[],
+  sensor?: [number, number, number]
+): Uint32Array | null => {
+  const passes = rangePredicate(cloud, filters, sensor);
+  if (!passes) return null;
+  const indices = new Uint32Array(cloud.count);
+  let count = 0;
+  for (let i = 0; i < cloud.count; i++) {
+    if (passes(i)) indices[count++] = i;
+  }
+  return indices.slice(0, count);
+};
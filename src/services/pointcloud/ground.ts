@@ -0,0 +1,173 @@
+import { PROGRESS_INTERVAL, ProgressCallback } from './types';
+
+// normal · p + d = 0 (normal은 단위 벡터, z 성분이 0 이상이 되도록 맞춤)
+export interface Plane {
+  normal: [number, number, number];
+  d: number;
+}
+
+export interface GroundOptions {
+  // 평면까지 이 거리 안의 점을 지면으로 봄
+  distanceThreshold: number;
+  maxIterations: number;
+  // 수평면에서 이 각도(도)보다 기운 평면은 후보에서 제외; null이면 제한 없음
+  maxSlope: number | null;
+}
+
+export const DEFAULT_GROUND_OPTIONS: GroundOptions = { distanceThreshold: 0.2, maxIterations: 200, maxSlope: 15 };
+
+export interface GroundFit {
+  plane: Plane;
+  // 1: 지면 (숨긴 점은 0)
+  ground: Uint8Array;
+  groundCount: number;
+}
+
+// 후보 평면의 점수는 이만큼 뽑은 점으로만 셈 (마지막 지면 판정은 전체 점)
+const SCORE_SAMPLE = 50000;
+
+const planeThrough = (positions: Float32Array, a: number, b: number, c: number): Plane | null => {
+  const [ax, ay, az] = [positions[a * 3], positions[a * 3 + 1], positions[a * 3 + 2]];
+  const ux = positions[b * 3] - ax;
+  const uy = positions[b * 3 + 1] - ay;
+  const uz = positions[b * 3 + 2] - az;
+  const vx = positions[c * 3] - ax;
+  const vy = positions[c * 3 + 1] - ay;
+  const vz = positions[c * 3 + 2] - az;
+  let nx = uy * vz - uz * vy;
+  let ny = uz * vx - ux * vz;
+  let nz = ux * vy - uy * vx;
+  const length = Math.hypot(nx, ny, nz);
+  // 세 점이 한 직선 위
+  if (length < 1e-12) return null;
+  const sign = nz < 0 ? -1 : 1;
+  nx = (nx / length) * sign;
+  ny = (ny / length) * sign;
+  nz = (nz / length) * sign;
+  return { normal: [nx, ny, nz], d: -(nx * ax + ny * ay + nz * az) };
+};
+
+const distanceTo = ({ normal, d }: Plane, positions: Float32Array, i: number) =>
+  Math.abs(normal[0] * positions[i * 3] + normal[1] * positions[i * 3 + 1] + normal[2] * positions[i * 3 + 2] + d);
+
+// 점들에 z = ax + by + c를 최소제곱으로 맞춘 평면 (수직에 가까우면 null)
+const fitLeastSquares = (positions: Float32Array, indices: ArrayLike<number>): Plane | null => {
+  const n = indices.length;
+  if (n < 3) return null;
+  let mx = 0;
+  let my = 0;
+  let mz = 0;
+  for (let k = 0; k < n; k++) {
+    const i = indices[k];
+    mx += positions[i * 3];
+    my += positions[i * 3 + 1];
+    mz += positions[i * 3 + 2];
+  }
+  mx /= n;
+  my /= n;
+  mz /= n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  let sxz = 0;
+  let syz = 0;
+  for (let k = 0; k < n; k++) {
+    const i = indices[k];
+    const x = positions[i * 3] - mx;
+    const y = positions[i * 3 + 1] - my;
+    const z = positions[i * 3 + 2] - mz;
+    sxx += x * x;
+    sxy += x * y;
+    syy += y * y;
+    sxz += x * z;
+    syz += y * z;
+  }
+  const det = sxx * syy - sxy * sxy;
+  if (Math.abs(det) < 1e-12) return null;
+  const a = (sxz * syy - syz * sxy) / det;
+  const b = (syz * sxx - sxz * sxy) / det;
+  const length = Math.hypot(a, b, 1);
+  const normal: [number, number, number] = [-a / length, -b / length, 1 / length];
+  return { normal, d: -(normal[0] * mx + normal[1] * my + normal[2] * mz) };
+};
+
+// 수평면에서 기운 각도 (도)
+export const planeSlope = (plane: Plane) => (Math.acos(Math.min(1, Math.abs(plane.normal[2]))) * 180) / Math.PI;
+
+// RANSAC으로 지면 평면을 찾고 지면 점을 표시; hidden이 1인 점(숨기거나 지운 점)은 쓰지 않음
+// 조건에 맞는 평면이 없으면 null; random은 테스트에서 결과를 고정할 때만 바꿈
+export const fitGroundPlane = (
+  positions: Float32Array,
+  count: number,
+  { distanceThreshold, maxIterations, maxSlope }: GroundOptions,
+  hidden: Uint8Array | null,
+  onProgress?: ProgressCallback,
+  random: () => number = Math.random
+): GroundFit | null => {
+  const candidates = new Uint32Array(count);
+  let candidateCount = 0;
+  for (let i = 0; i < count; i++) {
+    if (!hidden?.[i]) candidates[candidateCount++] = i;
+  }
+  if (candidateCount < 3) return null;
+  const pick = () => candidates[Math.floor(random() * candidateCount)];
+  const sample = candidateCount > SCORE_SAMPLE
+    ? Uint32Array.from({ length: SCORE_SAMPLE }, pick)
+    : candidates.subarray(0, candidateCount);
+  const slopeAllowed = (plane: Plane) => maxSlope === null || planeSlope(plane) <= maxSlope;
+
+  let best: Plane | null = null;
+  let bestScore = 0;
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const plane = planeThrough(positions, pick(), pick(), pick());
+    if (plane && slopeAllowed(plane)) {
+      let score = 0;
+      for (let k = 0; k < sample.length; k++) {
+        if (distanceTo(plane, positions, sample[k]) <= distanceThreshold) score++;
+      }
+      if (score > bestScore) {
+        best = plane;
+        bestScore = score;
+      }
+    }
+    onProgress?.((iteration / maxIterations) * 0.8);
+  }
+  if (!best) return null;
+
+  // 찾은 평면의 지면 점으로 평면을 다시 맞춤 (세 점으로 정한 평면보다 안정적)
+  const inliers = new Uint32Array(candidateCount);
+  let inlierCount = 0;
+  for (let k = 0; k < candidateCount; k++) {
+    if (distanceTo(best, positions, candidates[k]) <= distanceThreshold) inliers[inlierCount++] = candidates[k];
+  }
+  const refined = fitLeastSquares(positions, inliers.subarray(0, inlierCount));
+  const plane = refined && slopeAllowed(refined) ? refined : best;
+
+  const ground = new Uint8Array(count);
+  let groundCount = 0;
+  for (let k = 0; k < candidateCount; k++) {
+    const i = candidates[k];
+    if (distanceTo(plane, positions, i) <= distanceThreshold) {
+      ground[i] = 1;
+      groundCount++;
+    }
+    if (onProgress && k % PROGRESS_INTERVAL === 0) onProgress(0.8 + (k / candidateCount) * 0.2);
+  }
+  onProgress?.(1);
+  return { plane, ground, groundCount };
+};
+
+// positions 기준 평면을 원래 좌표(positions + offset) 기준으로
+export const planeInOriginal = ({ normal, d }: Plane, offset: [number, number, number]): Plane => ({
+  normal,
+  d: d - (normal[0] * offset[0] + normal[1] * offset[1] + normal[2] * offset[2]),
+});
+
+// 'ax + by + cz + d = 0' 형태의 문자열
+export const formatPlane = ({ normal, d }: Plane, digits = 4): string => {
+  const term = (value: number, name: string, first: boolean) => {
+    const sign = value < 0 ? '−' : first ? '' : '+';
+    return `${first ? sign : ` ${sign} `}${Math.abs(value).toFixed(digits)}${name}`;
+  };
+  return `${term(normal[0], 'x', true)}${term(normal[1], 'y', false)}${term(normal[2], 'z', false)}${term(d, '', false)} = 0`;
+};
@@ -0,0 +1,79 @@
+// 편집 기록 (실행 취소/다시 실행)
+// 기록에는 되돌리는 데 필요한 데이터만 두고 적용은 호출하는 쪽에서 함 (현재 화면 상태로 다시 그려야 하므로)
+
+export interface HistoryItem {
+  id: number;
+  label: string;
+}
+
+export interface EditHistory<T> {
+  // 이미 적용한 편집을 기록; 취소해 둔 편집(다시 실행 목록)은 버림
+  push(label: string, edit: T): void;
+  // 되돌릴 편집 (없으면 null)
+  undo(): T | null;
+  // 다시 적용할 편집 (없으면 null)
+  redo(): T | null;
+  items(): HistoryItem[];
+  // 적용된 편집 개수 (items 중 앞에서 position개가 적용된 상태)
+  position(): number;
+  clear(): void;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+// limit를 넘으면 가장 오래된 편집부터 버림
+// 버린 편집 (limit 초과, 새 편집으로 밀려난 다시 실행 목록, clear)은 onDrop으로 알려줌 (편집이 잡고 있는 자원 정리용)
+export const createEditHistory = <T>(limit = DEFAULT_HISTORY_LIMIT, onDrop?: (edit: T) => void): EditHistory<T> => {
+  let entries: (HistoryItem & { edit: T })[] = [];
+  let position = 0;
+  let nextId = 1;
+
+  return {
+    push(label, edit) {
+      const kept = [...entries.slice(0, position), { id: nextId++, label, edit }];
+      const dropped = [...entries.slice(position), ...kept.slice(0, Math.max(0, kept.length - limit))];
+      entries = kept.slice(-limit);
+      position = entries.length;
+      dropped.forEach(entry => onDrop?.(entry.edit));
+    },
+    undo() {
+      if (position === 0) return null;
+      return entries[--position].edit;
+    },
+    redo() {
+      if (position === entries.length) return null;
+      return entries[position++].edit;
+    },
+    items: () => entries.map(({ id, label }) => ({ id, label })),
+    position: () => position,
+    clear() {
+      const dropped = entries;
+      entries = [];
+      position = 0;
+      dropped.forEach(entry => onDrop?.(entry.edit));
+    },
+  };
+};
+
+// 0/1 표시 배열에서 값이 다른 인덱스 (null은 전부 0)
+// 같은 인덱스를 다시 뒤집으면 원래대로 돌아가므로 이것만 저장해 두면 취소와 다시 실행 모두 됨
+export const maskDelta = (before: Uint8Array | null, after: Uint8Array | null, count: number): Uint32Array => {
+  if (!before && !after) return new Uint32Array(0);
+  const changed = new Uint32Array(count);
+  let length = 0;
+  for (let i = 0; i < count; i++) {
+    if ((before?.[i] ?? 0) !== (after?.[i] ?? 0)) changed[length++] = i;
+  }
+  return changed.slice(0, length);
+};
+
+// delta 인덱스의 값을 뒤집은 표시 배열; 모두 0이 되면 null
+export const flipMask = (mask: Uint8Array | null, delta: Uint32Array, count: number): Uint8Array | null => {
+  if (delta.length === 0) return mask;
+  const flipped = mask ?? new Uint8Array(count);
+  for (let k = 0; k < delta.length; k++) flipped[delta[k]] ^= 1;
+  for (let i = 0; i < count; i++) {
+    if (flipped[i]) return flipped;
+  }
+  return null;
+};
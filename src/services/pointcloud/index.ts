@@ -0,0 +1,28 @@
+import { parseLAS } from './las';
+import { parsePCD } from './pcd';
+import { parsePLY } from './ply';
+import { PointCloudData, ProgressCallback } from './types';
+
+export type { PointCloudData, PointRecord, ProgressCallback } from './types';
+export { concatPointClouds, getPoint } from './data';
+export { parseLAS, parsePCD, parsePLY };
+
+// 업로드 input의 accept 값
+export const POINT_CLOUD_ACCEPT = '.pcd,.pcd.gz,.ply,.las,.xyz,.csv,.pts,.txt,.bin,.label,.e57';
+
+// 확장자에 맞는 파서 선택 (.gz는 압축 해제 후 이름 기준)
+// 구분자 텍스트(.xyz/.csv/.pts/.txt)는 컬럼 매핑이 필요하므로 text.ts의 parseDelimitedText 사용
+// KITTI .bin/.label은 두 파일을 짝지어야 하므로 kitti.ts 사용
+// E57은 스캔별로 여러 클라우드를 돌려주므로 e57.ts의 parseE57 사용
+export const parsePointCloud = (fileName: string, arrayBuffer: ArrayBuffer, onProgress?: ProgressCallback): PointCloudData => {
+  const name = fileName.toLowerCase().replace(/\.gz$/, '');
+
+  if (name.endsWith('.pcd')) {
+    return parsePCD(arrayBuffer, onProgress);
+  } else if (name.endsWith('.ply')) {
+    return parsePLY(arrayBuffer, onProgress);
+  } else if (name.endsWith('.las')) {
+    return parseLAS(arrayBuffer, onProgress);
+  }
+  throw new Error(`Unsupported point cloud file: ${fileName}`);
+};
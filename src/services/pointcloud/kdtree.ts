@@ -0,0 +1,225 @@
+import * as THREE from 'three';
+import { PointCloudBounds } from './types';
+
+// 배열 안에 암묵적으로 저장한 균형 KD-tree
+// [lo, hi) 구간의 중간 mid가 노드이고 [lo, mid), [mid + 1, hi)가 왼쪽/오른쪽 자식
+export interface KDTree {
+  // 트리 순서대로 나열한 점 인덱스
+  indices: Uint32Array;
+  // 각 노드(mid 위치)의 분할 축
+  axes: Uint8Array;
+  // positions 기준 전체 경계
+  bounds: PointCloudBounds;
+}
+
+export interface ScreenPick {
+  index: number;
+  // 광선과 점 방향 사이의 각도 (라디안)
+  angle: number;
+}
+
+const swap = (array: Uint32Array, a: number, b: number) => {
+  const value = array[a];
+  array[a] = array[b];
+  array[b] = value;
+};
+
+// indices[lo, hi)를 axis 값 기준으로 k번째가 제자리에 오도록 부분 정렬 (같은 값이 많아도 양쪽으로 나뉘는 Hoare 분할)
+const select = (positions: Float32Array, indices: Uint32Array, lo: number, hi: number, k: number, axis: number) => {
+  const value = (i: number) => positions[indices[i] * 3 + axis];
+  let left = lo;
+  let right = hi - 1;
+  while (left < right) {
+    const pivot = value((left + right) >> 1);
+    let i = left;
+    let j = right;
+    while (i <= j) {
+      while (value(i) < pivot) i++;
+      while (value(j) > pivot) j--;
+      if (i <= j) swap(indices, i++, j--);
+    }
+    if (k <= j) right = j;
+    else if (k >= i) left = i;
+    else return;
+  }
+};
+
+export const buildKDTree = (positions: Float32Array, count = positions.length / 3): KDTree => {
+  const indices = new Uint32Array(count);
+  for (let i = 0; i < count; i++) indices[i] = i;
+  const axes = new Uint8Array(count);
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+  // 구간마다 가장 넓게 퍼진 축으로 나눔
+  const build = (lo: number, hi: number) => {
+    if (hi - lo <= 1) return;
+    const low = [Infinity, Infinity, Infinity];
+    const high = [-Infinity, -Infinity, -Infinity];
+    for (let i = lo; i < hi; i++) {
+      const base = indices[i] * 3;
+      for (let axis = 0; axis < 3; axis++) {
+        const value = positions[base + axis];
+        if (value < low[axis]) low[axis] = value;
+        if (value > high[axis]) high[axis] = value;
+      }
+    }
+    const spread = [high[0] - low[0], high[1] - low[1], high[2] - low[2]];
+    const axis = spread[0] >= spread[1] && spread[0] >= spread[2] ? 0 : spread[1] >= spread[2] ? 1 : 2;
+
+    const mid = (lo + hi) >> 1;
+    select(positions, indices, lo, hi, mid, axis);
+    axes[mid] = axis;
+    build(lo, mid);
+    build(mid + 1, hi);
+  };
+
+  build(0, count);
+  for (let i = 0; i < count; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      const value = positions[i * 3 + axis];
+      if (value < min[axis]) min[axis] = value;
+      if (value > max[axis]) max[axis] = value;
+    }
+  }
+  return {
+    indices,
+    axes,
+    bounds: count > 0 ? { min, max } : { min: [0, 0, 0], max: [0, 0, 0] },
+  };
+};
+
+const distanceSq = (positions: Float32Array, index: number, point: THREE.Vector3) => {
+  const dx = positions[index * 3] - point.x;
+  const dy = positions[index * 3 + 1] - point.y;
+  const dz = positions[index * 3 + 2] - point.z;
+  return dx * dx + dy * dy + dz * dz;
+};
+
+// 가까운 순으로 k개의 점 인덱스; accept가 false인 점은 건너뜀
+export const nearestNeighbors = (
+  tree: KDTree,
+  positions: Float32Array,
+  point: THREE.Vector3,
+  k: number,
+  accept?: (index: number) => boolean
+): number[] => {
+  const { indices, axes } = tree;
+  // 거리순으로 정렬된 후보 (k가 작으므로 삽입 정렬)
+  const found: { index: number; distance: number }[] = [];
+  const worst = () => (found.length < k ? Infinity : found[found.length - 1].distance);
+
+  const search = (lo: number, hi: number) => {
+    if (hi <= lo) return;
+    const mid = (lo + hi) >> 1;
+    const index = indices[mid];
+    const distance = distanceSq(positions, index, point);
+    if (distance < worst() && (!accept || accept(index))) {
+      const at = found.findIndex(entry => entry.distance > distance);
+      found.splice(at === -1 ? found.length : at, 0, { index, distance });
+      if (found.length > k) found.pop();
+    }
+
+    const axis = axes[mid];
+    const diff = point.getComponent(axis) - positions[index * 3 + axis];
+    const [near, far] = diff < 0 ? [[lo, mid], [mid + 1, hi]] : [[mid + 1, hi], [lo, mid]];
+    search(near[0], near[1]);
+    if (diff * diff < worst()) search(far[0], far[1]);
+  };
+
+  if (k > 0) search(0, indices.length);
+  return found.map(entry => entry.index);
+};
+
+// point에서 radius 안에 있는 점 인덱스 (순서 없음); accept가 false인 점은 건너뜀
+export const radiusSearch = (
+  tree: KDTree,
+  positions: Float32Array,
+  point: THREE.Vector3,
+  radius: number,
+  accept?: (index: number) => boolean
+): number[] => {
+  const { indices, axes } = tree;
+  const radiusSq = radius * radius;
+  const found: number[] = [];
+
+  const search = (lo: number, hi: number) => {
+    if (hi <= lo) return;
+    const mid = (lo + hi) >> 1;
+    const index = indices[mid];
+    if (distanceSq(positions, index, point) <= radiusSq && (!accept || accept(index))) found.push(index);
+
+    const axis = axes[mid];
+    const diff = point.getComponent(axis) - positions[index * 3 + axis];
+    if (diff <= radius) search(lo, mid);
+    if (diff >= -radius) search(mid + 1, hi);
+  };
+
+  search(0, indices.length);
+  return found;
+};
+
+// 광선(마우스 위치)에서 각도가 maxAngle 이내인 점 중 화면에서 가장 가까운 점
+// ray는 positions 좌표계 기준; 같은 각도면 카메라에 가까운 점; accept가 false인 점(숨긴 점)은 건너뜀
+export const pickScreenNearest = (
+  tree: KDTree,
+  positions: Float32Array,
+  ray: THREE.Ray,
+  maxAngle: number,
+  accept?: (index: number) => boolean
+): ScreenPick | null => {
+  const { indices, axes } = tree;
+  const origin = ray.origin;
+  const direction = ray.direction;
+  const offset = new THREE.Vector3();
+  const cross = new THREE.Vector3();
+  const center = new THREE.Vector3();
+  let best: ScreenPick | null = null;
+  let bestDepth = Infinity;
+
+  // 노드 구간을 감싸는 상자의 경계구가 광선 원뿔 밖이면 건너뜀
+  const reachable = (min: number[], max: number[]) => {
+    center.set((min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2);
+    const radius = Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2;
+    offset.subVectors(center, origin);
+    const distance = offset.length();
+    if (distance <= radius) return true;
+    if (offset.dot(direction) + radius < 0) return false;
+    const angle = Math.atan2(cross.crossVectors(offset, direction).length(), offset.dot(direction));
+    return angle - Math.asin(radius / distance) <= Math.min(maxAngle, best ? best.angle : Infinity);
+  };
+
+  const search = (lo: number, hi: number, min: number[], max: number[]) => {
+    if (hi <= lo || !reachable(min, max)) return;
+    const mid = (lo + hi) >> 1;
+    const index = indices[mid];
+
+    offset.set(positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]).sub(origin);
+    const depth = offset.dot(direction);
+    if (depth > 0 && (!accept || accept(index))) {
+      const angle = Math.atan2(cross.crossVectors(offset, direction).length(), depth);
+      if (angle <= maxAngle && (!best || angle < best.angle || (angle === best.angle && depth < bestDepth))) {
+        best = { index, angle };
+        bestDepth = depth;
+      }
+    }
+
+    const axis = axes[mid];
+    const split = positions[index * 3 + axis];
+    const leftMax = max.slice();
+    leftMax[axis] = split;
+    const rightMin = min.slice();
+    rightMin[axis] = split;
+    // 카메라 쪽 자식부터 찾아야 가지치기가 잘 됨
+    if (origin.getComponent(axis) < split) {
+      search(lo, mid, min, leftMax);
+      search(mid + 1, hi, rightMin, max);
+    } else {
+      search(mid + 1, hi, rightMin, max);
+      search(lo, mid, min, leftMax);
+    }
+  };
+
+  search(0, indices.length, [...tree.bounds.min], [...tree.bounds.max]);
+  return best;
+};
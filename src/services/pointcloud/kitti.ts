@@ -0,0 +1,156 @@
+import { createPointCloudBuilder } from './data';
+import { PROGRESS_INTERVAL, PointCloudData, ProgressCallback } from './types';
+
+export interface SemanticClass {
+  id: number;
+  name: string;
+  // '#rrggbb'
+  color: string;
+}
+
+// SemanticKITTI 기본 클래스 (semantic-kitti.yaml의 color_map, BGR -> RGB)
+export const SEMANTIC_KITTI_CLASSES: SemanticClass[] = [
+  { id: 0, name: 'unlabeled', color: '#000000' },
+  { id: 1, name: 'outlier', color: '#ff0000' },
+  { id: 10, name: 'car', color: '#6496f5' },
+  { id: 11, name: 'bicycle', color: '#64e6f5' },
+  { id: 13, name: 'bus', color: '#6450fa' },
+  { id: 15, name: 'motorcycle', color: '#1e3c96' },
+  { id: 16, name: 'on-rails', color: '#0000ff' },
+  { id: 18, name: 'truck', color: '#501eb4' },
+  { id: 20, name: 'other-vehicle', color: '#0000ff' },
+  { id: 30, name: 'person', color: '#ff1e1e' },
+  { id: 31, name: 'bicyclist', color: '#ff28c8' },
+  { id: 32, name: 'motorcyclist', color: '#961e5a' },
+  { id: 40, name: 'road', color: '#ff00ff' },
+  { id: 44, name: 'parking', color: '#ff96ff' },
+  { id: 48, name: 'sidewalk', color: '#4b004b' },
+  { id: 49, name: 'other-ground', color: '#af004b' },
+  { id: 50, name: 'building', color: '#ffc800' },
+  { id: 51, name: 'fence', color: '#ff7832' },
+  { id: 52, name: 'other-structure', color: '#ff9600' },
+  { id: 60, name: 'lane-marking', color: '#96ffaa' },
+  { id: 70, name: 'vegetation', color: '#00af00' },
+  { id: 71, name: 'trunk', color: '#873c00' },
+  { id: 72, name: 'terrain', color: '#96f050' },
+  { id: 80, name: 'pole', color: '#fff096' },
+  { id: 81, name: 'traffic-sign', color: '#ff0000' },
+  { id: 99, name: 'other-object', color: '#32ffff' },
+  { id: 252, name: 'moving-car', color: '#6496f5' },
+  { id: 253, name: 'moving-bicyclist', color: '#ff28c8' },
+  { id: 254, name: 'moving-person', color: '#ff1e1e' },
+  { id: 255, name: 'moving-motorcyclist', color: '#961e5a' },
+  { id: 256, name: 'moving-on-rails', color: '#0000ff' },
+  { id: 257, name: 'moving-bus', color: '#6450fa' },
+  { id: 258, name: 'moving-truck', color: '#501eb4' },
+  { id: 259, name: 'moving-other-vehicle', color: '#0000ff' },
+];
+
+const PALETTE_STORAGE_KEY = 'semantic_palette';
+const UNKNOWN_CLASS_COLOR = '#808080';
+
+export const isKITTIScan = (fileName: string): boolean => /\.bin$/i.test(fileName);
+export const isKITTILabel = (fileName: string): boolean => /\.label$/i.test(fileName);
+
+// 선택한 파일 중 .bin 스캔과 같은 이름의 .label 파일을 짝지음
+export const pairKITTIFiles = <T extends { name: string }>(files: T[]): { scan: T; label?: T } | null => {
+  const scan = files.find(file => isKITTIScan(file.name));
+  if (!scan) return null;
+  const baseName = scan.name.replace(/\.bin$/i, '');
+  const label = files.find(file => isKITTILabel(file.name) && file.name.replace(/\.label$/i, '') === baseName);
+  return { scan, label };
+};
+
+// velodyne 스캔: float32 x, y, z, intensity 반복
+export const parseKITTIBin = (arrayBuffer: ArrayBuffer, onProgress?: ProgressCallback): PointCloudData => {
+  if (arrayBuffer.byteLength % 16 !== 0) {
+    throw new Error('Invalid KITTI scan: size is not a multiple of 16 bytes');
+  }
+  const values = new Float32Array(arrayBuffer);
+  const builder = createPointCloudBuilder({ attributes: { intensity: Float32Array } }, values.length / 4);
+  for (let i = 0; i < values.length; i += 4) {
+    if (onProgress && i % (PROGRESS_INTERVAL * 4) === 0) onProgress(i / values.length);
+    const index = builder.add(values[i], values[i + 1], values[i + 2]);
+    builder.setAttribute('intensity', index, values[i + 3]);
+  }
+  return builder.build();
+};
+
+// .label: 점마다 uint32 (하위 16비트 semantic label, 상위 16비트 instance id)
+export const applyKITTILabels = (cloud: PointCloudData, arrayBuffer: ArrayBuffer): Map<number, number> => {
+  if (arrayBuffer.byteLength !== cloud.count * 4) {
+    throw new Error(`Label file has ${Math.floor(arrayBuffer.byteLength / 4)} entries but the scan has ${cloud.count} points`);
+  }
+  const values = new Uint32Array(arrayBuffer);
+  const labels = new Uint16Array(cloud.count);
+  const instances = new Uint16Array(cloud.count);
+  const counts = new Map<number, number>();
+  for (let i = 0; i < cloud.count; i++) {
+    labels[i] = values[i] & 0xffff;
+    instances[i] = values[i] >>> 16;
+    counts.set(labels[i], (counts.get(labels[i]) || 0) + 1);
+  }
+  cloud.attributes.label = labels;
+  cloud.attributes.instance = instances;
+  return counts;
+};
+
+// applyKITTILabels의 반대: label/instance 속성을 점마다 uint32로 합친 .label 파일 (instance가 없으면 0)
+export const encodeKITTILabels = (cloud: PointCloudData): Uint8Array => {
+  const { label, instance } = cloud.attributes;
+  const values = new Uint32Array(cloud.count);
+  for (let i = 0; i < cloud.count; i++) {
+    values[i] = (((instance?.[i] ?? 0) & 0xffff) << 16 | ((label?.[i] ?? 0) & 0xffff)) >>> 0;
+  }
+  return new Uint8Array(values.buffer);
+};
+
+export const semanticClassName = (palette: SemanticClass[], id: number): string => {
+  return palette.find(semanticClass => semanticClass.id === id)?.name ?? `class ${id}`;
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+// label -> RGB (팔레트에 없는 label은 회색)
+export const semanticColors = (palette: SemanticClass[]): ((label: number) => [number, number, number]) => {
+  const colors = new Map(palette.map(semanticClass => [semanticClass.id, hexToRgb(semanticClass.color)]));
+  const unknown = hexToRgb(UNKNOWN_CLASS_COLOR);
+  return (label) => colors.get(label) ?? unknown;
+};
+
+// label 속성에 따라 점 색상 지정 (색상 배열이 없으면 새로 만듦)
+export const colorByLabels = (cloud: PointCloudData, palette: SemanticClass[]): void => {
+  const labels = cloud.attributes.label;
+  if (!labels) return;
+
+  const colorOf = semanticColors(palette);
+  if (!cloud.colors) cloud.colors = new Uint8Array(cloud.count * 3);
+  for (let i = 0; i < cloud.count; i++) {
+    cloud.colors.set(colorOf(labels[i]), i * 3);
+  }
+};
+
+// 사용자가 수정한 팔레트 불러오기/저장
+export const loadSemanticPalette = (): SemanticClass[] => {
+  const stored = localStorage.getItem(PALETTE_STORAGE_KEY);
+  if (stored) {
+    try {
+      return JSON.parse(stored);
+    } catch {
+      localStorage.removeItem(PALETTE_STORAGE_KEY);
+    }
+  }
+  return SEMANTIC_KITTI_CLASSES;
+};
+
+export const saveSemanticPalette = (palette: SemanticClass[]): void => {
+  localStorage.setItem(PALETTE_STORAGE_KEY, JSON.stringify(palette));
+};
+
+export const resetSemanticPalette = (): SemanticClass[] => {
+  localStorage.removeItem(PALETTE_STORAGE_KEY);
+  return SEMANTIC_KITTI_CLASSES;
+};
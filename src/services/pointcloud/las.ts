@@ -0,0 +1,163 @@
+import { createPointCloudBuilder } from './data';
+import { AttributeArrayType, PROGRESS_INTERVAL, PointCloudData, ProgressCallback } from './types';
+
+export interface LASHeader {
+  versionMajor: number;
+  versionMinor: number;
+  headerSize: number;
+  offsetToPointData: number;
+  pointDataFormat: number;
+  pointDataRecordLength: number;
+  pointCount: number;
+  scale: [number, number, number];
+  offset: [number, number, number];
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+// 포맷별 최소 레코드 길이 (이보다 긴 레코드는 extra bytes)
+const RECORD_LENGTHS = [20, 28, 26, 34, 57, 63, 30, 36, 38, 59, 67];
+
+// 포맷별 GPS time / RGB 위치 (없으면 -1)
+const GPS_TIME_OFFSETS = [-1, 20, -1, 20, 20, 20, 22, 22, 22, 22, 22];
+const RGB_OFFSETS = [-1, -1, 20, 28, -1, 28, -1, 30, 30, -1, 30];
+
+// 헤더 파싱 (LAS 1.2 ~ 1.4 public header block)
+export const parseLASHeader = (arrayBuffer: ArrayBuffer): LASHeader => {
+  if (arrayBuffer.byteLength < 227) {
+    throw new Error('Invalid LAS file: header is truncated');
+  }
+  const dataView = new DataView(arrayBuffer);
+  const signature = new TextDecoder().decode(new Uint8Array(arrayBuffer, 0, 4));
+  if (signature !== 'LASF') {
+    throw new Error('Invalid LAS file: missing "LASF" signature');
+  }
+
+  const versionMajor = dataView.getUint8(24);
+  const versionMinor = dataView.getUint8(25);
+  if (versionMajor !== 1 || versionMinor < 2 || versionMinor > 4) {
+    throw new Error(`Unsupported LAS version: ${versionMajor}.${versionMinor}`);
+  }
+
+  const rawFormat = dataView.getUint8(104);
+  // 상위 비트가 설정되어 있으면 LAZ (압축) 포인트 레코드
+  if (rawFormat & 0xc0) {
+    throw new Error('Compressed LAZ point data is not supported');
+  }
+  if (rawFormat >= RECORD_LENGTHS.length) {
+    throw new Error(`Unsupported LAS point data record format: ${rawFormat}`);
+  }
+
+  const pointDataRecordLength = dataView.getUint16(105, true);
+  if (pointDataRecordLength < RECORD_LENGTHS[rawFormat]) {
+    throw new Error(`Invalid LAS file: record length ${pointDataRecordLength} is too short for format ${rawFormat}`);
+  }
+
+  // 1.4는 64비트 포인트 수를 별도로 가지며, 레거시 필드는 0일 수 있음
+  let pointCount = dataView.getUint32(107, true);
+  if (versionMinor >= 4 && arrayBuffer.byteLength >= 255) {
+    const extendedCount = Number(dataView.getBigUint64(247, true));
+    if (extendedCount > 0) pointCount = extendedCount;
+  }
+
+  const f64 = (offset: number) => dataView.getFloat64(offset, true);
+
+  return {
+    versionMajor,
+    versionMinor,
+    headerSize: dataView.getUint16(94, true),
+    offsetToPointData: dataView.getUint32(96, true),
+    pointDataFormat: rawFormat,
+    pointDataRecordLength,
+    pointCount,
+    scale: [f64(131), f64(139), f64(147)],
+    offset: [f64(155), f64(163), f64(171)],
+    max: [f64(179), f64(195), f64(211)],
+    min: [f64(187), f64(203), f64(219)],
+  };
+};
+
+// LAS 파일 파싱 함수 (포인트 레코드 포맷 0 ~ 10)
+export const parseLAS = (arrayBuffer: ArrayBuffer, onProgress?: ProgressCallback): PointCloudData => {
+  const header = parseLASHeader(arrayBuffer);
+  const format = header.pointDataFormat;
+  const stride = header.pointDataRecordLength;
+  const [sx, sy, sz] = header.scale;
+  const [ox, oy, oz] = header.offset;
+
+  if (header.offsetToPointData + header.pointCount * stride > arrayBuffer.byteLength) {
+    throw new Error('Invalid LAS file: point data is truncated');
+  }
+
+  const dataView = new DataView(arrayBuffer, header.offsetToPointData);
+  const extended = format >= 6;
+  const gpsTimeOffset = GPS_TIME_OFFSETS[format];
+  const rgbOffset = RGB_OFFSETS[format];
+  const hasNir = format === 8 || format === 10;
+
+  // RGB는 16비트지만 8비트 값을 그대로 기록한 파일이 많아 최대값을 보고 스케일 결정
+  const rgb = rgbOffset !== -1 ? new Uint16Array(header.pointCount * 3) : null;
+  let maxColor = 0;
+
+  const attributeTypes: Record<string, AttributeArrayType> = {
+    intensity: Uint16Array,
+    return_number: Uint8Array,
+    number_of_returns: Uint8Array,
+    classification: Uint8Array,
+    point_source_id: Uint16Array,
+  };
+  if (gpsTimeOffset !== -1) attributeTypes.gps_time = Float64Array;
+  if (hasNir) attributeTypes.nir = Uint16Array;
+  const builder = createPointCloudBuilder({ attributes: attributeTypes }, header.pointCount);
+
+  for (let i = 0; i < header.pointCount; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i / header.pointCount);
+    const base = i * stride;
+
+    const index = builder.add(
+      dataView.getInt32(base, true) * sx + ox,
+      dataView.getInt32(base + 4, true) * sy + oy,
+      dataView.getInt32(base + 8, true) * sz + oz
+    );
+
+    const returnByte = dataView.getUint8(base + 14);
+    builder.setAttribute('intensity', index, dataView.getUint16(base + 12, true));
+    if (extended) {
+      builder.setAttribute('return_number', index, returnByte & 0x0f);
+      builder.setAttribute('number_of_returns', index, returnByte >> 4);
+      builder.setAttribute('classification', index, dataView.getUint8(base + 16));
+      builder.setAttribute('point_source_id', index, dataView.getUint16(base + 20, true));
+    } else {
+      builder.setAttribute('return_number', index, returnByte & 0x07);
+      builder.setAttribute('number_of_returns', index, (returnByte >> 3) & 0x07);
+      builder.setAttribute('classification', index, dataView.getUint8(base + 15) & 0x1f);
+      builder.setAttribute('point_source_id', index, dataView.getUint16(base + 18, true));
+    }
+    if (gpsTimeOffset !== -1) {
+      builder.setAttribute('gps_time', index, dataView.getFloat64(base + gpsTimeOffset, true));
+    }
+    if (hasNir) {
+      builder.setAttribute('nir', index, dataView.getUint16(base + 36, true));
+    }
+
+    if (rgb) {
+      for (let c = 0; c < 3; c++) {
+        const value = dataView.getUint16(base + rgbOffset + c * 2, true);
+        rgb[i * 3 + c] = value;
+        if (value > maxColor) maxColor = value;
+      }
+    }
+  }
+
+  const cloud = builder.build();
+  if (rgb) {
+    const colors = new Uint8Array(rgb.length);
+    const shift = maxColor > 255 ? 8 : 0;
+    for (let i = 0; i < rgb.length; i++) {
+      colors[i] = rgb[i] >> shift;
+    }
+    cloud.colors = colors;
+  }
+
+  return cloud;
+};
@@ -0,0 +1,39 @@
+import { TextImportOptions } from './text';
+import { KDTree } from './kdtree';
+import { PointCloudOctree } from './octree';
+import { PointCloudData } from './types';
+import { WorkerTask, runInWorker } from './worker';
+import type { ParsedFile } from './parser.worker';
+
+// 워커에서 처리할 입력
+export type ParseRequest =
+  | { kind: 'file'; file: File }
+  | { kind: 'text'; file: File; options: TextImportOptions }
+  | { kind: 'kitti'; scan: File; label?: File };
+
+// 파싱된 클라우드와 LOD 렌더링용 옥트리, 피킹/이웃 검색용 KD-tree
+export interface ParsedCloud {
+  name: string;
+  cloud: PointCloudData;
+  octree: PointCloudOctree;
+  index: KDTree;
+}
+
+export interface ParseResult {
+  clouds: ParsedCloud[];
+  // KITTI .label을 함께 읽은 경우 label별 점 개수
+  labelCounts?: Map<number, number>;
+}
+
+export type ParseTask = WorkerTask<ParseResult>;
+
+// 압축 해제, 파싱, 옥트리/KD-tree 생성을 워커에서 실행하고 진행률(%)을 알려줌 (결과 배열은 복사 없이 전달됨)
+export const parseInWorker = (request: ParseRequest, onProgress: (percent: number) => void): ParseTask => {
+  const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+  const task = runInWorker<ParsedFile>(worker, request, onProgress);
+  const promise = task.promise.then(result => result && {
+    clouds: result.clouds,
+    labelCounts: result.labelCounts && new Map(result.labelCounts),
+  });
+  return { promise, cancel: task.cancel };
+};
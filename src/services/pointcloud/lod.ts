@@ -0,0 +1,255 @@
+import * as THREE from 'three';
+import { KDTree, buildKDTree, pickScreenNearest } from './kdtree';
+import { LODOptions, OctreeNode, lodViewOf, selectNodes } from './octree';
+import { PointCloudData } from './types';
+
+// 동시에 읽어 올 노드 수
+const MAX_CONCURRENT_LOADS = 4;
+// 보이지 않는 노드도 점 예산의 이 배수까지는 GPU 버퍼를 남겨 둠
+const CACHE_BUDGET_FACTOR = 2;
+
+// 노드 점에 원본 대신 칠할 색 (스칼라 필드 컬러맵 등); null이면 원본 색상
+export type NodeColorizer<N extends OctreeNode> = (data: PointCloudData, node: N) => Uint8Array | null;
+
+// 노드에서 그릴 점 인덱스 (범위 필터, 삭제 마스크 등); null이면 전부 그림
+export type NodeFilter<N extends OctreeNode> = (data: PointCloudData, node: N) => Uint32Array | null;
+
+export interface LODPick<N extends OctreeNode> {
+  node: N;
+  // 노드 안에서의 점 인덱스
+  index: number;
+  data: PointCloudData;
+  // 광선과 점 방향 사이의 각도 (라디안)
+  angle: number;
+}
+
+export interface LODRenderer<N extends OctreeNode> {
+  // 씬에 추가할 그룹 (노드마다 THREE.Points 하나)
+  object: THREE.Group;
+  material: THREE.PointsMaterial;
+  options: LODOptions;
+  // 매 프레임 호출: 노드를 다시 고르고 필요한 노드를 읽거나 내림
+  update: (camera: THREE.PerspectiveCamera, screenHeight: number) => void;
+  // 그려진 노드 중 광선(씬 좌표)에서 maxAngle 이내로 화면에서 가장 가까운 점
+  pick: (ray: THREE.Ray, maxAngle: number) => LODPick<N> | null;
+  // 원본 색상 등이 바뀌었을 때 읽어 둔 노드 버퍼를 모두 버림
+  reload: () => void;
+  // 읽어 둔 노드는 다시 읽지 않고 색상 버퍼만 바꿈 (pick 결과의 data는 원본 그대로)
+  setColorizer: (colorize: NodeColorizer<N> | null) => void;
+  // 읽어 둔 노드의 인덱스 버퍼만 바꿔 일부 점을 숨김 (숨긴 점은 pick에서도 제외)
+  setFilter: (filter: NodeFilter<N> | null) => void;
+  // 읽어 둔 노드 중 accept인 노드만 지금 색상/필터를 다시 반영 (칠하기처럼 일부 점만 바뀌었을 때)
+  refreshNodes: (accept: (node: N) => boolean) => void;
+  // 지금 메모리에 읽어 둔 노드 데이터 (전체 점이 없는 레이어의 히스토그램 등)
+  loadedData: () => PointCloudData[];
+  // 현재 그려지는 점 수
+  renderedCount: () => number;
+  dispose: () => void;
+}
+
+interface LoadedNode<N extends OctreeNode> {
+  node: N;
+  data: PointCloudData;
+  points: THREE.Points;
+  lastUsed: number;
+  // 처음 피킹할 때 만듦
+  tree: KDTree | null;
+  // 필터를 통과한 점 표시 (필터가 없으면 null)
+  shown: Uint8Array | null;
+  shownCount: number;
+}
+
+const createNodeGeometry = <N extends OctreeNode>(data: PointCloudData, node: N, colorize: NodeColorizer<N> | null) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(data.positions, 3));
+  const colors = (colorize && colorize(data, node)) ?? data.colors;
+  if (colors) {
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3, true));
+  }
+  geometry.boundingBox = new THREE.Box3(
+    new THREE.Vector3(...data.bounds.min),
+    new THREE.Vector3(...data.bounds.max)
+  );
+  geometry.boundingSphere = geometry.boundingBox.getBoundingSphere(new THREE.Sphere());
+  return geometry;
+};
+
+// 점 예산 안에서 카메라에 가까운 노드만 GPU에 올려 그리는 렌더러
+// loadNode는 메모리에 있는 클라우드에서 점을 모으거나 디스크에서 읽어 옴
+export const createLODRenderer = <N extends OctreeNode>(
+  root: N,
+  loadNode: (node: N) => Promise<PointCloudData>,
+  material: THREE.PointsMaterial,
+  options: LODOptions
+): LODRenderer<N> => {
+  const object = new THREE.Group();
+  const loaded = new Map<string, LoadedNode<N>>();
+  const loading = new Set<string>();
+  // 읽기에 실패한 노드 (매 프레임 다시 읽지 않도록 reload 전까지 건너뜀)
+  const failed = new Set<string>();
+  let selected: N[] = [];
+  let frame = 0;
+  // reload 이전에 시작한 읽기 결과는 버림
+  let generation = 0;
+  let disposed = false;
+  let colorizer: NodeColorizer<N> | null = null;
+  let filter: NodeFilter<N> | null = null;
+
+  // 인덱스 버퍼는 노드 점 수만큼 한 번 만들어 두고 내용과 drawRange만 바꿈
+  const applyFilter = (entry: LoadedNode<N>) => {
+    const indices = filter ? filter(entry.data, entry.node) : null;
+    const geometry = entry.points.geometry;
+    entry.shown = null;
+    entry.shownCount = indices ? indices.length : entry.data.count;
+    if (!indices && !geometry.index) return;
+
+    if (!geometry.index) {
+      geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(entry.data.count), 1));
+    }
+    const index = geometry.index!;
+    const array = index.array as Uint32Array;
+    if (indices) {
+      array.set(indices);
+      entry.shown = new Uint8Array(entry.data.count);
+      for (let i = 0; i < indices.length; i++) entry.shown[indices[i]] = 1;
+    } else {
+      for (let i = 0; i < array.length; i++) array[i] = i;
+    }
+    index.needsUpdate = true;
+    geometry.setDrawRange(0, entry.shownCount);
+  };
+
+  const unload = (entry: LoadedNode<N>) => {
+    object.remove(entry.points);
+    entry.points.geometry.dispose();
+    loaded.delete(entry.node.name);
+  };
+
+  const load = (node: N) => {
+    const started = generation;
+    loading.add(node.name);
+    loadNode(node)
+      .then((data) => {
+        if (disposed || started !== generation) return;
+        const points = new THREE.Points(createNodeGeometry(data, node, colorizer), material);
+        points.visible = false;
+        points.userData.node = node.name;
+        object.add(points);
+        const entry: LoadedNode<N> = { node, data, points, lastUsed: frame, tree: null, shown: null, shownCount: data.count };
+        applyFilter(entry);
+        loaded.set(node.name, entry);
+      })
+      .catch((error) => {
+        if (disposed || started !== generation) return;
+        failed.add(node.name);
+        console.error(`Failed to load octree node ${node.name}:`, error);
+      })
+      .finally(() => {
+        if (started === generation) loading.delete(node.name);
+      });
+  };
+
+  // 오래 쓰지 않은 노드부터 내림
+  const evict = () => {
+    let cached = 0;
+    loaded.forEach(entry => { cached += entry.data.count; });
+    const limit = options.pointBudget * CACHE_BUDGET_FACTOR;
+    if (cached <= limit) return;
+
+    const candidates = Array.from(loaded.values())
+      .filter(entry => entry.lastUsed !== frame)
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const entry of candidates) {
+      if (cached <= limit) break;
+      cached -= entry.data.count;
+      unload(entry);
+    }
+  };
+
+  return {
+    object,
+    material,
+    options,
+    update: (camera, screenHeight) => {
+      if (!object.visible) return;
+      frame++;
+      object.updateMatrixWorld();
+      selected = selectNodes(root, lodViewOf(camera, screenHeight, object.matrixWorld), options);
+
+      loaded.forEach(entry => { entry.points.visible = false; });
+      // selectNodes는 화면 오차가 큰 노드부터 돌려주므로 그 순서대로 읽음
+      for (const node of selected) {
+        const entry = loaded.get(node.name);
+        if (entry) {
+          entry.points.visible = true;
+          entry.lastUsed = frame;
+        } else if (!loading.has(node.name) && !failed.has(node.name) && loading.size < MAX_CONCURRENT_LOADS) {
+          load(node);
+        }
+      }
+      evict();
+    },
+    pick: (ray, maxAngle) => {
+      if (!object.visible) return null;
+      object.updateMatrixWorld();
+      const localRay = ray.clone().applyMatrix4(object.matrixWorld.clone().invert());
+      let best: LODPick<N> | null = null;
+      loaded.forEach((entry) => {
+        if (!entry.points.visible) return;
+        entry.tree ??= buildKDTree(entry.data.positions, entry.data.count);
+        const shown = entry.shown;
+        const hit = pickScreenNearest(entry.tree, entry.data.positions, localRay, maxAngle, shown ? i => shown[i] === 1 : undefined);
+        if (hit && (!best || hit.angle < best.angle)) {
+          best = { node: entry.node, index: hit.index, data: entry.data, angle: hit.angle };
+        }
+      });
+      return best;
+    },
+    reload: () => {
+      generation++;
+      loading.clear();
+      failed.clear();
+      loaded.forEach(unload);
+    },
+    setColorizer: (colorize) => {
+      colorizer = colorize;
+      loaded.forEach((entry) => {
+        entry.points.geometry.dispose();
+        entry.points.geometry = createNodeGeometry(entry.data, entry.node, colorizer);
+        applyFilter(entry);
+      });
+    },
+    setFilter: (nodeFilter) => {
+      filter = nodeFilter;
+      loaded.forEach(applyFilter);
+    },
+    refreshNodes: (accept) => {
+      loaded.forEach((entry) => {
+        if (!accept(entry.node)) return;
+        const geometry = entry.points.geometry;
+        const attribute = geometry.getAttribute('color') as THREE.BufferAttribute | undefined;
+        const colors = colorizer && colorizer(entry.data, entry.node);
+        // 칠한 색 버퍼는 그 자리에서 고치고, 원본 색상을 그대로 쓰던 버퍼는 원본을 덮지 않도록 새로 만듦
+        if (colors && attribute && attribute.array !== entry.data.colors && attribute.array.length === colors.length) {
+          (attribute.array as Uint8Array).set(colors);
+          attribute.needsUpdate = true;
+        } else if (colors || attribute?.array !== entry.data.colors) {
+          geometry.dispose();
+          entry.points.geometry = createNodeGeometry(entry.data, entry.node, colorizer);
+        }
+        applyFilter(entry);
+      });
+    },
+    loadedData: () => Array.from(loaded.values(), entry => entry.data),
+    renderedCount: () => {
+      let count = 0;
+      loaded.forEach(entry => { if (entry.points.visible) count += entry.shownCount; });
+      return object.visible ? count : 0;
+    },
+    dispose: () => {
+      disposed = true;
+      loaded.forEach(unload);
+      material.dispose();
+    },
+  };
+};
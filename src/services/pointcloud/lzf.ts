@@ -0,0 +1,121 @@
+// LZF 압축 해제 (PCL binary_compressed 포맷에서 사용)
+// 제어 바이트가 32 미만이면 (ctrl + 1)개의 리터럴, 그 이상이면 이미 출력된 데이터에 대한 역참조
+export const lzfDecompress = (input: Uint8Array, outputLength: number): Uint8Array => {
+  const output = new Uint8Array(outputLength);
+  let ip = 0;
+  let op = 0;
+
+  while (ip < input.length) {
+    const ctrl = input[ip++];
+
+    if (ctrl < 32) {
+      // 리터럴 구간
+      const length = ctrl + 1;
+      if (ip + length > input.length || op + length > outputLength) {
+        throw new Error('LZF decompression failed: literal run out of bounds');
+      }
+      output.set(input.subarray(ip, ip + length), op);
+      ip += length;
+      op += length;
+    } else {
+      // 역참조 구간 (길이 상위 3비트, 거리 13비트)
+      let length = ctrl >> 5;
+      if (length === 7) {
+        if (ip >= input.length) {
+          throw new Error('LZF decompression failed: truncated back reference');
+        }
+        length += input[ip++];
+      }
+      length += 2;
+
+      if (ip >= input.length) {
+        throw new Error('LZF decompression failed: truncated back reference');
+      }
+      let ref = op - ((ctrl & 0x1f) << 8) - 1 - input[ip++];
+
+      if (ref < 0 || op + length > outputLength) {
+        throw new Error('LZF decompression failed: back reference out of bounds');
+      }
+      // 참조 구간이 출력과 겹칠 수 있으므로 바이트 단위로 복사
+      for (let i = 0; i < length; i++) {
+        output[op++] = output[ref++];
+      }
+    }
+  }
+
+  if (op !== outputLength) {
+    throw new Error(`LZF decompression failed: expected ${outputLength} bytes, got ${op}`);
+  }
+
+  return output;
+};
+
+// LZF 압축 (liblzf와 같은 포맷, binary_compressed PCD 저장용)
+const HASH_LOG = 14;
+const MAX_LITERAL = 32;
+const MAX_OFFSET = 1 << 13;
+const MAX_REFERENCE = (1 << 8) + (1 << 3);
+
+export const lzfCompress = (input: Uint8Array): Uint8Array => {
+  // 압축이 안 되는 데이터도 리터럴 제어 바이트만큼만 늘어남
+  const output = new Uint8Array(input.length + Math.ceil(input.length / MAX_LITERAL) + 1);
+  const hashTable = new Int32Array(1 << HASH_LOG).fill(-1);
+  const hash = (i: number) => Math.imul((input[i] << 16) | (input[i + 1] << 8) | input[i + 2], 2654435761) >>> (32 - HASH_LOG);
+
+  let ip = 0;
+  let op = 1; // 첫 리터럴 제어 바이트 자리
+  let literal = 0;
+
+  const closeLiteral = () => {
+    if (literal > 0) {
+      output[op - literal - 1] = literal - 1;
+    } else {
+      op--;
+    }
+  };
+
+  while (ip < input.length) {
+    let matched = false;
+
+    if (ip + 2 < input.length) {
+      const h = hash(ip);
+      const ref = hashTable[h];
+      hashTable[h] = ip;
+      const offset = ip - ref - 1;
+
+      if (ref >= 0 && offset < MAX_OFFSET &&
+        input[ref] === input[ip] && input[ref + 1] === input[ip + 1] && input[ref + 2] === input[ip + 2]) {
+        const maxLength = Math.min(MAX_REFERENCE, input.length - ip);
+        let length = 3;
+        while (length < maxLength && input[ref + length] === input[ip + length]) length++;
+
+        closeLiteral();
+        const encoded = length - 2;
+        if (encoded < 7) {
+          output[op++] = (offset >> 8) + (encoded << 5);
+        } else {
+          output[op++] = (offset >> 8) + (7 << 5);
+          output[op++] = encoded - 7;
+        }
+        output[op++] = offset & 0xff;
+
+        ip += length;
+        literal = 0;
+        op++; // 다음 리터럴 제어 바이트 자리
+        matched = true;
+      }
+    }
+
+    if (!matched) {
+      output[op++] = input[ip++];
+      if (++literal === MAX_LITERAL) {
+        output[op - literal - 1] = MAX_LITERAL - 1;
+        literal = 0;
+        op++;
+      }
+    }
+  }
+  closeLiteral();
+
+  return output.slice(0, op);
+};
@@ -0,0 +1,109 @@
+// 뷰어에서 점을 찍어 만드는 측정 (좌표는 모두 원래 좌표, z가 위쪽)
+
+export type MeasurementKind = 'distance' | 'polyline' | 'angle' | 'area' | 'height';
+
+export type MeasurementPoint = [number, number, number];
+
+export interface Measurement {
+  id: number;
+  kind: MeasurementKind;
+  name: string;
+  points: MeasurementPoint[];
+}
+
+export interface MeasurementKindInfo {
+  value: MeasurementKind;
+  label: string;
+  unit: string;
+  minPoints: number;
+  // 이 개수가 되면 자동으로 완료 (폴리라인/면적은 직접 완료)
+  maxPoints: number;
+}
+
+export const MEASUREMENT_KINDS: MeasurementKindInfo[] = [
+  { value: 'distance', label: '거리', unit: 'm', minPoints: 2, maxPoints: 2 },
+  { value: 'polyline', label: '폴리라인', unit: 'm', minPoints: 2, maxPoints: Infinity },
+  { value: 'angle', label: '각도', unit: '°', minPoints: 3, maxPoints: 3 },
+  { value: 'area', label: '면적', unit: 'm²', minPoints: 3, maxPoints: Infinity },
+  { value: 'height', label: '높이', unit: 'm', minPoints: 2, maxPoints: 2 },
+];
+
+export const measurementKind = (kind: MeasurementKind) => MEASUREMENT_KINDS.find(info => info.value === kind)!;
+
+const sub = (a: MeasurementPoint, b: MeasurementPoint): MeasurementPoint => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const length = (v: MeasurementPoint) => Math.hypot(v[0], v[1], v[2]);
+const cross = (a: MeasurementPoint, b: MeasurementPoint): MeasurementPoint => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+const pathLength = (points: MeasurementPoint[]) => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) total += length(sub(points[i], points[i - 1]));
+  return total;
+};
+
+// 측정 값 (거리/높이 m, 각도 도, 면적 m²); 점이 모자라면 NaN
+export const measurementValue = ({ kind, points }: Pick<Measurement, 'kind' | 'points'>): number => {
+  if (points.length < measurementKind(kind).minPoints) return NaN;
+
+  switch (kind) {
+    case 'distance':
+    case 'polyline':
+      return pathLength(points);
+    case 'height':
+      return Math.abs(points[1][2] - points[0][2]);
+    case 'angle': {
+      // 두 번째 점이 꼭짓점
+      const a = sub(points[0], points[1]);
+      const b = sub(points[2], points[1]);
+      const cosine = (a[0] * b[0] + a[1] * b[1] + a[2] * b[2]) / (length(a) * length(b));
+      return (Math.acos(Math.min(Math.max(cosine, -1), 1)) * 180) / Math.PI;
+    }
+    case 'area': {
+      // 닫힌 다각형의 벡터 면적 (평면이 아니면 가장 잘 맞는 평면에 투영한 면적)
+      const sum: MeasurementPoint = [0, 0, 0];
+      const origin = points[0];
+      for (let i = 1; i < points.length - 1; i++) {
+        const c = cross(sub(points[i], origin), sub(points[i + 1], origin));
+        sum[0] += c[0];
+        sum[1] += c[1];
+        sum[2] += c[2];
+      }
+      return length(sum) / 2;
+    }
+  }
+};
+
+export const formatMeasurement = (measurement: Pick<Measurement, 'kind' | 'points'>): string => {
+  const value = measurementValue(measurement);
+  if (Number.isNaN(value)) return '-';
+  const { unit } = measurementKind(measurement.kind);
+  return measurement.kind === 'angle' ? `${value.toFixed(1)}${unit}` : `${value.toFixed(3)} ${unit}`;
+};
+
+const CSV_HEADER = 'id,name,type,value,unit,points';
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// 한 줄에 측정 하나; points는 'x y z' 를 ';'로 이어 붙임
+export const measurementsToCSV = (measurements: Measurement[]): string => {
+  const rows = measurements.map(measurement => [
+    String(measurement.id),
+    csvField(measurement.name),
+    measurement.kind,
+    String(measurementValue(measurement)),
+    measurementKind(measurement.kind).unit,
+    measurement.points.map(point => point.join(' ')).join(';'),
+  ].join(','));
+  return [CSV_HEADER, ...rows].join('\n') + '\n';
+};
+
+export const measurementsToJSON = (measurements: Measurement[]): string => {
+  return JSON.stringify(measurements.map(measurement => ({
+    ...measurement,
+    value: measurementValue(measurement),
+    unit: measurementKind(measurement.kind).unit,
+  })), null, 2);
+};
@@ -0,0 +1,220 @@
+import * as THREE from 'three';
+import { selectPoints } from './data';
+import { PointCloudBounds, PointCloudData, ProgressCallback, PROGRESS_INTERVAL } from './types';
+
+// LOD 렌더러가 다루는 노드 (이름은 Potree와 같이 'r' 뒤에 자식 번호를 붙임)
+export interface OctreeNode {
+  name: string;
+  level: number;
+  // 정육면체 경계 (positions 기준 좌표)
+  bounds: PointCloudBounds;
+  // 이 노드에 담긴 점들 사이의 최소 간격
+  spacing: number;
+  count: number;
+  // 자식 번호 = (x << 2) | (y << 1) | z
+  children: (this | null)[];
+}
+
+// 메모리에 있는 클라우드로 만든 노드; 점 인덱스는 order[start, start + count)
+export interface IndexedOctreeNode extends OctreeNode {
+  start: number;
+}
+
+export interface PointCloudOctree {
+  root: IndexedOctreeNode;
+  // 노드 순서대로 나열한 원본 점 인덱스 (원본 배열은 재배치하지 않음)
+  order: Uint32Array;
+}
+
+export interface OctreeOptions {
+  // 점이 이 개수 이하인 노드는 더 나누지 않음
+  nodeCapacity?: number;
+  // 노드마다 한 격자 칸에 점 하나만 남김 (spacing = 노드 크기 / gridSize)
+  gridSize?: number;
+  maxDepth?: number;
+}
+
+const DEFAULT_OCTREE_OPTIONS: Required<OctreeOptions> = {
+  nodeCapacity: 20000,
+  gridSize: 128,
+  maxDepth: 20,
+};
+
+// 부모 노드가 격자 칸마다 점 하나씩 가져가고 나머지는 8개 자식으로 내려보내는 방식 (Potree와 같은 중첩 샘플링)
+export const buildOctree = (
+  cloud: PointCloudData,
+  options: OctreeOptions = {},
+  onProgress?: ProgressCallback
+): PointCloudOctree => {
+  const { nodeCapacity, gridSize, maxDepth } = { ...DEFAULT_OCTREE_OPTIONS, ...options };
+  const { positions, count } = cloud;
+  const order = new Uint32Array(count);
+  let written = 0;
+  let reported = 0;
+
+  // 칸마다 마지막으로 점을 넣은 노드 번호를 기록해 노드마다 격자를 비우지 않아도 됨
+  const cells = new Uint32Array(gridSize * gridSize * gridSize);
+  let stamp = 0;
+
+  const write = (indices: Uint32Array) => {
+    order.set(indices, written);
+    written += indices.length;
+    if (onProgress && written - reported >= PROGRESS_INTERVAL) {
+      reported = written;
+      onProgress(written / count);
+    }
+  };
+
+  // 0 ~ 7: 내려보낼 자식, 8: 이 노드에 남길 점
+  const partition = (indices: Uint32Array, min: [number, number, number], size: number) => {
+    stamp++;
+    const codes = new Uint8Array(indices.length);
+    const counts = new Uint32Array(9);
+    const half = size / 2;
+    const cellSize = size / gridSize;
+    for (let i = 0; i < indices.length; i++) {
+      const base = indices[i] * 3;
+      let cell = 0;
+      let child = 0;
+      for (let axis = 0; axis < 3; axis++) {
+        const local = positions[base + axis] - min[axis];
+        cell = cell * gridSize + Math.min(gridSize - 1, Math.max(0, Math.floor(local / cellSize)));
+        child = (child << 1) | (local >= half ? 1 : 0);
+      }
+      if (cells[cell] !== stamp) {
+        cells[cell] = stamp;
+        codes[i] = 8;
+      } else {
+        codes[i] = child;
+      }
+      counts[codes[i]]++;
+    }
+
+    const groups = Array.from(counts, length => new Uint32Array(length));
+    const filled = new Uint32Array(9);
+    for (let i = 0; i < indices.length; i++) {
+      groups[codes[i]][filled[codes[i]]++] = indices[i];
+    }
+    return groups;
+  };
+
+  const build = (indices: Uint32Array, min: [number, number, number], size: number, level: number, name: string): IndexedOctreeNode => {
+    const node: IndexedOctreeNode = {
+      name,
+      level,
+      bounds: { min, max: [min[0] + size, min[1] + size, min[2] + size] },
+      spacing: size / gridSize,
+      start: written,
+      count: indices.length,
+      children: [null, null, null, null, null, null, null, null],
+    };
+
+    if (indices.length <= nodeCapacity || level >= maxDepth) {
+      write(indices);
+      return node;
+    }
+
+    const groups = partition(indices, min, size);
+    node.count = groups[8].length;
+    write(groups[8]);
+    const half = size / 2;
+    for (let child = 0; child < 8; child++) {
+      if (groups[child].length === 0) continue;
+      const childMin: [number, number, number] = [
+        min[0] + (child & 4 ? half : 0),
+        min[1] + (child & 2 ? half : 0),
+        min[2] + (child & 1 ? half : 0),
+      ];
+      node.children[child] = build(groups[child], childMin, half, level + 1, `${name}${child}`);
+      groups[child] = new Uint32Array(0);
+    }
+    return node;
+  };
+
+  const { min, max } = cloud.bounds;
+  const size = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) || 1;
+  const indices = new Uint32Array(count);
+  for (let i = 0; i < count; i++) indices[i] = i;
+
+  const root = build(indices, [min[0], min[1], min[2]], size, 0, 'r');
+  onProgress?.(1);
+  return { root, order };
+};
+
+// 노드에 속한 점만 모은 클라우드 (GPU 버퍼로 올릴 단위)
+export const gatherNode = (cloud: PointCloudData, octree: PointCloudOctree, node: IndexedOctreeNode): PointCloudData => {
+  return selectPoints(cloud, octree.order.subarray(node.start, node.start + node.count));
+};
+
+// 카메라에서 본 노드 선택 기준
+export interface LODView {
+  frustum: THREE.Frustum;
+  position: THREE.Vector3;
+  // 거리 1에 있는 길이 1이 화면에서 차지하는 픽셀 수
+  projectionFactor: number;
+}
+
+export interface LODOptions {
+  // 한 프레임에 그릴 최대 점 수
+  pointBudget: number;
+  // 노드 spacing이 화면에서 이 픽셀보다 크면 자식 노드까지 그림
+  maxScreenSpaceError: number;
+}
+
+export const DEFAULT_LOD_OPTIONS: LODOptions = {
+  pointBudget: 3000000,
+  maxScreenSpaceError: 2,
+};
+
+// matrixWorld: 노드 좌표계(positions 기준)를 씬 좌표로 옮기는 행렬
+export const lodViewOf = (camera: THREE.PerspectiveCamera, screenHeight: number, matrixWorld = new THREE.Matrix4()): LODView => {
+  camera.updateMatrixWorld();
+  const frustum = new THREE.Frustum().setFromProjectionMatrix(
+    new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse).multiply(matrixWorld)
+  );
+  return {
+    frustum,
+    position: camera.getWorldPosition(new THREE.Vector3()).applyMatrix4(matrixWorld.clone().invert()),
+    projectionFactor: screenHeight / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)),
+  };
+};
+
+// 노드 spacing이 화면에서 차지하는 픽셀 수
+const screenSpaceError = (node: OctreeNode, view: LODView, box: THREE.Box3, sphere: THREE.Sphere) => {
+  box.min.fromArray(node.bounds.min);
+  box.max.fromArray(node.bounds.max);
+  box.getBoundingSphere(sphere);
+  const distance = Math.max(sphere.center.distanceTo(view.position) - sphere.radius, 1e-6);
+  return (node.spacing / distance) * view.projectionFactor;
+};
+
+// 화면 오차가 큰 노드부터 점 예산 안에서 선택 (부모가 선택돼야 자식도 후보가 됨)
+export const selectNodes = <N extends OctreeNode>(root: N, view: LODView, options: LODOptions): N[] => {
+  const box = new THREE.Box3();
+  const sphere = new THREE.Sphere();
+  const selected: N[] = [];
+  const queue: { node: N; error: number }[] = [{ node: root, error: Infinity }];
+  let points = 0;
+
+  while (queue.length > 0) {
+    // 노드 수가 많지 않으므로 정렬된 배열을 우선순위 큐로 사용
+    const { node } = queue.pop()!;
+    box.min.fromArray(node.bounds.min);
+    box.max.fromArray(node.bounds.max);
+    if (!view.frustum.intersectsBox(box)) continue;
+    if (points + node.count > options.pointBudget) break;
+
+    selected.push(node);
+    points += node.count;
+
+    const error = screenSpaceError(node, view, box, sphere);
+    if (error <= options.maxScreenSpaceError) continue;
+    for (const child of node.children) {
+      if (!child) continue;
+      const childError = screenSpaceError(child, view, box, sphere);
+      const at = queue.findIndex(entry => entry.error > childError);
+      queue.splice(at === -1 ? queue.length : at, 0, { node: child as N, error: childError });
+    }
+  }
+  return selected;
+};
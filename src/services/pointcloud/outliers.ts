@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import { KDTree, nearestNeighbors, radiusSearch } from './kdtree';
+import { PROGRESS_INTERVAL, ProgressCallback } from './types';
+
+// statistical: 이웃 k개까지의 평균 거리가 전체 평균 + stdRatio × 표준편차보다 먼 점
+export interface StatisticalOutlierOptions {
+  method: 'statistical';
+  k: number;
+  stdRatio: number;
+}
+
+// radius: 반경 radius 안의 이웃이 minNeighbors개보다 적은 점
+export interface RadiusOutlierOptions {
+  method: 'radius';
+  radius: number;
+  minNeighbors: number;
+}
+
+export type OutlierOptions = StatisticalOutlierOptions | RadiusOutlierOptions;
+
+export const DEFAULT_STATISTICAL_OUTLIER_OPTIONS: StatisticalOutlierOptions = { method: 'statistical', k: 20, stdRatio: 2 };
+export const DEFAULT_RADIUS_OUTLIER_OPTIONS: RadiusOutlierOptions = { method: 'radius', radius: 0.5, minNeighbors: 5 };
+
+// 이상점 표시 (1: 이상점); hidden이 1인 점(숨기거나 지운 점)은 검사하지도 이웃으로 세지도 않음
+export const findOutliers = (
+  positions: Float32Array,
+  tree: KDTree,
+  options: OutlierOptions,
+  hidden: Uint8Array | null,
+  onProgress?: ProgressCallback
+): Uint8Array => {
+  const count = tree.indices.length;
+  const outliers = new Uint8Array(count);
+  const point = new THREE.Vector3();
+  const report = (i: number, start: number, span: number) => {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(start + (i / count) * span);
+  };
+
+  if (options.method === 'radius') {
+    for (let i = 0; i < count; i++) {
+      report(i, 0, 1);
+      if (hidden?.[i]) continue;
+      point.fromArray(positions, i * 3);
+      const neighbors = radiusSearch(tree, positions, point, options.radius, (j) => j !== i && !hidden?.[j]);
+      if (neighbors.length < options.minNeighbors) outliers[i] = 1;
+    }
+    onProgress?.(1);
+    return outliers;
+  }
+
+  // 점마다 이웃까지의 평균 거리 (이웃이 없으면 Infinity)
+  const meanDistances = new Float64Array(count);
+  let sum = 0;
+  let sumSq = 0;
+  let valid = 0;
+  for (let i = 0; i < count; i++) {
+    report(i, 0, 0.9);
+    if (hidden?.[i]) continue;
+    point.fromArray(positions, i * 3);
+    const neighbors = nearestNeighbors(tree, positions, point, options.k, (j) => j !== i && !hidden?.[j]);
+    if (neighbors.length === 0) {
+      meanDistances[i] = Infinity;
+      continue;
+    }
+    let distance = 0;
+    for (const j of neighbors) {
+      distance += Math.hypot(
+        positions[j * 3] - point.x,
+        positions[j * 3 + 1] - point.y,
+        positions[j * 3 + 2] - point.z
+      );
+    }
+    const mean = distance / neighbors.length;
+    meanDistances[i] = mean;
+    sum += mean;
+    sumSq += mean * mean;
+    valid++;
+  }
+
+  const mean = valid > 0 ? sum / valid : 0;
+  const std = valid > 1 ? Math.sqrt(Math.max(0, (sumSq - valid * mean * mean) / (valid - 1))) : 0;
+  const threshold = mean + options.stdRatio * std;
+  for (let i = 0; i < count; i++) {
+    if (!hidden?.[i] && meanDistances[i] > threshold) outliers[i] = 1;
+  }
+  onProgress?.(1);
+  return outliers;
+};
@@ -0,0 +1,95 @@
+import * as pako from 'pako';
+import { parsePointCloud } from './index';
+import { isE57, parseE57 } from './e57';
+import { applyKITTILabels, parseKITTIBin } from './kitti';
+import { parseDelimitedText } from './text';
+import { buildKDTree } from './kdtree';
+import { buildOctree } from './octree';
+import { PointCloudData, ProgressCallback } from './types';
+import { parsedCloudTransferables, progressStage as stage, serveWorkerRequests } from './worker';
+import type { ParseRequest, ParsedCloud } from './loader';
+
+// 워커가 돌려주는 결과 (label별 점 개수는 [label, 개수] 목록)
+export interface ParsedFile {
+  clouds: ParsedCloud[];
+  labelCounts?: [number, number][];
+}
+
+// 파일을 스트림으로 읽으며 진행률 보고 (.gz는 읽는 동시에 압축 해제)
+const readFile = async (file: File, onProgress: ProgressCallback): Promise<ArrayBuffer> => {
+  const reader = file.stream().getReader();
+  const inflator = /\.gz$/i.test(file.name) ? new pako.Inflate() : null;
+  const output = inflator ? null : new Uint8Array(file.size);
+  // 마지막 청크는 압축 해제를 마무리하도록 finish 플래그와 함께 넣음
+  let pending: Uint8Array | null = null;
+  let bytesRead = 0;
+
+  const inflate = (chunk: Uint8Array, last: boolean) => {
+    inflator!.push(chunk, last);
+    if (inflator!.err) {
+      throw new Error(`Failed to decompress ${file.name}: ${inflator!.msg}`);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (inflator) {
+      if (pending) inflate(pending, false);
+      pending = value;
+    } else {
+      output!.set(value, bytesRead);
+    }
+    bytesRead += value.byteLength;
+    onProgress(bytesRead / file.size);
+  }
+
+  if (!inflator) return output!.buffer;
+
+  if (!pending) {
+    throw new Error(`Failed to decompress ${file.name}: file is empty`);
+  }
+  inflate(pending, true);
+  const result = inflator.result as Uint8Array;
+  return result.byteLength === result.buffer.byteLength ? result.buffer as ArrayBuffer : result.slice().buffer;
+};
+
+// 파싱 결과마다 옥트리와 KD-tree 생성 (진행률 구간은 클라우드 수로 나눔)
+const withIndices = (clouds: { name: string; cloud: PointCloudData }[], start: number, end: number): ParsedCloud[] => {
+  const step = (end - start) / clouds.length;
+  return clouds.map(({ name, cloud }, i) => {
+    const octree = buildOctree(cloud, {}, stage(start + step * i, start + step * (i + 0.5)));
+    const index = buildKDTree(cloud.positions, cloud.count);
+    stage(start, end)((i + 1) / clouds.length);
+    return { name, cloud, octree, index };
+  });
+};
+
+const parse = async (request: ParseRequest): Promise<ParsedFile> => {
+  if (request.kind === 'text') {
+    const onProgress = stage(0, 90);
+    const cloud = await parseDelimitedText(request.file.stream(), request.options, (bytesRead) => {
+      onProgress(bytesRead / request.file.size);
+    });
+    return { clouds: withIndices([{ name: request.file.name, cloud }], 90, 100) };
+  }
+
+  if (request.kind === 'kitti') {
+    const scan = await readFile(request.scan, stage(0, 20));
+    const label = request.label ? await readFile(request.label, stage(20, 30)) : null;
+    const cloud = parseKITTIBin(scan, stage(30, 90));
+    const labelCounts = label ? Array.from(applyKITTILabels(cloud, label)) : undefined;
+    return { clouds: withIndices([{ name: request.scan.name, cloud }], 90, 100), labelCounts };
+  }
+
+  const { file } = request;
+  const arrayBuffer = await readFile(file, stage(0, 40));
+  // E57은 스캔마다 별도 클라우드
+  const clouds = isE57(file.name)
+    ? parseE57(arrayBuffer, true, stage(40, 90))
+    : [{ name: file.name, cloud: parsePointCloud(file.name, arrayBuffer, stage(40, 90)) }];
+  return { clouds: withIndices(clouds, 90, 100) };
+};
+
+serveWorkerRequests(parse, ({ clouds }) => clouds.flatMap(parsedCloudTransferables));
@@ -0,0 +1,326 @@
+import * as THREE from 'three';
+import { lzfDecompress } from './lzf';
+import { createPointCloudBuilder } from './data';
+import { AttributeArrayType, PROGRESS_INTERVAL, PointCloudData, ProgressCallback } from './types';
+
+export interface PCDHeader {
+  version: string;
+  fields: string[];
+  size: number[];
+  type: string[];
+  count: number[];
+  // organized cloud이면 HEIGHT > 1 (WIDTH x HEIGHT 격자)
+  width: number;
+  height: number;
+  // 센서 자세: tx ty tz qw qx qy qz
+  viewpoint: number[];
+  points: number;
+  data: string;
+  // DATA 줄까지 포함한 헤더의 바이트 길이
+  headerLength: number;
+}
+
+interface FieldLayout {
+  name: string;
+  type: string;
+  size: number;
+  count: number;
+  // 점 하나 안에서의 바이트 오프셋 (binary)
+  offset: number;
+  // 한 줄 안에서의 토큰 위치 (ascii)
+  column: number;
+}
+
+interface FieldReader {
+  value: (pointIndex: number, field: FieldLayout, element?: number) => number;
+  // rgb / rgba 처럼 32비트에 색상을 담은 필드의 원본 비트
+  packed: (pointIndex: number, field: FieldLayout) => number;
+}
+
+const SUPPORTED_TYPES = ['F4', 'F8', 'I1', 'I2', 'I4', 'I8', 'U1', 'U2', 'U4', 'U8'];
+
+// 속성 배열 타입 (64비트 정수는 Float64로)
+const ATTRIBUTE_TYPES: Record<string, AttributeArrayType> = {
+  F4: Float32Array, F8: Float64Array,
+  I1: Int8Array, I2: Int16Array, I4: Int32Array, I8: Float64Array,
+  U1: Uint8Array, U2: Uint16Array, U4: Uint32Array, U8: Float64Array,
+};
+const IDENTITY_VIEWPOINT = [0, 0, 0, 1, 0, 0, 0];
+
+// 헤더 파싱: 바이너리 본문 전체를 문자열로 디코딩하지 않도록 DATA 줄까지만 바이트 단위로 읽음
+export const parsePCDHeader = (arrayBuffer: ArrayBuffer): PCDHeader => {
+  const bytes = new Uint8Array(arrayBuffer);
+  const decoder = new TextDecoder();
+
+  const header: PCDHeader = {
+    version: '',
+    fields: [],
+    size: [],
+    type: [],
+    count: [],
+    width: 0,
+    height: 1,
+    viewpoint: IDENTITY_VIEWPOINT,
+    points: -1,
+    data: '',
+    headerLength: -1,
+  };
+
+  let lineStart = 0;
+  while (lineStart < bytes.length) {
+    let lineEnd = bytes.indexOf(0x0a, lineStart);
+    if (lineEnd === -1) lineEnd = bytes.length;
+
+    const line = decoder.decode(bytes.subarray(lineStart, lineEnd)).trim();
+    lineStart = lineEnd + 1;
+
+    if (line === '' || line.startsWith('#')) continue;
+
+    const [key, ...values] = line.split(/\s+/);
+    if (key === 'VERSION') {
+      header.version = values[0];
+    } else if (key === 'FIELDS') {
+      header.fields = values;
+    } else if (key === 'SIZE') {
+      header.size = values.map(Number);
+    } else if (key === 'TYPE') {
+      header.type = values;
+    } else if (key === 'COUNT') {
+      header.count = values.map(Number);
+    } else if (key === 'WIDTH') {
+      header.width = parseInt(values[0]);
+    } else if (key === 'HEIGHT') {
+      header.height = parseInt(values[0]);
+    } else if (key === 'VIEWPOINT') {
+      header.viewpoint = values.map(Number);
+    } else if (key === 'POINTS') {
+      header.points = parseInt(values[0]);
+    } else if (key === 'DATA') {
+      header.data = values[0];
+      header.headerLength = Math.min(lineStart, bytes.length);
+      break;
+    }
+  }
+
+  if (header.headerLength === -1) {
+    throw new Error('Invalid PCD file: DATA section not found');
+  }
+
+  // COUNT 생략 시 모든 필드는 1개 값
+  if (header.count.length === 0) {
+    header.count = header.fields.map(() => 1);
+  }
+  const { fields, size, type, count } = header;
+  if (size.length !== fields.length || type.length !== fields.length || count.length !== fields.length) {
+    throw new Error('Invalid PCD file: FIELDS, SIZE, TYPE and COUNT must have the same length');
+  }
+  for (let i = 0; i < fields.length; i++) {
+    if (!SUPPORTED_TYPES.includes(`${type[i]}${size[i]}`)) {
+      throw new Error(`Unsupported PCD field type: ${fields[i]} (TYPE ${type[i]}, SIZE ${size[i]})`);
+    }
+  }
+  if (header.viewpoint.length !== 7 || header.viewpoint.some(v => !Number.isFinite(v))) {
+    throw new Error('Invalid PCD file: VIEWPOINT must have 7 values');
+  }
+
+  // POINTS가 없으면 WIDTH * HEIGHT (PCD 0.6 이하)
+  if (header.points === -1) {
+    header.points = header.width * header.height;
+  }
+  if (header.width === 0) {
+    header.width = header.points;
+  }
+
+  return header;
+};
+
+// 단일 필드 값 읽기
+const readValue = (dataView: DataView, offset: number, fieldType: string, fieldSize: number): number => {
+  if (fieldType === 'F') {
+    return fieldSize === 8 ? dataView.getFloat64(offset, true) : dataView.getFloat32(offset, true); // little-endian
+  } else if (fieldType === 'U') {
+    if (fieldSize === 8) {
+      return Number(dataView.getBigUint64(offset, true));
+    } else if (fieldSize === 4) {
+      return dataView.getUint32(offset, true);
+    } else if (fieldSize === 2) {
+      return dataView.getUint16(offset, true);
+    }
+    return dataView.getUint8(offset);
+  }
+  if (fieldSize === 8) {
+    return Number(dataView.getBigInt64(offset, true));
+  } else if (fieldSize === 4) {
+    return dataView.getInt32(offset, true);
+  } else if (fieldSize === 2) {
+    return dataView.getInt16(offset, true);
+  }
+  return dataView.getInt8(offset);
+};
+
+// ascii에 float로 기록된 packed rgb를 원래의 32비트 정수로 되돌림
+const floatBits = new DataView(new ArrayBuffer(4));
+const packedFromText = (token: string, fieldType: string): number => {
+  if (fieldType === 'F') {
+    floatBits.setFloat32(0, parseFloat(token), true);
+    return floatBits.getUint32(0, true);
+  }
+  return Number(token) >>> 0;
+};
+
+const createBinaryReader = (dataView: DataView, offsetOf: (pointIndex: number, field: FieldLayout) => number): FieldReader => ({
+  value: (i, field, element = 0) => readValue(dataView, offsetOf(i, field) + element * field.size, field.type, field.size),
+  // PCL은 rgb를 float32 비트 패턴(0x00RRGGBB)으로, rgba를 uint32(0xAARRGGBB)로 저장
+  packed: (i, field) => dataView.getUint32(offsetOf(i, field), true),
+});
+
+const createAsciiReader = (rows: string[][]): FieldReader => ({
+  value: (i, field, element = 0) => parseFloat(rows[i][field.column + element]),
+  packed: (i, field) => packedFromText(rows[i][field.column], field.type),
+});
+
+// PCD 파일 파싱 함수 (ascii / binary / binary_compressed)
+export const parsePCD = (arrayBuffer: ArrayBuffer, onProgress?: ProgressCallback): PointCloudData => {
+  const header = parsePCDHeader(arrayBuffer);
+  let pointsCount = header.points;
+
+  // Calculate field offsets and total point size
+  const layouts: FieldLayout[] = [];
+  let pointSizeBytes = 0;
+  let columns = 0;
+  for (let i = 0; i < header.fields.length; i++) {
+    layouts.push({
+      name: header.fields[i],
+      type: header.type[i],
+      size: header.size[i],
+      count: header.count[i],
+      offset: pointSizeBytes,
+      column: columns,
+    });
+    pointSizeBytes += header.size[i] * header.count[i];
+    columns += header.count[i];
+  }
+
+  let reader: FieldReader;
+
+  if (header.data === 'binary') {
+    const dataView = new DataView(arrayBuffer, header.headerLength);
+    if (dataView.byteLength < pointsCount * pointSizeBytes) {
+      throw new Error('Invalid PCD file: binary data is shorter than POINTS * point size');
+    }
+    // 점 단위로 모든 필드가 연속 (array-of-structures)
+    reader = createBinaryReader(dataView, (i, field) => i * pointSizeBytes + field.offset);
+  } else if (header.data === 'binary_compressed') {
+    const sizeView = new DataView(arrayBuffer, header.headerLength);
+    if (sizeView.byteLength < 8) {
+      throw new Error('Invalid PCD file: missing compressed data sizes');
+    }
+    const compressedSize = sizeView.getUint32(0, true);
+    const uncompressedSize = sizeView.getUint32(4, true);
+    if (compressedSize > sizeView.byteLength - 8) {
+      throw new Error('Invalid PCD file: compressed data is truncated');
+    }
+    if (uncompressedSize !== pointsCount * pointSizeBytes) {
+      throw new Error('Invalid PCD file: uncompressed size does not match POINTS * point size');
+    }
+
+    const compressed = new Uint8Array(arrayBuffer, header.headerLength + 8, compressedSize);
+    const decompressed = lzfDecompress(compressed, uncompressedSize);
+    // 필드 단위로 모든 점의 값이 연속 (structure-of-arrays)
+    reader = createBinaryReader(
+      new DataView(decompressed.buffer),
+      (i, field) => pointsCount * field.offset + i * field.size * field.count
+    );
+  } else if (header.data === 'ascii') {
+    const rows: string[][] = [];
+    const lines = new TextDecoder().decode(new Uint8Array(arrayBuffer, header.headerLength)).split('\n');
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed === '') continue;
+      const tokens = trimmed.split(/\s+/);
+      if (tokens.length < columns) {
+        throw new Error(`Invalid PCD file: expected ${columns} values per line, got ${tokens.length}`);
+      }
+      rows.push(tokens);
+    }
+    pointsCount = Math.min(pointsCount, rows.length);
+    reader = createAsciiReader(rows);
+  } else {
+    throw new Error(`Unsupported PCD data type: ${header.data}`);
+  }
+
+  const field = (name: string) => layouts.find(layout => layout.name === name);
+  const xField = field('x');
+  const yField = field('y');
+  const zField = field('z');
+  const packedColorField = field('rgb') || field('rgba');
+  const rField = field('r');
+  const gField = field('g');
+  const bField = field('b');
+  const normalFields = ['normal_x', 'normal_y', 'normal_z'].map(field);
+  const hasRgbFields = !!(rField && gField && bField);
+  const hasNormals = normalFields.every(Boolean);
+
+  // 나머지 필드는 모두 속성으로 보관 (COUNT > 1이면 name_0, name_1, ...; PCL의 패딩 필드 '_'는 제외)
+  const used = new Set<FieldLayout | undefined>([xField, yField, zField, packedColorField]);
+  if (hasRgbFields) [rField, gField, bField].forEach(layout => used.add(layout));
+  if (hasNormals) normalFields.forEach(layout => used.add(layout));
+  const attributeFields: { name: string; layout: FieldLayout; element: number }[] = [];
+  for (const layout of layouts) {
+    if (used.has(layout) || layout.name === '_') continue;
+    for (let element = 0; element < layout.count; element++) {
+      attributeFields.push({ name: layout.count > 1 ? `${layout.name}_${element}` : layout.name, layout, element });
+    }
+  }
+
+  // VIEWPOINT가 단위 자세가 아니면 센서 좌표계 -> 월드 좌표계로 변환
+  const [tx, ty, tz, qw, qx, qy, qz] = header.viewpoint;
+  const applyViewpoint = header.viewpoint.some((v, i) => v !== IDENTITY_VIEWPOINT[i]);
+  const translation = new THREE.Vector3(tx, ty, tz);
+  const rotation = new THREE.Quaternion(qx, qy, qz, qw).normalize();
+  const position = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+
+  const builder = createPointCloudBuilder({
+    color: !!packedColorField || hasRgbFields,
+    normal: hasNormals,
+    attributes: Object.fromEntries(attributeFields.map(({ name, layout }) => [name, ATTRIBUTE_TYPES[`${layout.type}${layout.size}`]])),
+  }, pointsCount);
+  for (let i = 0; i < pointsCount; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i / pointsCount);
+
+    const x = xField ? reader.value(i, xField) : 0;
+    const y = yField ? reader.value(i, yField) : 0;
+    const z = zField ? reader.value(i, zField) : 0;
+
+    // organized cloud의 유효하지 않은 측정값은 NaN으로 기록됨
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) continue;
+
+    position.set(x, y, z);
+    if (applyViewpoint) {
+      position.applyQuaternion(rotation).add(translation);
+    }
+    const index = builder.add(position.x, position.y, position.z);
+
+    // Handle colors
+    if (packedColorField) {
+      const rgb = reader.packed(i, packedColorField);
+      builder.setColor(index, (rgb >> 16) & 0xFF, (rgb >> 8) & 0xFF, rgb & 0xFF);
+    } else if (hasRgbFields) {
+      builder.setColor(index, reader.value(i, rField!), reader.value(i, gField!), reader.value(i, bField!));
+    }
+
+    if (hasNormals) {
+      normal.set(reader.value(i, normalFields[0]!), reader.value(i, normalFields[1]!), reader.value(i, normalFields[2]!));
+      if (applyViewpoint) {
+        normal.applyQuaternion(rotation);
+      }
+      builder.setNormal(index, normal.x, normal.y, normal.z);
+    }
+    for (const { name, layout, element } of attributeFields) {
+      builder.setAttribute(name, index, reader.value(i, layout, element));
+    }
+  }
+
+  return { ...builder.build(), sensor: [tx, ty, tz] };
+};
@@ -0,0 +1,305 @@
+import { createPointCloudBuilder } from './data';
+import { AttributeArrayType, PROGRESS_INTERVAL, PointCloudData, ProgressCallback } from './types';
+
+export interface PLYProperty {
+  name: string;
+  type: string;
+  // list 속성이면 개수 타입과 원소 타입
+  countType?: string;
+  itemType?: string;
+}
+
+export interface PLYElement {
+  name: string;
+  count: number;
+  properties: PLYProperty[];
+}
+
+export interface PLYHeader {
+  format: 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+  elements: PLYElement[];
+  comments: string[];
+  // end_header 줄까지 포함한 헤더의 바이트 길이
+  headerLength: number;
+}
+
+// PLY 타입 이름 -> 바이트 크기 (구 이름과 int8 계열 이름 모두 허용)
+const TYPE_SIZES: Record<string, number> = {
+  char: 1, int8: 1,
+  uchar: 1, uint8: 1,
+  short: 2, int16: 2,
+  ushort: 2, uint16: 2,
+  int: 4, int32: 4,
+  uint: 4, uint32: 4,
+  float: 4, float32: 4,
+  double: 8, float64: 8,
+};
+
+// PLY 타입 이름 -> attributes 배열 타입
+const ATTRIBUTE_TYPES: Record<string, AttributeArrayType> = {
+  char: Int8Array, int8: Int8Array,
+  uchar: Uint8Array, uint8: Uint8Array,
+  short: Int16Array, int16: Int16Array,
+  ushort: Uint16Array, uint16: Uint16Array,
+  int: Int32Array, int32: Int32Array,
+  uint: Uint32Array, uint32: Uint32Array,
+  float: Float32Array, float32: Float32Array,
+  double: Float64Array, float64: Float64Array,
+};
+
+// 색상 속성 이름 (diffuse_* 는 MeshLab 등에서 사용)
+const COLOR_NAMES = [
+  ['red', 'green', 'blue'],
+  ['r', 'g', 'b'],
+  ['diffuse_red', 'diffuse_green', 'diffuse_blue'],
+];
+const NORMAL_NAMES = ['nx', 'ny', 'nz'];
+const POSITION_NAMES = ['x', 'y', 'z'];
+
+const checkType = (type: string) => {
+  if (!(type in TYPE_SIZES)) {
+    throw new Error(`Unsupported PLY property type: ${type}`);
+  }
+  return type;
+};
+
+// 헤더 파싱
+export const parsePLYHeader = (arrayBuffer: ArrayBuffer): PLYHeader => {
+  const bytes = new Uint8Array(arrayBuffer);
+  const decoder = new TextDecoder();
+
+  const header: PLYHeader = {
+    format: 'ascii',
+    elements: [],
+    comments: [],
+    headerLength: -1,
+  };
+
+  let lineStart = 0;
+  let lineNumber = 0;
+  while (lineStart < bytes.length) {
+    let lineEnd = bytes.indexOf(0x0a, lineStart);
+    if (lineEnd === -1) lineEnd = bytes.length;
+
+    const line = decoder.decode(bytes.subarray(lineStart, lineEnd)).trim();
+    lineStart = lineEnd + 1;
+
+    if (lineNumber++ === 0) {
+      if (line !== 'ply') {
+        throw new Error('Invalid PLY file: missing "ply" magic');
+      }
+      continue;
+    }
+    if (line === '') continue;
+
+    const [key, ...values] = line.split(/\s+/);
+    if (key === 'format') {
+      if (values[0] !== 'ascii' && values[0] !== 'binary_little_endian' && values[0] !== 'binary_big_endian') {
+        throw new Error(`Unsupported PLY format: ${values[0]}`);
+      }
+      header.format = values[0];
+    } else if (key === 'comment' || key === 'obj_info') {
+      header.comments.push(values.join(' '));
+    } else if (key === 'element') {
+      header.elements.push({ name: values[0], count: parseInt(values[1]), properties: [] });
+    } else if (key === 'property') {
+      const element = header.elements[header.elements.length - 1];
+      if (!element) {
+        throw new Error('Invalid PLY file: property declared before any element');
+      }
+      if (values[0] === 'list') {
+        element.properties.push({
+          name: values[3],
+          type: 'list',
+          countType: checkType(values[1]),
+          itemType: checkType(values[2]),
+        });
+      } else {
+        element.properties.push({ name: values[1], type: checkType(values[0]) });
+      }
+    } else if (key === 'end_header') {
+      header.headerLength = Math.min(lineStart, bytes.length);
+      break;
+    }
+  }
+
+  if (header.headerLength === -1) {
+    throw new Error('Invalid PLY file: end_header not found');
+  }
+
+  return header;
+};
+
+const readValue = (dataView: DataView, offset: number, type: string, littleEndian: boolean): number => {
+  switch (type) {
+    case 'char':
+    case 'int8':
+      return dataView.getInt8(offset);
+    case 'uchar':
+    case 'uint8':
+      return dataView.getUint8(offset);
+    case 'short':
+    case 'int16':
+      return dataView.getInt16(offset, littleEndian);
+    case 'ushort':
+    case 'uint16':
+      return dataView.getUint16(offset, littleEndian);
+    case 'int':
+    case 'int32':
+      return dataView.getInt32(offset, littleEndian);
+    case 'uint':
+    case 'uint32':
+      return dataView.getUint32(offset, littleEndian);
+    case 'float':
+    case 'float32':
+      return dataView.getFloat32(offset, littleEndian);
+    default:
+      return dataView.getFloat64(offset, littleEndian);
+  }
+};
+
+// 0~255로 맞추는 배율: 8비트 색상은 그대로, 16비트는 타입 최대값 기준, 실수형은 0~1 기준
+const colorScale = (type: string): number => {
+  if (type === 'uchar' || type === 'uint8' || type === 'char' || type === 'int8') return 1;
+  if (type === 'ushort' || type === 'uint16' || type === 'short' || type === 'int16') return 255 / 65535;
+  return 255;
+};
+
+// vertex 속성 값 배열을 포인트 빌더에 기록하는 함수 생성
+const createVertexWriter = (properties: PLYProperty[], vertexCount: number) => {
+  const indexOf = (name: string) => properties.findIndex(p => p.name === name && p.type !== 'list');
+  const [xIdx, yIdx, zIdx] = POSITION_NAMES.map(indexOf);
+  const normalIdx = NORMAL_NAMES.map(indexOf);
+  const hasNormal = normalIdx.every(i => i !== -1);
+  const colorIdx = COLOR_NAMES.map(names => names.map(indexOf)).find(idx => idx.every(i => i !== -1));
+  const scale = colorIdx ? colorScale(properties[colorIdx[0]].type) : 1;
+
+  // 나머지 스칼라 속성은 attributes로 보존
+  const used = new Set([xIdx, yIdx, zIdx, ...(hasNormal ? normalIdx : []), ...(colorIdx || [])]);
+  const attributeIdx = properties
+    .map((_, i) => i)
+    .filter(i => !used.has(i) && properties[i].type !== 'list');
+
+  const builder = createPointCloudBuilder({
+    color: !!colorIdx,
+    normal: hasNormal,
+    attributes: Object.fromEntries(attributeIdx.map(i => [properties[i].name, ATTRIBUTE_TYPES[properties[i].type]])),
+  }, vertexCount);
+
+  const write = (values: number[]) => {
+    const index = builder.add(
+      xIdx !== -1 ? values[xIdx] : 0,
+      yIdx !== -1 ? values[yIdx] : 0,
+      zIdx !== -1 ? values[zIdx] : 0
+    );
+    if (colorIdx) {
+      builder.setColor(
+        index,
+        Math.round(values[colorIdx[0]] * scale),
+        Math.round(values[colorIdx[1]] * scale),
+        Math.round(values[colorIdx[2]] * scale)
+      );
+    }
+    if (hasNormal) {
+      builder.setNormal(index, values[normalIdx[0]], values[normalIdx[1]], values[normalIdx[2]]);
+    }
+    for (const i of attributeIdx) {
+      builder.setAttribute(properties[i].name, index, values[i]);
+    }
+  };
+
+  return { write, build: builder.build };
+};
+
+// PLY 파일 파싱 함수 (ascii / binary_little_endian / binary_big_endian)
+export const parsePLY = (arrayBuffer: ArrayBuffer, onProgress?: ProgressCallback): PointCloudData => {
+  const header = parsePLYHeader(arrayBuffer);
+  const vertex = header.elements.find(e => e.name === 'vertex');
+  if (!vertex) {
+    throw new Error('Invalid PLY file: no vertex element');
+  }
+
+  const vertices = createVertexWriter(vertex.properties, vertex.count);
+  // list 속성 값은 버리고 스칼라 속성만 properties 순서대로 담음
+  const values: number[] = new Array(vertex.properties.length).fill(0);
+
+  if (header.format === 'ascii') {
+    const lines = new TextDecoder().decode(new Uint8Array(arrayBuffer, header.headerLength)).split('\n');
+    let lineIndex = 0;
+    const nextTokens = (): string[] => {
+      while (lineIndex < lines.length) {
+        const line = lines[lineIndex++].trim();
+        if (line !== '') return line.split(/\s+/);
+      }
+      throw new Error('Invalid PLY file: unexpected end of ascii data');
+    };
+
+    for (const element of header.elements) {
+      // 한 줄에 element 하나; vertex 앞의 element(face 등)는 건너뜀
+      if (element !== vertex) {
+        for (let i = 0; i < element.count; i++) nextTokens();
+        continue;
+      }
+
+      for (let i = 0; i < element.count; i++) {
+        if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i / element.count);
+        const tokens = nextTokens();
+        let t = 0;
+        element.properties.forEach((property, p) => {
+          if (property.type === 'list') {
+            t += parseInt(tokens[t]) + 1;
+          } else {
+            values[p] = parseFloat(tokens[t++]);
+          }
+        });
+        if (t > tokens.length) {
+          throw new Error(`Invalid PLY file: vertex ${i} has too few values`);
+        }
+        vertices.write(values);
+      }
+      break;
+    }
+    return vertices.build();
+  }
+
+  const littleEndian = header.format === 'binary_little_endian';
+  const dataView = new DataView(arrayBuffer, header.headerLength);
+  let offset = 0;
+
+  const ensure = (bytes: number) => {
+    if (offset + bytes > dataView.byteLength) {
+      throw new Error('Invalid PLY file: unexpected end of binary data');
+    }
+  };
+
+  for (const element of header.elements) {
+    const isVertex = element === vertex;
+
+    for (let i = 0; i < element.count; i++) {
+      if (onProgress && isVertex && i % PROGRESS_INTERVAL === 0) onProgress(i / element.count);
+      element.properties.forEach((property, p) => {
+        if (property.type === 'list') {
+          const countSize = TYPE_SIZES[property.countType!];
+          ensure(countSize);
+          const length = readValue(dataView, offset, property.countType!, littleEndian);
+          offset += countSize + length * TYPE_SIZES[property.itemType!];
+        } else {
+          const size = TYPE_SIZES[property.type];
+          ensure(size);
+          if (isVertex) {
+            values[p] = readValue(dataView, offset, property.type, littleEndian);
+          }
+          offset += size;
+        }
+      });
+      if (isVertex) {
+        vertices.write(values);
+      }
+    }
+
+    // vertex 이후의 element는 읽을 필요 없음
+    if (isVertex) break;
+  }
+
+  return vertices.build();
+};
@@ -0,0 +1,283 @@
+import { createPointCloudBuilder } from './data';
+import { OctreeNode } from './octree';
+import { AttributeArrayType, PointCloudBounds, PointCloudData } from './types';
+
+// PotreeConverter 2.0 출력 (metadata.json, hierarchy.bin, octree.bin)
+
+export interface PotreeAttribute {
+  name: string;
+  size: number;
+  numElements: number;
+  elementSize: number;
+  type: string;
+  // 원소별 최소/최대 (PotreeConverter가 기록)
+  min?: number[];
+  max?: number[];
+}
+
+export interface PotreeMetadata {
+  version: string;
+  name: string;
+  points: number;
+  hierarchy: { firstChunkSize: number; stepSize: number; depth: number };
+  offset: [number, number, number];
+  scale: [number, number, number];
+  spacing: number;
+  boundingBox: { min: [number, number, number]; max: [number, number, number] };
+  encoding: string;
+  attributes: PotreeAttribute[];
+}
+
+export interface PotreeNode extends OctreeNode {
+  // 0: 일반, 1: 리프, 2: 계층 정보를 아직 읽지 않은 프록시
+  nodeType: number;
+  // octree.bin 안의 점 데이터 위치
+  byteOffset: number;
+  byteSize: number;
+  // 프록시일 때 hierarchy.bin 안의 계층 정보 위치
+  hierarchyByteOffset: number;
+  hierarchyByteSize: number;
+}
+
+// 데이터셋 폴더 안의 파일에서 [offset, offset + length) 바이트를 읽음
+export type PotreeFileReader = (name: 'hierarchy.bin' | 'octree.bin', offset: number, length: number) => Promise<Uint8Array>;
+
+export interface PotreeDataset {
+  metadata: PotreeMetadata;
+  root: PotreeNode;
+  // 원래 좌표 = 노드 positions + offset
+  offset: [number, number, number];
+  // positions 기준 경계
+  bounds: PointCloudBounds;
+  // 점 속성 이름별 값 범위 (metadata에 min/max가 있는 것만)
+  ranges: Record<string, [number, number]>;
+  // 프록시 노드면 계층 정보를 먼저 읽고 점 데이터를 디코딩
+  loadNode: (node: PotreeNode) => Promise<PointCloudData>;
+}
+
+const HIERARCHY_NODE_SIZE = 22;
+
+interface ScalarReader {
+  array: AttributeArrayType;
+  read: (view: DataView, offset: number) => number;
+}
+
+const SCALAR_READERS: Record<string, ScalarReader> = {
+  int8: { array: Int8Array, read: (view, offset) => view.getInt8(offset) },
+  uint8: { array: Uint8Array, read: (view, offset) => view.getUint8(offset) },
+  int16: { array: Int16Array, read: (view, offset) => view.getInt16(offset, true) },
+  uint16: { array: Uint16Array, read: (view, offset) => view.getUint16(offset, true) },
+  int32: { array: Int32Array, read: (view, offset) => view.getInt32(offset, true) },
+  uint32: { array: Uint32Array, read: (view, offset) => view.getUint32(offset, true) },
+  int64: { array: Float64Array, read: (view, offset) => Number(view.getBigInt64(offset, true)) },
+  uint64: { array: Float64Array, read: (view, offset) => Number(view.getBigUint64(offset, true)) },
+  float: { array: Float32Array, read: (view, offset) => view.getFloat32(offset, true) },
+  double: { array: Float64Array, read: (view, offset) => view.getFloat64(offset, true) },
+};
+
+// 'gps-time', 'return number' 같은 이름을 LAS 파서와 같은 형태로
+const attributeName = (name: string) => name.toLowerCase().replace(/[\s-]+/g, '_');
+
+export const parsePotreeMetadata = (text: string): PotreeMetadata => {
+  const metadata = JSON.parse(text) as PotreeMetadata;
+  if (!metadata.version?.startsWith('2.')) {
+    throw new Error(`Unsupported Potree version: ${metadata.version ?? 'unknown'} (only 2.x is supported)`);
+  }
+  if (metadata.encoding !== 'DEFAULT') {
+    throw new Error(`Unsupported Potree encoding: ${metadata.encoding}`);
+  }
+  if (!metadata.attributes.some(attribute => attribute.name === 'position')) {
+    throw new Error('Potree metadata has no position attribute');
+  }
+  for (const attribute of metadata.attributes) {
+    if (!SCALAR_READERS[attribute.type]) {
+      throw new Error(`Unsupported Potree attribute type: ${attribute.name} (${attribute.type})`);
+    }
+  }
+  return metadata;
+};
+
+const createNode = (name: string, level: number, bounds: PointCloudBounds, spacing: number): PotreeNode => ({
+  name,
+  level,
+  bounds,
+  spacing,
+  count: 0,
+  children: [null, null, null, null, null, null, null, null],
+  nodeType: 2,
+  byteOffset: 0,
+  byteSize: 0,
+  hierarchyByteOffset: 0,
+  hierarchyByteSize: 0,
+});
+
+// 자식 번호 = (x << 2) | (y << 1) | z
+const childBounds = ({ min, max }: PointCloudBounds, index: number): PointCloudBounds => {
+  const childMin: [number, number, number] = [min[0], min[1], min[2]];
+  const childMax: [number, number, number] = [max[0], max[1], max[2]];
+  [index & 4, index & 2, index & 1].forEach((upper, axis) => {
+    const center = (min[axis] + max[axis]) / 2;
+    if (upper) childMin[axis] = center;
+    else childMax[axis] = center;
+  });
+  return { min: childMin, max: childMax };
+};
+
+// 계층 청크는 너비 우선으로 나열된 22바이트 레코드 (첫 레코드는 청크를 가리키던 프록시 자신)
+export const parseHierarchyChunk = (node: PotreeNode, buffer: Uint8Array) => {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const count = Math.floor(buffer.byteLength / HIERARCHY_NODE_SIZE);
+  const nodes: PotreeNode[] = [node];
+
+  for (let i = 0; i < count; i++) {
+    const current = nodes[i];
+    if (!current) {
+      throw new Error(`Invalid Potree hierarchy chunk for node ${node.name}`);
+    }
+    const base = i * HIERARCHY_NODE_SIZE;
+    const type = view.getUint8(base);
+    const childMask = view.getUint8(base + 1);
+    const numPoints = view.getUint32(base + 2, true);
+    const byteOffset = Number(view.getBigUint64(base + 6, true));
+    const byteSize = Number(view.getBigUint64(base + 14, true));
+
+    // 아직 읽지 않은 하위 청크를 가리키는 프록시
+    if (type === 2 && current !== node) {
+      current.hierarchyByteOffset = byteOffset;
+      current.hierarchyByteSize = byteSize;
+    } else {
+      current.byteOffset = byteOffset;
+      current.byteSize = byteSize;
+    }
+    current.count = byteSize === 0 ? 0 : numPoints;
+    current.nodeType = current === node && type === 2 ? 0 : type;
+    if (current.nodeType === 2) continue;
+
+    for (let child = 0; child < 8; child++) {
+      if (!(childMask & (1 << child))) continue;
+      const childNode = createNode(
+        `${current.name}${child}`,
+        current.level + 1,
+        childBounds(current.bounds, child),
+        current.spacing / 2
+      );
+      current.children[child] = childNode;
+      nodes.push(childNode);
+    }
+  }
+};
+
+// 16비트 색상이면 8비트로 줄임 (노드마다 정하면 어두운 노드만 밝아지므로 데이터셋 metadata로 정함)
+// PotreeConverter가 기록한 최대값이 있으면 그것으로, 없으면 저장 형식으로 판단
+const potreeColorShift = (attribute: PotreeAttribute) => {
+  if (attribute.max) return attribute.max.some(value => value > 255) ? 8 : 0;
+  return attribute.elementSize > 1 ? 8 : 0;
+};
+
+// DEFAULT 인코딩: 점마다 속성들이 metadata 순서대로 붙어 있음
+// 노드 positions는 모두 origin(데이터셋 경계의 최소점) 기준
+export const decodePotreeNode = (
+  metadata: PotreeMetadata,
+  origin: [number, number, number],
+  buffer: Uint8Array,
+  count: number
+): PointCloudData => {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const pointSize = metadata.attributes.reduce((sum, attribute) => sum + attribute.size, 0);
+  if (buffer.byteLength < count * pointSize) {
+    throw new Error(`Potree node data is truncated (${buffer.byteLength} of ${count * pointSize} bytes)`);
+  }
+
+  let position = 0;
+  let color: { offset: number; attribute: PotreeAttribute } | null = null;
+  let normal: { offset: number; attribute: PotreeAttribute } | null = null;
+  const scalars: { name: string; offset: number; reader: ScalarReader }[] = [];
+  const attributes: Record<string, AttributeArrayType> = {};
+
+  let attributeOffset = 0;
+  for (const attribute of metadata.attributes) {
+    const name = attributeName(attribute.name);
+    const reader = SCALAR_READERS[attribute.type];
+    if (name === 'position') {
+      position = attributeOffset;
+    } else if ((name === 'rgb' || name === 'rgba') && attribute.numElements >= 3) {
+      color = { offset: attributeOffset, attribute };
+    } else if (name.includes('normal') && attribute.numElements === 3) {
+      normal = { offset: attributeOffset, attribute };
+    } else if (attribute.numElements === 1) {
+      scalars.push({ name, offset: attributeOffset, reader });
+      attributes[name] = reader.array;
+    } else {
+      for (let k = 0; k < attribute.numElements; k++) {
+        scalars.push({ name: `${name}_${k}`, offset: attributeOffset + k * attribute.elementSize, reader });
+        attributes[`${name}_${k}`] = reader.array;
+      }
+    }
+    attributeOffset += attribute.size;
+  }
+
+  const colorShift = color ? potreeColorShift(color.attribute) : 0;
+
+  const builder = createPointCloudBuilder({ color: !!color, normal: !!normal, attributes, offset: origin }, count);
+  const { scale, offset } = metadata;
+  for (let i = 0; i < count; i++) {
+    const base = i * pointSize;
+    // 원래 좌표 = 정수 * scale + offset
+    const index = builder.add(
+      view.getInt32(base + position, true) * scale[0] + offset[0],
+      view.getInt32(base + position + 4, true) * scale[1] + offset[1],
+      view.getInt32(base + position + 8, true) * scale[2] + offset[2]
+    );
+    if (color) {
+      const { offset: colorOffset, attribute } = color;
+      const reader = SCALAR_READERS[attribute.type];
+      const channel = (k: number) => reader.read(view, base + colorOffset + k * attribute.elementSize) >> colorShift;
+      builder.setColor(index, channel(0), channel(1), channel(2));
+    }
+    if (normal) {
+      const { offset: normalOffset, attribute } = normal;
+      const reader = SCALAR_READERS[attribute.type];
+      const component = (k: number) => reader.read(view, base + normalOffset + k * attribute.elementSize);
+      builder.setNormal(index, component(0), component(1), component(2));
+    }
+    for (const scalar of scalars) {
+      builder.setAttribute(scalar.name, index, scalar.reader.read(view, base + scalar.offset));
+    }
+  }
+
+  return builder.build();
+};
+
+export const createPotreeDataset = (metadata: PotreeMetadata, read: PotreeFileReader): PotreeDataset => {
+  const origin = metadata.boundingBox.min;
+  const size = metadata.boundingBox.max.map((value, axis) => value - origin[axis]) as [number, number, number];
+  const bounds: PointCloudBounds = { min: [0, 0, 0], max: size };
+
+  const root = createNode('r', 0, bounds, metadata.spacing);
+  root.hierarchyByteSize = metadata.hierarchy.firstChunkSize;
+
+  const loadNode = async (node: PotreeNode): Promise<PointCloudData> => {
+    if (node.nodeType === 2) {
+      const chunk = await read('hierarchy.bin', node.hierarchyByteOffset, node.hierarchyByteSize);
+      parseHierarchyChunk(node, chunk);
+    }
+    if (node.count === 0) {
+      return decodePotreeNode(metadata, origin, new Uint8Array(0), 0);
+    }
+    const buffer = await read('octree.bin', node.byteOffset, node.byteSize);
+    return decodePotreeNode(metadata, origin, buffer, node.count);
+  };
+
+  // decodePotreeNode와 같은 규칙으로 속성 이름을 붙임
+  const ranges: Record<string, [number, number]> = {};
+  for (const attribute of metadata.attributes) {
+    const name = attributeName(attribute.name);
+    if (name === 'position' || name === 'rgb' || name === 'rgba' || !attribute.min || !attribute.max) continue;
+    if (name.includes('normal') && attribute.numElements === 3) continue;
+    for (let k = 0; k < attribute.numElements; k++) {
+      ranges[attribute.numElements === 1 ? name : `${name}_${k}`] = [attribute.min[k], attribute.max[k]];
+    }
+  }
+
+  return { metadata, root, offset: origin, bounds, ranges, loadNode };
+};
@@ -0,0 +1,51 @@
+import { KDTree } from './kdtree';
+import { ParsedCloud } from './loader';
+import { OutlierOptions } from './outliers';
+import { GroundOptions, Plane } from './ground';
+import { ClusterOptions, ClusterResult } from './clusters';
+import { VoxelOptions } from './voxel';
+import { PointCloudData } from './types';
+import { WorkerTask, runInWorker } from './worker';
+
+// 메모리에 있는 레이어 하나 (배열은 복사되어 전달되므로 원본은 그대로 씀)
+export interface ProcessInput {
+  positions: Float32Array;
+  tree: KDTree;
+  // 1인 점(숨기거나 지운 점)은 처리에서 제외
+  hidden: Uint8Array | null;
+}
+
+// 결과로 새 클라우드를 만드는 작업의 입력 (색상/속성까지 복사)
+export interface CloudInput {
+  name: string;
+  cloud: PointCloudData;
+  hidden: Uint8Array | null;
+}
+
+// 지면 분리 결과 (평면은 positions 기준; 분리된 클라우드는 옥트리/KD-tree까지 만든 상태)
+export interface GroundSplit {
+  plane: Plane;
+  ground: ParsedCloud;
+  nonGround: ParsedCloud;
+}
+
+// 불러온 레이어를 워커에서 처리할 작업
+export type ProcessRequest =
+  | { kind: 'outliers'; inputs: ProcessInput[]; options: OutlierOptions }
+  | { kind: 'ground'; inputs: CloudInput[]; options: GroundOptions }
+  | { kind: 'clusters'; inputs: ProcessInput[]; options: ClusterOptions }
+  | { kind: 'voxel'; inputs: CloudInput[]; options: VoxelOptions };
+
+// 입력 레이어마다 결과 하나 (지면 평면을 찾지 못한 레이어는 null)
+export type ProcessResult =
+  | { kind: 'outliers'; masks: Uint8Array[] }
+  | { kind: 'ground'; splits: (GroundSplit | null)[] }
+  | { kind: 'clusters'; results: ClusterResult[] }
+  // 다운샘플링한 클라우드 (이름은 입력 그대로)
+  | { kind: 'voxel'; clouds: ParsedCloud[] };
+
+// 점 처리(이상점 제거, 다운샘플링 등)를 워커에서 실행하고 진행률(%)을 알려줌
+export const processInWorker = (request: ProcessRequest, onProgress: (percent: number) => void): WorkerTask<ProcessResult> => {
+  const worker = new Worker(new URL('./processing.worker.ts', import.meta.url), { type: 'module' });
+  return runInWorker<ProcessResult>(worker, request, onProgress);
+};
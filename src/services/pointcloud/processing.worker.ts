@@ -0,0 +1,71 @@
+import { findOutliers } from './outliers';
+import { fitGroundPlane } from './ground';
+import { extractClusters } from './clusters';
+import { voxelDownsample } from './voxel';
+import { selectPoints } from './data';
+import { buildKDTree } from './kdtree';
+import { buildOctree } from './octree';
+import { PointCloudData } from './types';
+import { parsedCloudTransferables, progressStage as stage, serveWorkerRequests } from './worker';
+import type { ParsedCloud } from './loader';
+import type { GroundSplit, ProcessRequest, ProcessResult } from './processing';
+
+// 렌더링/피킹용 옥트리와 KD-tree를 붙인 결과 클라우드
+const indexed = (name: string, cloud: PointCloudData): ParsedCloud => (
+  { name, cloud, octree: buildOctree(cloud), index: buildKDTree(cloud.positions, cloud.count) }
+);
+
+// accept를 통과하고 숨기지 않은 점만 모은 클라우드
+const keptPoints = (cloud: PointCloudData, hidden: Uint8Array | null, accept: (index: number) => boolean = () => true) => {
+  const indices = new Uint32Array(cloud.count);
+  let count = 0;
+  for (let i = 0; i < cloud.count; i++) {
+    if (accept(i) && !hidden?.[i]) indices[count++] = i;
+  }
+  return selectPoints(cloud, indices.subarray(0, count));
+};
+
+// 입력 레이어마다 진행률 구간을 나눠 처리
+const process = (request: ProcessRequest): ProcessResult => {
+  const step = 100 / request.inputs.length;
+  if (request.kind === 'outliers') {
+    const masks = request.inputs.map(({ positions, tree, hidden }, i) =>
+      findOutliers(positions, tree, request.options, hidden, stage(step * i, step * (i + 1)))
+    );
+    return { kind: 'outliers', masks };
+  }
+  if (request.kind === 'clusters') {
+    const results = request.inputs.map(({ positions, tree, hidden }, i) =>
+      extractClusters(positions, tree, request.options, hidden, stage(step * i, step * (i + 1)))
+    );
+    return { kind: 'clusters', results };
+  }
+  if (request.kind === 'voxel') {
+    const clouds = request.inputs.map(({ name, cloud, hidden }, i) => {
+      const downsampled = voxelDownsample(hidden ? keptPoints(cloud, hidden) : cloud, request.options, stage(step * i, step * (i + 0.8)));
+      const parsed = indexed(name, downsampled);
+      stage(step * i, step * (i + 1))(1);
+      return parsed;
+    });
+    return { kind: 'voxel', clouds };
+  }
+
+  const splits = request.inputs.map(({ name, cloud, hidden }, i): GroundSplit | null => {
+    const fit = fitGroundPlane(cloud.positions, cloud.count, request.options, hidden, stage(step * i, step * (i + 0.6)));
+    if (!fit) return null;
+    const ground = indexed(`${name} - ground`, keptPoints(cloud, hidden, (index) => fit.ground[index] === 1));
+    const nonGround = indexed(`${name} - non-ground`, keptPoints(cloud, hidden, (index) => fit.ground[index] === 0));
+    stage(step * i, step * (i + 1))(1);
+    return { plane: fit.plane, ground, nonGround };
+  });
+  return { kind: 'ground', splits };
+};
+
+const transferablesOfResult = (result: ProcessResult): ArrayBuffer[] => {
+  if (result.kind === 'outliers') return result.masks.map(mask => mask.buffer as ArrayBuffer);
+  if (result.kind === 'clusters') return result.results.map(({ labels }) => labels.buffer as ArrayBuffer);
+  if (result.kind === 'voxel') return result.clouds.flatMap(parsedCloudTransferables);
+  return result.splits.flatMap(split => (split ? [...parsedCloudTransferables(split.ground), ...parsedCloudTransferables(split.nonGround)] : []));
+};
+
+serveWorkerRequests(process, transferablesOfResult);
@@ -0,0 +1,170 @@
+import * as THREE from 'three';
+
+// 상자/올가미/브러시로 고른 점 표시 (1: 선택); 길이는 클라우드 점 개수
+
+export type ScreenPolygon = [number, number][];
+
+// 같은 화면 칸에서 가장 앞 점보다 이 비율 이상 멀면 가려진 점으로 봄 (비스듬히 본 면의 칸 안 깊이 차이는 넘지 않게)
+export const FRONT_DEPTH_TOLERANCE = 0.05;
+
+// toBox: positions 좌표 -> 상자 좌표 (상자가 [-0.5, 0.5]³인 좌표계)
+// accept가 false인 점(숨기거나 지운 점)은 고르지 않음
+export const selectInBox = (
+  positions: Float32Array,
+  count: number,
+  toBox: THREE.Matrix4,
+  accept?: (index: number) => boolean
+): Uint8Array => {
+  const e = toBox.elements;
+  const selected = new Uint8Array(count);
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    const bx = e[0] * x + e[4] * y + e[8] * z + e[12];
+    const by = e[1] * x + e[5] * y + e[9] * z + e[13];
+    const bz = e[2] * x + e[6] * y + e[10] * z + e[14];
+    if (Math.abs(bx) <= 0.5 && Math.abs(by) <= 0.5 && Math.abs(bz) <= 0.5 && (!accept || accept(i))) {
+      selected[i] = 1;
+    }
+  }
+  return selected;
+};
+
+// 짝수-홀수 규칙으로 다각형 안쪽인지
+export const pointInPolygon = (x: number, y: number, polygon: ScreenPolygon): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// toClip: positions 좌표 -> 클립 좌표 (투영 * 뷰 * 모델); polygon은 NDC(-1 ~ 1) 좌표
+// 카메라 뒤에 있는 점은 고르지 않음
+export const selectInLasso = (
+  positions: Float32Array,
+  count: number,
+  toClip: THREE.Matrix4,
+  polygon: ScreenPolygon,
+  accept?: (index: number) => boolean
+): Uint8Array => {
+  const e = toClip.elements;
+  const selected = new Uint8Array(count);
+  if (polygon.length < 3) return selected;
+
+  // 다각형 경계 상자로 먼저 거름
+  const xs = polygon.map(([x]) => x);
+  const ys = polygon.map(([, y]) => y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    const w = e[3] * x + e[7] * y + e[11] * z + e[15];
+    if (w <= 0) continue;
+    const sx = (e[0] * x + e[4] * y + e[8] * z + e[12]) / w;
+    const sy = (e[1] * x + e[5] * y + e[9] * z + e[13]) / w;
+    if (sx < minX || sx > maxX || sy < minY || sy > maxY) continue;
+    if (pointInPolygon(sx, sy, polygon) && (!accept || accept(i))) selected[i] = 1;
+  }
+  return selected;
+};
+
+// 화면의 원 안에 들어오는 점 (브러시); center와 radius는 NDC 좌표 (가로/세로 반지름이 달라 타원)
+// 깊이는 보지 않으므로 가려진 점까지 고름 (앞 면만 남기려면 frontSurface)
+export const selectInCircle = (
+  positions: Float32Array,
+  count: number,
+  toClip: THREE.Matrix4,
+  center: [number, number],
+  radius: [number, number],
+  accept?: (index: number) => boolean
+): Uint8Array => {
+  const e = toClip.elements;
+  const selected = new Uint8Array(count);
+  const [cx, cy] = center;
+  const [rx, ry] = radius;
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    const w = e[3] * x + e[7] * y + e[11] * z + e[15];
+    if (w <= 0) continue;
+    const dx = ((e[0] * x + e[4] * y + e[8] * z + e[12]) / w - cx) / rx;
+    const dy = ((e[1] * x + e[5] * y + e[9] * z + e[13]) / w - cy) / ry;
+    if (dx * dx + dy * dy <= 1 && (!accept || accept(i))) selected[i] = 1;
+  }
+  return selected;
+};
+
+export const countSelected = (mask: Uint8Array): number => {
+  let count = 0;
+  for (let i = 0; i < mask.length; i++) count += mask[i];
+  return count;
+};
+
+// mask가 1인 점의 인덱스
+export const selectedIndices = (mask: Uint8Array): Uint32Array => {
+  const indices = new Uint32Array(countSelected(mask));
+  for (let i = 0, k = 0; k < indices.length; i++) {
+    if (mask[i]) indices[k++] = i;
+  }
+  return indices;
+};
+
+// 화면에서 고른 점 후보 (toClip: positions 좌표 -> 클립 좌표)
+export interface ScreenCandidates {
+  positions: Float32Array;
+  toClip: THREE.Matrix4;
+  indices: Uint32Array;
+}
+
+// 화면을 cells [가로, 세로] 칸으로 나눠 칸마다 카메라에 가장 가까운 후보의 깊이를 구하고
+// 그보다 tolerance(깊이 비율) 넘게 뒤에 있는 후보(앞 점에 가려진 점)를 뺀 인덱스를 돌려줌
+// 여러 클라우드가 서로 가리므로 후보를 한꺼번에 받음; 카메라 뒤의 점은 selectIn*에서 이미 빠짐
+export const frontSurface = (
+  candidates: ScreenCandidates[],
+  cells: [number, number],
+  tolerance = FRONT_DEPTH_TOLERANCE
+): Uint32Array[] => {
+  const [columns, rows] = cells;
+  const nearest = new Float32Array(columns * rows).fill(Infinity);
+  const cellsOf = candidates.map(({ positions, toClip, indices }) => {
+    const e = toClip.elements;
+    const cell = new Uint32Array(indices.length);
+    const depth = new Float32Array(indices.length);
+    for (let k = 0; k < indices.length; k++) {
+      const i = indices[k];
+      const x = positions[i * 3];
+      const y = positions[i * 3 + 1];
+      const z = positions[i * 3 + 2];
+      const w = e[3] * x + e[7] * y + e[11] * z + e[15];
+      const sx = (e[0] * x + e[4] * y + e[8] * z + e[12]) / w;
+      const sy = (e[1] * x + e[5] * y + e[9] * z + e[13]) / w;
+      const column = Math.min(columns - 1, Math.max(0, Math.floor(((sx + 1) / 2) * columns)));
+      const row = Math.min(rows - 1, Math.max(0, Math.floor(((sy + 1) / 2) * rows)));
+      cell[k] = row * columns + column;
+      // 원근 투영의 w는 카메라 앞쪽 거리
+      depth[k] = w;
+      if (w < nearest[cell[k]]) nearest[cell[k]] = w;
+    }
+    return { cell, depth };
+  });
+
+  return candidates.map(({ indices }, c) => {
+    const { cell, depth } = cellsOf[c];
+    const front = (k: number) => depth[k] <= nearest[cell[k]] * (1 + tolerance);
+    let count = 0;
+    for (let k = 0; k < indices.length; k++) {
+      if (front(k)) count++;
+    }
+    const kept = new Uint32Array(count);
+    for (let k = 0, j = 0; j < count; k++) {
+      if (front(k)) kept[j++] = indices[k];
+    }
+    return kept;
+  });
+};
@@ -0,0 +1,49 @@
+import { AttributeArray, PointCloudData } from './types';
+
+// 점별 semantic label은 'label' 속성 (SemanticKITTI와 같이 uint16, 0은 라벨 없음)
+export const UNLABELED = 0;
+
+// label 속성이 없으면 모두 0으로 만들어 붙임
+export const ensureLabels = (cloud: PointCloudData): AttributeArray => {
+  if (!cloud.attributes.label) cloud.attributes.label = new Uint16Array(cloud.count);
+  return cloud.attributes.label;
+};
+
+// 칠하기로 바뀐 점과 그 점의 이전 label
+export interface LabelChange {
+  indices: Uint32Array;
+  previous: Float64Array;
+}
+
+// indices 점을 classId로 칠하고 바뀐 점을 돌려줌
+// onlyUnlabeled면 이미 라벨이 있는 점은 건드리지 않음
+export const paintLabels = (labels: AttributeArray, indices: ArrayLike<number>, classId: number, onlyUnlabeled: boolean): LabelChange => {
+  const paints = (i: number) => labels[i] !== classId && (!onlyUnlabeled || labels[i] === UNLABELED);
+  let changed = 0;
+  for (let k = 0; k < indices.length; k++) {
+    if (paints(indices[k])) changed++;
+  }
+  const changedIndices = new Uint32Array(changed);
+  const previous = new Float64Array(changed);
+  for (let k = 0, j = 0; j < changed; k++) {
+    const i = indices[k];
+    if (!paints(i)) continue;
+    changedIndices[j] = i;
+    previous[j++] = labels[i];
+    labels[i] = classId;
+  }
+  return { indices: changedIndices, previous };
+};
+
+// label별 점 수 (counts에 더해 여러 클라우드를 합칠 수 있음); accept가 false인 점은 세지 않음
+export const countLabels = (
+  labels: AttributeArray,
+  counts = new Map<number, number>(),
+  accept?: (index: number) => boolean
+): Map<number, number> => {
+  for (let i = 0; i < labels.length; i++) {
+    if (accept && !accept(i)) continue;
+    counts.set(labels[i], (counts.get(labels[i]) ?? 0) + 1);
+  }
+  return counts;
+};
@@ -0,0 +1,202 @@
+import { createPointCloudBuilder } from './data';
+import { PointCloudData } from './types';
+
+export type TextColumnRole = 'ignore' | 'x' | 'y' | 'z' | 'r' | 'g' | 'b' | 'intensity' | 'custom';
+
+export interface TextColumn {
+  role: TextColumnRole;
+  // role이 custom일 때 attributes에 저장할 이름
+  name: string;
+}
+
+export interface TextImportOptions {
+  // ' '는 연속된 공백/탭을 하나의 구분자로 취급
+  delimiter: string;
+  skipLines: number;
+  columns: TextColumn[];
+}
+
+export const TEXT_DELIMITERS = [
+  { value: ',', label: '쉼표 (,)' },
+  { value: ';', label: '세미콜론 (;)' },
+  { value: '\t', label: '탭' },
+  { value: ' ', label: '공백' },
+];
+
+// 헤더 이름 -> 컬럼 역할
+const HEADER_ROLES: Record<string, TextColumnRole> = {
+  x: 'x', y: 'y', z: 'z',
+  r: 'r', red: 'r',
+  g: 'g', green: 'g',
+  b: 'b', blue: 'b',
+  i: 'intensity', intensity: 'intensity',
+};
+
+export const isTextPointCloud = (fileName: string): boolean => {
+  return /\.(xyz|csv|pts|txt)$/i.test(fileName);
+};
+
+export const splitLine = (line: string, delimiter: string): string[] => {
+  if (delimiter === ' ') {
+    return line.trim().split(/\s+/);
+  }
+  return line.split(delimiter).map(token => token.trim());
+};
+
+const isNumeric = (token: string) => token !== '' && Number.isFinite(Number(token));
+
+// 미리보기용으로 파일 앞부분만 읽음 (마지막 줄은 잘렸을 수 있으므로 제외)
+export const readTextSample = async (file: Blob, bytes = 64 * 1024): Promise<string> => {
+  const text = await file.slice(0, bytes).text();
+  if (file.size <= bytes) return text;
+  const lastNewline = text.lastIndexOf('\n');
+  return lastNewline === -1 ? text : text.slice(0, lastNewline);
+};
+
+// 구분자 추정: 모든 데이터 줄에서 같은 개수로 나뉘는 첫 후보
+export const detectDelimiter = (lines: string[]): string => {
+  const dataLines = lines.slice(-10);
+  for (const delimiter of [',', ';', '\t']) {
+    const counts = dataLines.map(line => line.split(delimiter).length);
+    if (counts[0] > 1 && counts.every(count => count === counts[0])) {
+      return delimiter;
+    }
+  }
+  return ' ';
+};
+
+// 파일 이름과 앞부분 내용으로 기본 가져오기 옵션 추정
+export const guessTextImportOptions = (fileName: string, sample: string): TextImportOptions => {
+  const lines = sample.split(/\r?\n/).slice(0, 50);
+  const delimiter = detectDelimiter(lines.filter(line => line.trim() !== ''));
+
+  // 숫자가 아닌 값이 있는 앞쪽 줄(컬럼 이름)과 PTS의 점 개수 줄은 건너뜀
+  let skipLines = 0;
+  let headerRow: string[] = [];
+  while (skipLines < lines.length - 1) {
+    const line = lines[skipLines];
+    if (line.trim() !== '') {
+      const tokens = splitLine(line, delimiter);
+      const isCountLine = /\.pts$/i.test(fileName) && tokens.length === 1;
+      if (!isCountLine && tokens.every(isNumeric)) break;
+      headerRow = isCountLine ? [] : tokens;
+    }
+    skipLines++;
+  }
+
+  const firstRow = lines[skipLines] ? splitLine(lines[skipLines], delimiter) : [];
+
+  let columns: TextColumn[];
+  if (headerRow.length === firstRow.length) {
+    columns = headerRow.map(name => {
+      const role = HEADER_ROLES[name.toLowerCase().replace(/^\/\/\s*/, '')];
+      return role ? { role, name } : { role: 'custom', name };
+    });
+  } else {
+    // 컬럼 이름이 없으면 일반적인 배치를 가정 (PTS: x y z intensity r g b)
+    const layouts: Record<number, TextColumnRole[]> = {
+      3: ['x', 'y', 'z'],
+      4: ['x', 'y', 'z', 'intensity'],
+      6: ['x', 'y', 'z', 'r', 'g', 'b'],
+      7: ['x', 'y', 'z', 'intensity', 'r', 'g', 'b'],
+    };
+    const roles = layouts[firstRow.length] || ['x', 'y', 'z'];
+    columns = firstRow.map((_, i) => ({ role: roles[i] || 'ignore', name: `field_${i + 1}` }));
+  }
+
+  return { delimiter, skipLines, columns };
+};
+
+// 옵션을 적용한 미리보기 행
+export const previewTextRows = (sample: string, options: TextImportOptions, maxRows = 10): string[][] => {
+  return sample
+    .split(/\r?\n/)
+    .slice(options.skipLines)
+    .filter(line => line.trim() !== '')
+    .slice(0, maxRows)
+    .map(line => splitLine(line, options.delimiter));
+};
+
+// 파일을 청크 단위로 읽으며 줄마다 점 하나씩 추가
+export const parseDelimitedText = async (
+  stream: ReadableStream<Uint8Array>,
+  options: TextImportOptions,
+  onProgress?: (bytesRead: number) => void
+): Promise<PointCloudData> => {
+  const columnOf = (role: TextColumnRole) => options.columns.findIndex(column => column.role === role);
+  const [xIdx, yIdx, zIdx] = [columnOf('x'), columnOf('y'), columnOf('z')];
+  if (xIdx === -1 || yIdx === -1 || zIdx === -1) {
+    throw new Error('Columns for x, y and z must be selected');
+  }
+  const colorIdx = [columnOf('r'), columnOf('g'), columnOf('b')];
+  const hasColor = colorIdx.every(i => i !== -1);
+  const attributeColumns = options.columns.flatMap((column, index) => {
+    if (column.role === 'intensity') return [{ index, name: 'intensity' }];
+    if (column.role === 'custom') return [{ index, name: column.name || `field_${index + 1}` }];
+    return [];
+  });
+
+  // 텍스트 값의 정밀도를 알 수 없으므로 사용자 지정 컬럼은 float64
+  const builder = createPointCloudBuilder({
+    attributes: Object.fromEntries(attributeColumns.map(({ name }) => [name, name === 'intensity' ? Float32Array : Float64Array])),
+  });
+  const rawColors: number[] = [];
+  let maxColor = 0;
+  let lineNumber = 0;
+
+  const handleLine = (line: string) => {
+    if (lineNumber++ < options.skipLines) return;
+    if (line.trim() === '') return;
+
+    const tokens = splitLine(line, options.delimiter);
+    const x = parseFloat(tokens[xIdx]);
+    const y = parseFloat(tokens[yIdx]);
+    const z = parseFloat(tokens[zIdx]);
+    // 좌표를 읽을 수 없는 줄(주석 등)은 건너뜀
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) return;
+
+    const pointIndex = builder.add(x, y, z);
+    for (const { index, name } of attributeColumns) {
+      builder.setAttribute(name, pointIndex, parseFloat(tokens[index]));
+    }
+    if (hasColor) {
+      for (const i of colorIdx) {
+        const value = parseFloat(tokens[i]) || 0;
+        rawColors.push(value);
+        if (value > maxColor) maxColor = value;
+      }
+    }
+  };
+
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let rest = '';
+  let bytesRead = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    rest += decoder.decode(value, { stream: true });
+    const lines = rest.split('\n');
+    rest = lines.pop()!;
+    lines.forEach(handleLine);
+    onProgress?.(bytesRead);
+  }
+  rest += decoder.decode();
+  handleLine(rest);
+
+  const cloud = builder.build();
+
+  // 0~1 실수 색상과 0~255 정수 색상 모두 허용
+  if (hasColor) {
+    const scale = maxColor > 1 ? 1 : 255;
+    cloud.colors = new Uint8Array(rawColors.length);
+    rawColors.forEach((value, i) => {
+      cloud.colors![i] = Math.min(255, Math.round(value * scale));
+    });
+  }
+
+  return cloud;
+};
@@ -0,0 +1,50 @@
+// 점별 스칼라 속성 배열 (intensity, classification 등); 파서가 원본 타입에 맞춰 선택
+export type AttributeArray =
+  | Float32Array
+  | Float64Array
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array;
+
+export type AttributeArrayType = new (length: number) => AttributeArray;
+
+export interface PointCloudBounds {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+// 파서들이 공통으로 만들어내는 열 단위 포인트 저장소 (렌더러/툴팁/도구가 공유)
+export interface PointCloudData {
+  count: number;
+  // offset 기준 좌표 (x, y, z 반복)
+  positions: Float32Array;
+  // 원래 좌표 = positions + offset (UTM 같은 큰 좌표의 float32 정밀도 손실 방지)
+  offset: [number, number, number];
+  // 0 ~ 255 (r, g, b 반복); 색상이 없는 파일이면 null
+  colors: Uint8Array | null;
+  normals: Float32Array | null;
+  attributes: Record<string, AttributeArray>;
+  // positions 기준 경계
+  bounds: PointCloudBounds;
+  // 센서 위치 (원래 좌표); 파일에 자세 정보가 있을 때만 (PCD VIEWPOINT, E57 pose)
+  sensor?: [number, number, number];
+}
+
+// 점 하나를 꺼내 본 값 (툴팁 등 표시용, 좌표는 offset을 더한 원래 좌표)
+export interface PointRecord {
+  x: number;
+  y: number;
+  z: number;
+  color?: [number, number, number];
+  normal?: [number, number, number];
+  attributes: Record<string, number>;
+}
+
+// 파싱 진행률 콜백 (0 ~ 1)
+export type ProgressCallback = (progress: number) => void;
+
+// 진행률을 알리는 간격 (점 개수)
+export const PROGRESS_INTERVAL = 1 << 16;
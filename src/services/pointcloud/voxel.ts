@@ -0,0 +1,183 @@
+import { computeBounds } from './data';
+import { AttributeArray, AttributeArrayType, PROGRESS_INTERVAL, PointCloudData, ProgressCallback } from './types';
+
+// centroid: 복셀 안 점들의 무게중심, nearest: 복셀 중심에 가장 가까운 원래 점 위치
+export type VoxelMode = 'centroid' | 'nearest';
+
+export interface VoxelOptions {
+  // 복셀 한 변 길이 (좌표 단위)
+  leafSize: number;
+  mode: VoxelMode;
+}
+
+export const DEFAULT_VOXEL_OPTIONS: VoxelOptions = { leafSize: 0.1, mode: 'centroid' };
+
+// 값이 범주라서 평균을 내면 어느 점에도 없던 값이 되는 속성 (LAS 분류/리턴 번호, semantic label 등)
+export const CATEGORICAL_ATTRIBUTES = new Set([
+  'classification',
+  'return_number',
+  'number_of_returns',
+  'point_source_id',
+  'label',
+  'instance',
+]);
+
+const isIntegerArray = (array: AttributeArray) => !(array instanceof Float32Array || array instanceof Float64Array);
+
+// 복셀 안 점들 중 가장 많은 값 (같으면 먼저 나온 값); members[starts[slot]..starts[slot + 1]]이 복셀의 점
+const majorityValues = (source: AttributeArray, members: Uint32Array, starts: Uint32Array, voxels: number): AttributeArray => {
+  const values = new (source.constructor as AttributeArrayType)(voxels);
+  const tally = new Map<number, number>();
+  for (let slot = 0; slot < voxels; slot++) {
+    tally.clear();
+    let best = source[members[starts[slot]]];
+    let bestCount = 0;
+    for (let k = starts[slot]; k < starts[slot + 1]; k++) {
+      const value = source[members[k]];
+      const n = (tally.get(value) ?? 0) + 1;
+      tally.set(value, n);
+      if (n > bestCount) {
+        best = value;
+        bestCount = n;
+      }
+    }
+    values[slot] = best;
+  }
+  return values;
+};
+
+// 복셀마다 점 하나로 줄임; 색상/법선/속성은 복셀 안 점들의 평균 (정수 속성은 반올림)
+// 범주형 속성은 복셀 안 최빈값 (nearest 모드는 고른 점의 값)
+export const voxelDownsample = (
+  cloud: PointCloudData,
+  { leafSize, mode }: VoxelOptions,
+  onProgress?: ProgressCallback
+): PointCloudData => {
+  if (!(leafSize > 0)) {
+    throw new Error('Voxel leaf size must be greater than 0');
+  }
+  const { count, positions, colors, normals, offset } = cloud;
+  // 격자는 원래 좌표의 원점 기준 (offset이 달라도 같은 자리에 복셀이 생김)
+  const cell = (value: number, axis: number) => Math.floor((value + offset[axis]) / leafSize);
+  const first = [0, 1, 2].map(axis => cell(cloud.bounds.min[axis], axis));
+  const dims = [0, 1, 2].map(axis => cell(cloud.bounds.max[axis], axis) - first[axis] + 1);
+  if (dims[0] * dims[1] * dims[2] > Number.MAX_SAFE_INTEGER) {
+    throw new Error('Voxel leaf size is too small for the extent of the point cloud');
+  }
+
+  // 점마다 복셀 번호 (복셀은 처음 나온 순서대로 번호를 매김)
+  const voxelOf = new Uint32Array(count);
+  const slots = new Map<number, number>();
+  for (let i = 0; i < count; i++) {
+    const ix = cell(positions[i * 3], 0) - first[0];
+    const iy = cell(positions[i * 3 + 1], 1) - first[1];
+    const iz = cell(positions[i * 3 + 2], 2) - first[2];
+    const key = ix + dims[0] * (iy + dims[1] * iz);
+    let slot = slots.get(key);
+    if (slot === undefined) {
+      slot = slots.size;
+      slots.set(key, slot);
+    }
+    voxelOf[i] = slot;
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress((i / count) * 0.5);
+  }
+
+  const voxels = slots.size;
+  const counts = new Uint32Array(voxels);
+  const positionSums = new Float64Array(voxels * 3);
+  const colorSums = colors && new Float64Array(voxels * 3);
+  const normalSums = normals && new Float64Array(voxels * 3);
+  const names = Object.keys(cloud.attributes);
+  const categorical = names.filter(name => CATEGORICAL_ATTRIBUTES.has(name));
+  const attributeSums = names.filter(name => !CATEGORICAL_ATTRIBUTES.has(name)).map(name => ({
+    name,
+    source: cloud.attributes[name],
+    sums: new Float64Array(voxels),
+  }));
+  // nearest 모드에서 복셀 중심까지 가장 가까운 점
+  const nearest = mode === 'nearest' ? new Uint32Array(voxels) : null;
+  const nearestDistance = mode === 'nearest' ? new Float64Array(voxels).fill(Infinity) : null;
+
+  for (let i = 0; i < count; i++) {
+    const slot = voxelOf[i];
+    counts[slot]++;
+    for (let axis = 0; axis < 3; axis++) {
+      positionSums[slot * 3 + axis] += positions[i * 3 + axis];
+      if (colorSums) colorSums[slot * 3 + axis] += colors![i * 3 + axis];
+      if (normalSums) normalSums[slot * 3 + axis] += normals![i * 3 + axis];
+    }
+    for (const { source, sums } of attributeSums) sums[slot] += source[i];
+
+    if (nearest) {
+      let distance = 0;
+      for (let axis = 0; axis < 3; axis++) {
+        const value = positions[i * 3 + axis] + offset[axis];
+        const center = (Math.floor(value / leafSize) + 0.5) * leafSize;
+        distance += (value - center) ** 2;
+      }
+      if (distance < nearestDistance![slot]) {
+        nearestDistance![slot] = distance;
+        nearest[slot] = i;
+      }
+    }
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(0.5 + (i / count) * 0.5);
+  }
+
+  const outPositions = new Float32Array(voxels * 3);
+  const outColors = colorSums && new Uint8Array(voxels * 3);
+  const outNormals = normalSums && new Float32Array(voxels * 3);
+  for (let slot = 0; slot < voxels; slot++) {
+    const n = counts[slot];
+    for (let axis = 0; axis < 3; axis++) {
+      outPositions[slot * 3 + axis] = nearest
+        ? positions[nearest[slot] * 3 + axis]
+        : positionSums[slot * 3 + axis] / n;
+      if (outColors) outColors[slot * 3 + axis] = Math.round(colorSums![slot * 3 + axis] / n);
+    }
+    if (outNormals) {
+      const [x, y, z] = [0, 1, 2].map(axis => normalSums![slot * 3 + axis]);
+      const length = Math.hypot(x, y, z) || 1;
+      outNormals.set([x / length, y / length, z / length], slot * 3);
+    }
+  }
+
+  const attributes: Record<string, AttributeArray> = {};
+  for (const { name, source, sums } of attributeSums) {
+    const values = new (source.constructor as AttributeArrayType)(voxels);
+    const round = isIntegerArray(source);
+    for (let slot = 0; slot < voxels; slot++) {
+      const mean = sums[slot] / counts[slot];
+      values[slot] = round ? Math.round(mean) : mean;
+    }
+    attributes[name] = values;
+  }
+  if (nearest) {
+    for (const name of categorical) {
+      const source = cloud.attributes[name];
+      const values = new (source.constructor as AttributeArrayType)(voxels);
+      for (let slot = 0; slot < voxels; slot++) values[slot] = source[nearest[slot]];
+      attributes[name] = values;
+    }
+  } else if (categorical.length > 0) {
+    // 복셀별 점 목록 (counts의 누적합으로 자리를 나눔)
+    const starts = new Uint32Array(voxels + 1);
+    for (let slot = 0; slot < voxels; slot++) starts[slot + 1] = starts[slot] + counts[slot];
+    const filled = starts.slice(0, voxels);
+    const members = new Uint32Array(count);
+    for (let i = 0; i < count; i++) members[filled[voxelOf[i]]++] = i;
+    for (const name of categorical) attributes[name] = majorityValues(cloud.attributes[name], members, starts, voxels);
+  }
+  onProgress?.(1);
+
+  const downsampled: PointCloudData = {
+    count: voxels,
+    positions: outPositions,
+    offset,
+    colors: outColors,
+    normals: outNormals,
+    attributes,
+    bounds: computeBounds(outPositions),
+  };
+  if (cloud.sensor) downsampled.sensor = cloud.sensor;
+  return downsampled;
+};
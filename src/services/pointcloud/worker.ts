@@ -0,0 +1,87 @@
+import { transferablesOf } from './data';
+import { ProgressCallback } from './types';
+import type { ParsedCloud } from './loader';
+
+// 워커 작업 (파싱, 처리)
+export interface WorkerTask<T> {
+  // 취소되면 null
+  promise: Promise<T | null>;
+  cancel: () => void;
+}
+
+// 워커가 보내는 메시지 (진행률, 결과, 오류)
+export type WorkerMessage<T> =
+  | { type: 'progress'; percent: number }
+  | { type: 'done'; result: T }
+  | { type: 'error'; message: string };
+
+// 요청 하나를 워커에서 실행하고 진행률(%)을 알려줌; 끝나거나 취소되면 워커를 종료
+export const runInWorker = <T>(worker: Worker, request: unknown, onProgress: (percent: number) => void): WorkerTask<T> => {
+  let settle: (result: T | null) => void = () => {};
+
+  const promise = new Promise<T | null>((resolve, reject) => {
+    settle = (result) => {
+      worker.terminate();
+      resolve(result);
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage<T>>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.percent);
+      } else if (message.type === 'done') {
+        settle(message.result);
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Point cloud worker failed'));
+    };
+  });
+
+  worker.postMessage(request);
+  return { promise, cancel: () => settle(null) };
+};
+
+// 아래는 워커 안에서 씀
+
+let lastPercent = -1;
+
+const post = <T>(message: WorkerMessage<T>, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// 전체 진행률 중 [start, end] 구간을 담당하는 콜백
+export const progressStage = (start: number, end: number): ProgressCallback => (progress) => {
+  const percent = Math.floor(start + (end - start) * progress);
+  if (percent === lastPercent) return;
+  lastPercent = percent;
+  post({ type: 'progress', percent });
+};
+
+// 요청마다 handle을 실행해 결과를 보냄 (transferables의 배열은 복사 없이 넘어감)
+export const serveWorkerRequests = <R, T>(
+  handle: (request: R) => T | Promise<T>,
+  transferables: (result: T) => Transferable[]
+) => {
+  self.onmessage = async (event: MessageEvent<R>) => {
+    lastPercent = -1;
+    try {
+      const result = await handle(event.data);
+      post({ type: 'done', result }, transferables(result));
+    } catch (error) {
+      post({ type: 'error', message: (error as Error).message });
+    }
+  };
+};
+
+// 파싱/처리 결과 클라우드를 보낼 때 넘길 배열 버퍼 (클라우드, 옥트리, KD-tree)
+export const parsedCloudTransferables = ({ cloud, octree, index }: ParsedCloud): ArrayBuffer[] => [
+  ...transferablesOf(cloud),
+  octree.order.buffer as ArrayBuffer,
+  index.indices.buffer as ArrayBuffer,
+  index.axes.buffer as ArrayBuffer,
+];
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'vitest'
+import { buildKDTree } from '../src/services/pointcloud/kdtree'
+import { extractClusters, orientedBox } from '../src/services/pointcloud/clusters'
+
+// 0.1 m 간격 점 줄 (start에서 direction 방향으로 count개)
+const row = (start: number[], direction: number[], count: number) =>
+  Array.from({ length: count }, (_, i) => start.map((value, axis) => value + direction[axis] * i * 0.1)).flat()
+
+describe('extractClusters', () => {
+  // x축 방향 줄 10개 (0-9), 멀리 떨어진 대각선 줄 20개 (10-29), 외딴 점 하나 (30)
+  const positions = new Float32Array([
+    ...row([0, 0, 0], [1, 0, 0], 10),
+    ...row([10, 10, 1], [Math.SQRT1_2, Math.SQRT1_2, 0], 20),
+    -5, -5, -5,
+  ])
+  const tree = buildKDTree(positions)
+
+  test('groups points within the tolerance and drops clusters outside the size range', () => {
+    const { labels, clusters } = extractClusters(positions, tree, { tolerance: 0.15, minSize: 2, maxSize: 100 }, null)
+    expect(clusters.map(cluster => cluster.count)).toEqual([10, 20])
+    expect(Array.from(labels.subarray(0, 10)).every(label => label === 0)).toBe(true)
+    expect(Array.from(labels.subarray(10, 30)).every(label => label === 1)).toBe(true)
+    expect(labels[30]).toBe(-1)
+    expect(clusters[0].centroid[0]).toBeCloseTo(0.45)
+
+    const limited = extractClusters(positions, tree, { tolerance: 0.15, minSize: 2, maxSize: 15 }, null)
+    expect(limited.clusters.map(cluster => cluster.count)).toEqual([10])
+    expect(limited.labels[15]).toBe(-1)
+
+    // 숨긴 점은 군집을 잇지 않음: 첫 줄 가운데를 숨기면 5개, 4개로 나뉨
+    const hidden = new Uint8Array(31)
+    hidden[5] = 1
+    const split = extractClusters(positions, tree, { tolerance: 0.15, minSize: 2, maxSize: 100 }, hidden)
+    expect(split.clusters.map(cluster => cluster.count)).toEqual([5, 4, 20])
+    expect(split.labels[5]).toBe(-1)
+  })
+})
+
+describe('orientedBox', () => {
+  test('aligns the box with the main horizontal direction of the points', () => {
+    // 대각선으로 2 m 길이, 0.4 m 폭, 1 m 높이인 점들
+    const points: number[] = []
+    for (const along of [-1, 1]) {
+      for (const across of [-0.2, 0.2]) {
+        for (const z of [0, 1]) {
+          points.push(3 + (along - across) * Math.SQRT1_2, 4 + (along + across) * Math.SQRT1_2, z)
+        }
+      }
+    }
+    const box = orientedBox(new Float32Array(points), Array.from({ length: 8 }, (_, i) => i))
+    expect(Math.abs(Math.tan(box.yaw))).toBeCloseTo(1)
+    expect(box.size[0]).toBeCloseTo(2)
+    expect(box.size[1]).toBeCloseTo(0.4)
+    expect(box.size[2]).toBeCloseTo(1)
+    expect(box.center[0]).toBeCloseTo(3)
+    expect(box.center[1]).toBeCloseTo(4)
+    expect(box.center[2]).toBeCloseTo(0.5)
+  })
+})
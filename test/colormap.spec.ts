@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'vitest'
+import { createPointCloudBuilder } from '../src/services/pointcloud/data'
+import { boundsScalarRange, categoricalColor, colorByScalar, sampleColormap, scalarRange } from '../src/services/pointcloud/colormap'
+
+function cloud() {
+  const builder = createPointCloudBuilder({ attributes: { intensity: Float32Array, classification: Uint8Array } })
+  ;[[3, 4, 0, 0.1], [6, 8, 0, 0.5], [0, 0, 10, 0.9]].forEach(([x, y, z, intensity], i) => {
+    const index = builder.add(x, y, z)
+    builder.setAttribute('intensity', index, intensity)
+    builder.setAttribute('classification', index, i + 1)
+  })
+  return builder.build()
+}
+
+describe('scalar field colormaps', () => {
+  test('computes field ranges from positions, sensor distance and attributes', () => {
+    const data = cloud()
+    expect(scalarRange(data, 'z')).toEqual([0, 10])
+    expect(scalarRange(data, 'distance')).toEqual([5, 10])
+    expect(scalarRange(data, 'distance', [3, 4, 0])).toEqual([0, Math.hypot(3, 4, 10)])
+    expect(scalarRange(data, 'intensity')![1]).toBeCloseTo(0.9)
+    expect(scalarRange(data, 'missing')).toBeNull()
+    expect(boundsScalarRange({ min: [1, 1, 1], max: [2, 2, 2] }, 'distance')).toEqual([Math.sqrt(3), Math.sqrt(12)])
+  })
+
+  test('clamps values to the range and maps them through the colormap', () => {
+    const colors = colorByScalar(cloud(), { field: 'intensity', colormap: 'grayscale', min: 0.2, max: 0.8 })!
+
+    expect(Array.from(colors.subarray(0, 3))).toEqual([0, 0, 0])
+    expect(colors[3]).toBeCloseTo(128, -1)
+    expect(Array.from(colors.subarray(6, 9))).toEqual([255, 255, 255])
+    expect(sampleColormap('viridis', 0)).toEqual([68, 1, 84])
+    expect(sampleColormap('viridis', 1)).toEqual([253, 231, 37])
+  })
+
+  test('gives each integer value its own categorical color', () => {
+    const colors = colorByScalar(cloud(), { field: 'classification', colormap: 'categorical', min: 0, max: 0 })!
+
+    expect(Array.from(colors.subarray(3, 6))).toEqual(categoricalColor(2))
+    expect(categoricalColor(1)).not.toEqual(categoricalColor(2))
+    expect(colorByScalar(cloud(), { field: 'missing', colormap: 'jet', min: 0, max: 1 })).toBeNull()
+  })
+})
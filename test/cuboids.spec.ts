@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest'
+import {
+  CuboidFields,
+  formatCuboidJson,
+  formatKittiLabels,
+  parseCuboidJson,
+  parseKittiLabels,
+  pointInCuboid,
+} from '../src/services/pointcloud/cuboids'
+
+// 앞 10 m, 왼쪽 2 m에 있는 자동차 (+y 방향으로 진행)
+const car: CuboidFields = { label: 'Car', trackId: 3, center: [10, 2, -0.9], size: [4, 1.6, 1.5], yaw: Math.PI / 2 }
+
+describe('KITTI labels', () => {
+  test('writes label_2 lines in camera coordinates with the bottom-centre location', () => {
+    const [line] = formatKittiLabels([car]).trim().split('\n')
+    const fields = line.split(' ')
+    expect(fields).toHaveLength(15)
+    expect(fields[0]).toBe('Car')
+    // h w l, x y z (카메라 좌표), rotation_y
+    expect(fields.slice(8).map(Number)).toEqual([1.5, 1.6, 4, -2, 1.65, 10, -3.14])
+  })
+
+  test('reads back what it writes and skips DontCare', () => {
+    const text = formatKittiLabels([car, { ...car, label: 'Pedestrian', yaw: -0.3, center: [5, -1, 0] }])
+      + 'DontCare -1 -1 -10 503.89 169.71 590.61 190.13 -1 -1 -1 -1000 -1000 -1000 -10\n'
+    const cuboids = parseKittiLabels(text)
+    expect(cuboids.map(cuboid => cuboid.label)).toEqual(['Car', 'Pedestrian'])
+    // label_2에는 트랙 ID가 없음
+    expect(cuboids[0].trackId).toBeNull()
+    cuboids[0].center.forEach((value, axis) => expect(value).toBeCloseTo(car.center[axis], 2))
+    expect(Math.abs(cuboids[0].yaw)).toBeCloseTo(Math.PI / 2, 2)
+    expect(cuboids[1].yaw).toBeCloseTo(-0.3, 2)
+    expect(() => parseKittiLabels('Car 0 0 x')).toThrow('line 1')
+  })
+})
+
+describe('cuboid JSON', () => {
+  test('round-trips boxes with their cloud name and track ID', () => {
+    const { cloud, cuboids } = parseCuboidJson(formatCuboidJson('scan 1', [car]))
+    expect(cloud).toBe('scan 1')
+    expect(cuboids).toEqual([car])
+    expect(() => parseCuboidJson('{"boxes": [{"label": "Car"}]}')).toThrow('box 1')
+  })
+})
+
+describe('pointInCuboid', () => {
+  test('uses the rotated footprint', () => {
+    // yaw 90°라 길이 4 m가 y 방향
+    expect(pointInCuboid(car, [10, 3.9, -0.9])).toBe(true)
+    expect(pointInCuboid(car, [11.5, 2, -0.9])).toBe(false)
+    expect(pointInCuboid(car, [10, 2, 0])).toBe(false)
+  })
+})
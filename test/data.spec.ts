@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'vitest'
+import { concatPointClouds, createPointCloudBuilder, getPoint } from '../src/services/pointcloud/data'
+
+describe('createPointCloudBuilder', () => {
+  test('grows past its capacity and trims on build', () => {
+    const builder = createPointCloudBuilder({ normal: true, attributes: { intensity: Uint16Array } }, 2)
+    for (let i = 0; i < 5; i++) {
+      const index = builder.add(i, 10 - i, i * 2)
+      builder.setNormal(index, 0, 0, 1)
+      builder.setAttribute('intensity', index, i * 100)
+    }
+    const cloud = builder.build()
+
+    expect(cloud.count).eq(5)
+    expect(cloud.positions).toHaveLength(15)
+    expect(cloud.attributes.intensity).toBeInstanceOf(Uint16Array)
+    expect(cloud.colors).toBeNull()
+    expect(cloud.bounds).toEqual({ min: [0, 6, 0], max: [4, 10, 8] })
+    expect(getPoint(cloud, 4)).toEqual({ x: 4, y: 6, z: 8, normal: [0, 0, 1], attributes: { intensity: 400 } })
+  })
+
+  test('stores large coordinates relative to an offset', () => {
+    const builder = createPointCloudBuilder({ color: true })
+    builder.setColor(builder.add(500000.25, 4000000.5, 12), 300, -5, 128)
+    builder.add(500001.75, 4000002.5, 13)
+    const cloud = builder.build()
+
+    expect(cloud.offset).toEqual([500000, 4000001, 0])
+    expect([getPoint(cloud, 1).x, getPoint(cloud, 1).y]).toEqual([500001.75, 4000002.5])
+    expect(getPoint(cloud, 0).color).toEqual([255, 0, 128])
+  })
+})
+
+describe('concatPointClouds', () => {
+  test('re-bases positions and fills missing columns', () => {
+    const a = createPointCloudBuilder({ color: true, attributes: { intensity: Float32Array } })
+    a.setColor(a.add(20000, 0, 0), 1, 2, 3)
+    a.setAttribute('intensity', 0, 0.5)
+    const b = createPointCloudBuilder()
+    b.add(20010.5, 1, 2)
+
+    const merged = concatPointClouds([a.build(), b.build()])
+    expect(merged.count).eq(2)
+    expect(merged.offset).toEqual([20000, 0, 0])
+    expect(getPoint(merged, 1)).toEqual({ x: 20010.5, y: 1, z: 2, color: [255, 255, 255], attributes: { intensity: 0 } })
+    expect(merged.bounds).toEqual({ min: [0, 0, 0], max: [10.5, 1, 2] })
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, expect, test } from 'vitest'
+import { crc32c, parseE57 } from '../src/services/pointcloud/e57'
+import { getPoint } from '../src/services/pointcloud/data'
+import { PointCloudData } from '../src/services/pointcloud/types'
+
+function records(cloud: PointCloudData) {
+  return Array.from({ length: cloud.count }, (_, i) => getPoint(cloud, i))
+}
+
+const PAGE_SIZE = 1024
+const LOGICAL_PAGE_SIZE = PAGE_SIZE - 4
+const toPhysical = (logical: number) => Math.floor(logical / LOGICAL_PAGE_SIZE) * PAGE_SIZE + (logical % LOGICAL_PAGE_SIZE)
+
+// LSB부터 채우는 비트 패킹
+function packBits(values: number[], bits: number) {
+  const out = new Uint8Array(Math.ceil((values.length * bits) / 8))
+  values.forEach((value, i) => {
+    for (let b = 0; b < bits; b++) {
+      if ((value >> b) & 1) {
+        const bit = i * bits + b
+        out[bit >> 3] |= 1 << (bit & 7)
+      }
+    }
+  })
+  return out
+}
+
+// 논리 바이트열을 페이지로 나누고 페이지마다 CRC-32C를 붙임
+function paginate(logical: Uint8Array) {
+  const pages = Math.ceil(logical.length / LOGICAL_PAGE_SIZE)
+  const physical = new Uint8Array(pages * PAGE_SIZE)
+  const view = new DataView(physical.buffer)
+  for (let page = 0; page < pages; page++) {
+    const data = new Uint8Array(LOGICAL_PAGE_SIZE)
+    data.set(logical.subarray(page * LOGICAL_PAGE_SIZE, (page + 1) * LOGICAL_PAGE_SIZE))
+    physical.set(data, page * PAGE_SIZE)
+    view.setUint32(page * PAGE_SIZE + LOGICAL_PAGE_SIZE, crc32c(data), false)
+  }
+  return physical
+}
+
+function e57() {
+  // x: ScaledInteger(-1000..1000, 0.01), y/z: float32, intensity: 0..1023, 유효성: 0..2
+  const x = [100, -50, 0]
+  const streams = [
+    packBits(x.map(v => v + 1000), 11),
+    new Uint8Array(new Float32Array([2, 3, 4]).buffer),
+    new Uint8Array(new Float32Array([5, 6, 7]).buffer),
+    packBits([10, 20, 30], 10),
+    packBits([0, 2, 0], 2),
+  ]
+
+  const sectionStart = 48
+  const packetStart = sectionStart + 32
+  const packetLength = Math.ceil((6 + streams.length * 2 + streams.reduce((n, s) => n + s.length, 0)) / 4) * 4
+  const xml = new TextEncoder().encode(`<?xml version="1.0" encoding="UTF-8"?>
+<e57Root type="Structure" xmlns="http://www.astm.org/COMMIT/E57/2010-e57-v1.0">
+  <formatName type="String"><![CDATA[ASTM E57 3D Imaging Data File]]></formatName>
+  <data3D type="Vector" allowHeterogeneousChildren="1">
+    <vectorChild type="Structure">
+      <name type="String">Station &amp; 1</name>
+      <pose type="Structure">
+        <rotation type="Structure"><w type="Float">1</w><x type="Float">0</x><y type="Float">0</y><z type="Float">0</z></rotation>
+        <translation type="Structure"><x type="Float">10</x><y type="Float">0</y><z type="Float">0</z></translation>
+      </pose>
+      <points type="CompressedVector" fileOffset="${sectionStart}" recordCount="3">
+        <prototype type="Structure">
+          <cartesianX type="ScaledInteger" minimum="-1000" maximum="1000" scale="0.01"/>
+          <cartesianY type="Float" precision="single"/>
+          <cartesianZ type="Float" precision="single"/>
+          <intensity type="Integer" minimum="0" maximum="1023"/>
+          <cartesianInvalidState type="Integer" minimum="0" maximum="2"/>
+        </prototype>
+        <codecs type="Vector" allowHeterogeneousChildren="1"/>
+      </points>
+    </vectorChild>
+  </data3D>
+</e57Root>`)
+
+  const xmlStart = packetStart + packetLength
+  const logical = new Uint8Array(xmlStart + xml.length)
+  const view = new DataView(logical.buffer)
+  new TextEncoder().encode('ASTM-E57').forEach((b, i) => view.setUint8(i, b))
+  view.setUint32(8, 1, true)
+  view.setBigUint64(24, BigInt(toPhysical(xmlStart)), true)
+  view.setBigUint64(32, BigInt(xml.length), true)
+  view.setBigUint64(40, BigInt(PAGE_SIZE), true)
+
+  view.setUint8(sectionStart, 1)
+  view.setBigUint64(sectionStart + 8, BigInt(32 + packetLength), true)
+  view.setBigUint64(sectionStart + 16, BigInt(toPhysical(packetStart)), true)
+
+  view.setUint8(packetStart, 1)
+  view.setUint16(packetStart + 2, packetLength - 1, true)
+  view.setUint16(packetStart + 4, streams.length, true)
+  let offset = packetStart + 6 + streams.length * 2
+  streams.forEach((stream, s) => {
+    view.setUint16(packetStart + 6 + s * 2, stream.length, true)
+    logical.set(stream, offset)
+    offset += stream.length
+  })
+  logical.set(xml, xmlStart)
+
+  const physical = paginate(logical)
+  new DataView(physical.buffer).setBigUint64(16, BigInt(physical.length), true)
+  // 헤더의 파일 길이를 바꿨으므로 첫 페이지 CRC 다시 계산
+  new DataView(physical.buffer).setUint32(LOGICAL_PAGE_SIZE, crc32c(physical.subarray(0, LOGICAL_PAGE_SIZE)), false)
+  return physical
+}
+
+describe('parseE57', () => {
+  test('decodes CompressedVector bytestreams across the page layout and applies the pose', () => {
+    const [scan, ...rest] = parseE57(e57().buffer)
+
+    expect(rest).toHaveLength(0)
+    expect(scan.name).eq('Station & 1')
+    // 두 번째 점은 cartesianInvalidState = 2 이므로 제외
+    const points = records(scan.cloud)
+    expect(points.map(p => [p.x, p.y, p.z])).toEqual([[11, 2, 5], [10, 4, 7]])
+    expect(points.map(p => p.attributes.intensity)).toEqual([10, 30])
+  })
+
+  test('rejects pages with a bad checksum', () => {
+    const file = e57()
+    file[100] ^= 0xff
+    expect(() => parseE57(file.buffer)).toThrow(/checksum/)
+  })
+})
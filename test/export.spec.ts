@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'vitest'
+import { lzfCompress, lzfDecompress } from '../src/services/pointcloud/lzf'
+import { writePCD, writePLY, writeXYZ } from '../src/services/pointcloud/export'
+import { parsePCD, parsePCDHeader } from '../src/services/pointcloud/pcd'
+import { parsePLY } from '../src/services/pointcloud/ply'
+import { createPointCloudBuilder, getPoint } from '../src/services/pointcloud/data'
+import { PointCloudData } from '../src/services/pointcloud/types'
+
+function cloud(length = 200) {
+  const builder = createPointCloudBuilder({ color: true, attributes: { intensity: Uint16Array, gps_time: Float64Array } })
+  for (let i = 0; i < length; i++) {
+    const index = builder.add(i * 0.5, -i, i % 7)
+    builder.setColor(index, i % 2 ? 255 : 0, 51, 102)
+    builder.setAttribute('intensity', index, i % 13)
+    builder.setAttribute('gps_time', index, 1e9 + i * 0.001)
+  }
+  return builder.build()
+}
+
+function records(cloud: PointCloudData) {
+  return Array.from({ length: cloud.count }, (_, i) => getPoint(cloud, i))
+}
+
+describe('lzfCompress', () => {
+  test('round-trips repetitive and incompressible data', () => {
+    const repetitive = new Uint8Array(5000).map((_, i) => i % 10)
+    const random = new Uint8Array(3000).map((_, i) => (i * 2654435761) >>> 24)
+    for (const input of [repetitive, random, new Uint8Array(0), new Uint8Array([1, 2])]) {
+      expect(lzfDecompress(lzfCompress(input), input.length)).toEqual(input)
+    }
+    expect(lzfCompress(repetitive).length).toBeLessThan(repetitive.length / 10)
+  })
+})
+
+describe('point cloud writers', () => {
+  test.each(['ascii', 'binary', 'binary_compressed'] as const)('PCD %s keeps colors and extra fields', data => {
+    const source = cloud()
+    const file = writePCD(source, data).buffer as ArrayBuffer
+    const header = parsePCDHeader(file)
+    const parsed = records(parsePCD(file))
+
+    // 속성 배열의 타입을 그대로 선언
+    expect(header.fields).toEqual(['x', 'y', 'z', 'rgb', 'intensity', 'gps_time'])
+    expect(header.type).toEqual(['F', 'F', 'F', 'F', 'U', 'F'])
+    expect(header.size).toEqual([4, 4, 4, 4, 2, 8])
+    expect(parsed).toHaveLength(source.count)
+    expect(parsed[3].x).eq(1.5)
+    expect(parsed[3].color).toEqual([255, 51, 102])
+    expect(parsed[3].attributes).toEqual(getPoint(source, 3).attributes)
+  })
+
+  test('PLY keeps colors and extra fields', () => {
+    const source = cloud()
+    const parsed = records(parsePLY(writePLY(source).buffer as ArrayBuffer))
+
+    expect(parsed).toHaveLength(source.count)
+    expect([parsed[5].x, parsed[5].y, parsed[5].z]).toEqual([2.5, -5, 5])
+    expect(parsed[5].color).toEqual([255, 51, 102])
+    expect(parsed[5].attributes).toEqual(getPoint(source, 5).attributes)
+  })
+
+  test('XYZ writes a named header row', () => {
+    const lines = new TextDecoder().decode(writeXYZ(cloud(2))).trim().split('\n')
+    expect(lines[0]).eq('//X Y Z R G B intensity gps_time')
+    expect(lines[2].split(' ').slice(0, 6)).toEqual(['0.5', '-1', '1', '255', '51', '102'])
+  })
+})
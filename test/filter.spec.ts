@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'vitest'
+import { createPointCloudBuilder } from '../src/services/pointcloud/data'
+import { computeHistogram, filterIndices } from '../src/services/pointcloud/filter'
+
+function cloud(count: number, start = 0) {
+  const builder = createPointCloudBuilder({ attributes: { intensity: Uint16Array } })
+  for (let i = start; i < start + count; i++) {
+    builder.setAttribute('intensity', builder.add(i % 10, 0, i / 10), i)
+  }
+  return builder.build()
+}
+
+describe('histogram range filters', () => {
+  test('bins values across every source cloud', () => {
+    const histogram = computeHistogram([{ cloud: cloud(50) }, { cloud: cloud(50, 50) }], 'intensity', 10)!
+
+    expect([histogram.min, histogram.max]).toEqual([0, 99])
+    expect(Array.from(histogram.counts)).toEqual([10, 10, 10, 10, 10, 10, 10, 10, 10, 10])
+    expect(computeHistogram([{ cloud: cloud(5) }], 'missing')).toBeNull()
+  })
+
+  test('keeps only points inside every range', () => {
+    const data = cloud(100)
+    const indices = filterIndices(data, [
+      { field: 'intensity', min: 20, max: 59 },
+      { field: 'x', min: 0, max: 1 },
+    ])
+
+    expect(Array.from(indices!)).toEqual([20, 21, 30, 31, 40, 41, 50, 51])
+  })
+
+  test('ignores filters on fields the cloud does not have', () => {
+    const data = cloud(10)
+    expect(filterIndices(data, [])).toBeNull()
+    expect(filterIndices(data, [{ field: 'label', min: 0, max: 0 }])).toBeNull()
+    expect(filterIndices(data, [{ field: 'label', min: 0, max: 0 }, { field: 'z', min: 0.5, max: 1 }])!.length).eq(5)
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'vitest'
+import { fitGroundPlane, formatPlane, planeInOriginal, planeSlope } from '../src/services/pointcloud/ground'
+
+// 결과를 고정하기 위한 간단한 난수 생성기
+const seeded = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296
+  return seed / 4294967296
+}
+
+// z = 0.1x + 1 지면 (20 x 20 점)과 x = 5인 벽 (20 x 30 점)
+const scene = () => {
+  const points: number[] = []
+  for (let i = 0; i < 20; i++) {
+    for (let j = 0; j < 20; j++) points.push(i * 0.5, j * 0.5, 0.05 * i + 1)
+  }
+  for (let j = 0; j < 20; j++) {
+    for (let k = 0; k < 30; k++) points.push(5, j * 0.5, 2 + k * 0.2)
+  }
+  return new Float32Array(points)
+}
+
+describe('fitGroundPlane', () => {
+  test('finds the ground under a slope limit and refines its equation', () => {
+    const positions = scene()
+    const fit = fitGroundPlane(positions, 1000, { distanceThreshold: 0.05, maxIterations: 100, maxSlope: 15 }, null, undefined, seeded(1))!
+
+    expect(fit.groundCount).eq(400)
+    expect(Array.from(fit.ground.subarray(0, 400)).every(value => value === 1)).toBe(true)
+    // 0.1x - z + 1 = 0을 단위 법선으로 나눈 것
+    const scale = Math.hypot(0.1, 1)
+    expect(fit.plane.normal[0]).toBeCloseTo(-0.1 / scale, 4)
+    expect(fit.plane.normal[2]).toBeCloseTo(1 / scale, 4)
+    expect(fit.plane.d).toBeCloseTo(-1 / scale, 4)
+    expect(planeSlope(fit.plane)).toBeCloseTo(5.71, 1)
+  })
+
+  test('picks the larger wall without a slope limit and skips hidden points', () => {
+    const positions = scene()
+    const fit = fitGroundPlane(positions, 1000, { distanceThreshold: 0.05, maxIterations: 100, maxSlope: null }, null, undefined, seeded(2))!
+    // 벽 600개 + 벽과 만나는 지면 한 줄 20개
+    expect(fit.groundCount).eq(620)
+    expect(planeSlope(fit.plane)).toBeCloseTo(90)
+
+    const hidden = new Uint8Array(1000).fill(1, 400)
+    const ground = fitGroundPlane(positions, 1000, { distanceThreshold: 0.05, maxIterations: 50, maxSlope: null }, hidden, undefined, seeded(3))!
+    expect(ground.groundCount).eq(400)
+  })
+
+  test('formats the plane in original coordinates', () => {
+    const plane = planeInOriginal({ normal: [0, 0, 1], d: -1 }, [100, 200, 10])
+    expect(formatPlane(plane, 2)).eq('0.00x + 0.00y + 1.00z − 11.00 = 0')
+  })
+})
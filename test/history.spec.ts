@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'vitest'
+import { createEditHistory, flipMask, maskDelta } from '../src/services/pointcloud/history'
+
+describe('edit history', () => {
+  test('undoes and redoes edits in order and drops the redo list on a new edit', () => {
+    const history = createEditHistory<string>(3)
+    history.push('a', 'A')
+    history.push('b', 'B')
+
+    expect(history.undo()).eq('B')
+    expect(history.position()).eq(1)
+    expect(history.redo()).eq('B')
+    expect(history.redo()).toBeNull()
+
+    history.undo()
+    history.push('c', 'C')
+    expect(history.items().map(item => item.label)).toEqual(['a', 'c'])
+
+    // limit를 넘으면 오래된 편집부터 버림
+    history.push('d', 'D')
+    history.push('e', 'E')
+    expect(history.items().map(item => item.label)).toEqual(['c', 'd', 'e'])
+    expect(history.position()).eq(3)
+  })
+
+  test('reports every dropped edit', () => {
+    const dropped: string[] = []
+    const history = createEditHistory<string>(2, edit => dropped.push(edit))
+    history.push('a', 'A')
+    history.push('b', 'B')
+    history.undo()
+    // 다시 실행 목록의 B
+    history.push('c', 'C')
+    // limit를 넘은 A
+    history.push('d', 'D')
+    expect(dropped).toEqual(['B', 'A'])
+
+    history.clear()
+    expect(dropped).toEqual(['B', 'A', 'C', 'D'])
+  })
+
+  test('stores only changed indices and flips them back', () => {
+    const before = new Uint8Array([0, 1, 0, 0])
+    const after = new Uint8Array([1, 1, 0, 1])
+    const delta = maskDelta(before, after, 4)
+    expect(Array.from(delta)).toEqual([0, 3])
+
+    const mask = flipMask(before.slice(), delta, 4)
+    expect(Array.from(mask!)).toEqual(Array.from(after))
+    expect(Array.from(flipMask(mask, delta, 4)!)).toEqual(Array.from(before))
+    // 모두 0이 되면 null
+    expect(flipMask(null, maskDelta(null, after, 4), 4)).not.toBeNull()
+    expect(flipMask(after.slice(), maskDelta(after, null, 4), 4)).toBeNull()
+  })
+})
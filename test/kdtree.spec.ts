@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'vitest'
+import * as THREE from 'three'
+import { buildKDTree, nearestNeighbors, pickScreenNearest, radiusSearch } from '../src/services/pointcloud/kdtree'
+
+// 재현 가능한 의사 난수 좌표 (격자 위 중복 점 포함)
+function positions(count: number) {
+  let seed = 7
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+  const out = new Float32Array(count * 3)
+  for (let i = 0; i < out.length; i++) out[i] = Math.round(random() * 200) / 10
+  return out
+}
+
+function distance(p: Float32Array, i: number, q: THREE.Vector3) {
+  return Math.hypot(p[i * 3] - q.x, p[i * 3 + 1] - q.y, p[i * 3 + 2] - q.z)
+}
+
+describe('KD-tree', () => {
+  const points = positions(3000)
+  const tree = buildKDTree(points)
+  const query = new THREE.Vector3(10, 5, 12)
+  const all = Array.from({ length: 3000 }, (_, i) => i)
+
+  test('finds the same k nearest distances as a brute-force scan', () => {
+    const expected = all.map(i => distance(points, i, query)).sort((a, b) => a - b).slice(0, 10)
+    const found = nearestNeighbors(tree, points, query, 10).map(i => distance(points, i, query))
+    expect(found).toEqual(expected)
+  })
+
+  test('finds every point within a radius', () => {
+    const expected = all.filter(i => distance(points, i, query) <= 2.5)
+    expect(radiusSearch(tree, points, query, 2.5).sort((a, b) => a - b)).toEqual(expected)
+  })
+
+  test('picks the point closest to the ray in screen space', () => {
+    const origin = new THREE.Vector3(-30, -30, -30)
+    const target = 1234
+    const direction = new THREE.Vector3(points[target * 3], points[target * 3 + 1], points[target * 3 + 2]).sub(origin).normalize()
+    const pick = pickScreenNearest(tree, points, new THREE.Ray(origin, direction), 0.01)
+
+    expect(pick).not.toBeNull()
+    expect(pick!.angle).toBeLessThan(1e-6)
+    expect(pickScreenNearest(tree, points, new THREE.Ray(origin, direction.negate()), 0.01)).toBeNull()
+  })
+})
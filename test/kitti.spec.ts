@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'vitest'
+import {
+  SEMANTIC_KITTI_CLASSES,
+  applyKITTILabels,
+  colorByLabels,
+  encodeKITTILabels,
+  pairKITTIFiles,
+  parseKITTIBin,
+} from '../src/services/pointcloud/kitti'
+import { getPoint } from '../src/services/pointcloud/data'
+import { PointCloudData } from '../src/services/pointcloud/types'
+
+function records(cloud: PointCloudData) {
+  return Array.from({ length: cloud.count }, (_, i) => getPoint(cloud, i))
+}
+
+describe('KITTI scans', () => {
+  test('pairs a scan with the label file of the same name', () => {
+    const files = [{ name: '000001.label' }, { name: '000000.bin' }, { name: '000000.label' }]
+    expect(pairKITTIFiles(files)).toEqual({ scan: files[1], label: files[2] })
+    expect(pairKITTIFiles([{ name: '000000.label' }])).toBeNull()
+  })
+
+  test('reads x, y, z, intensity records and semantic/instance labels', () => {
+    const scan = new Float32Array([1, 2, 3, 0.5, 4, 5, 6, 0.25])
+    const labels = new Uint32Array([10, (7 << 16) | 30])
+    const cloud = parseKITTIBin(scan.buffer)
+    const counts = applyKITTILabels(cloud, labels.buffer)
+    const points = records(cloud)
+
+    expect(points.map(p => [p.x, p.y, p.z])).toEqual([[1, 2, 3], [4, 5, 6]])
+    expect(points[1].attributes).toEqual({ intensity: 0.25, label: 30, instance: 7 })
+    expect(Array.from(counts.entries())).toEqual([[10, 1], [30, 1]])
+
+    colorByLabels(cloud, SEMANTIC_KITTI_CLASSES)
+    expect(getPoint(cloud, 1).color).toEqual([255, 30, 30])
+  })
+
+  test('rejects label files with a different point count', () => {
+    const cloud = parseKITTIBin(new Float32Array(8).buffer)
+    expect(() => applyKITTILabels(cloud, new Uint32Array(3).buffer)).toThrow()
+  })
+
+  test('writes labels back in the .label layout', () => {
+    const cloud = parseKITTIBin(new Float32Array(8).buffer)
+    const labels = new Uint32Array([(2 << 16) | 40, 252])
+    applyKITTILabels(cloud, labels.buffer)
+    expect(Array.from(new Uint32Array(encodeKITTILabels(cloud).buffer))).toEqual(Array.from(labels))
+
+    // 라벨이 없는 클라우드는 모두 0
+    expect(Array.from(encodeKITTILabels(parseKITTIBin(new Float32Array(8).buffer)))).toEqual(new Array(8).fill(0))
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'vitest'
+import { parseLAS } from '../src/services/pointcloud/las'
+import { getPoint } from '../src/services/pointcloud/data'
+import { PointCloudData } from '../src/services/pointcloud/types'
+
+function records(cloud: PointCloudData) {
+  return Array.from({ length: cloud.count }, (_, i) => getPoint(cloud, i))
+}
+
+function las(format: number, recordLength: number, minor: number, write: (view: DataView, base: number, i: number) => void, count = 2) {
+  const headerSize = minor >= 4 ? 375 : 227
+  const view = new DataView(new ArrayBuffer(headerSize + recordLength * count))
+  new TextEncoder().encode('LASF').forEach((b, i) => view.setUint8(i, b))
+  view.setUint8(24, 1)
+  view.setUint8(25, minor)
+  view.setUint16(94, headerSize, true)
+  view.setUint32(96, headerSize, true)
+  view.setUint8(104, format)
+  view.setUint16(105, recordLength, true)
+  if (minor >= 4) {
+    view.setBigUint64(247, BigInt(count), true)
+  } else {
+    view.setUint32(107, count, true)
+  }
+  // scale 0.01, offset (1000, 2000, 0)
+  ;[131, 139, 147].forEach(o => view.setFloat64(o, 0.01, true))
+  view.setFloat64(155, 1000, true)
+  view.setFloat64(163, 2000, true)
+  for (let i = 0; i < count; i++) {
+    write(view, headerSize + i * recordLength, i)
+  }
+  return view.buffer
+}
+
+describe('parseLAS', () => {
+  test('applies scale/offset and reads legacy format 3 attributes', () => {
+    const points = records(parseLAS(las(3, 34, 2, (view, base, i) => {
+      view.setInt32(base, 150, true)
+      view.setInt32(base + 4, -50, true)
+      view.setInt32(base + 8, i * 100, true)
+      view.setUint16(base + 12, 300 + i, true)
+      view.setUint8(base + 14, 2 | (3 << 3))
+      view.setUint8(base + 15, 2 | 0x80)
+      view.setFloat64(base + 20, 12.5, true)
+      view.setUint16(base + 28, 255, true)
+    })))
+
+    expect([points[1].x, points[1].y, points[1].z]).toEqual([1001.5, 1999.5, 1])
+    expect(points[1].attributes).toMatchObject({
+      intensity: 301,
+      return_number: 2,
+      number_of_returns: 3,
+      classification: 2,
+      gps_time: 12.5,
+    })
+    // 8비트 값만 있으면 그대로 사용
+    expect(points[0].color![0]).eq(255)
+  })
+
+  test('reads LAS 1.4 extended format 6 records', () => {
+    const points = records(parseLAS(las(6, 30, 4, (view, base) => {
+      view.setUint8(base + 14, 5 | (7 << 4))
+      view.setUint8(base + 16, 40)
+      view.setFloat64(base + 22, 99, true)
+    }, 3)))
+
+    expect(points).toHaveLength(3)
+    expect(points[0].attributes).toMatchObject({ return_number: 5, number_of_returns: 7, classification: 40, gps_time: 99 })
+  })
+
+  test('rejects LAZ compressed data', () => {
+    expect(() => parseLAS(las(3 | 0x80, 34, 2, () => {}))).toThrow(/LAZ/)
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, expect, test } from 'vitest'
+import { Measurement, measurementValue, measurementsToCSV, measurementsToJSON } from '../src/services/pointcloud/measure'
+
+describe('measurements', () => {
+  test('computes distance, polyline, angle, area and height', () => {
+    expect(measurementValue({ kind: 'distance', points: [[0, 0, 0], [3, 4, 0]] })).eq(5)
+    expect(measurementValue({ kind: 'polyline', points: [[0, 0, 0], [3, 4, 0], [3, 4, 2]] })).eq(7)
+    expect(measurementValue({ kind: 'angle', points: [[1, 0, 0], [0, 0, 0], [0, 5, 0]] })).toBeCloseTo(90)
+    // 기울어진 평면 위의 2 x 2 정사각형
+    const s = Math.SQRT1_2 * 2
+    expect(measurementValue({ kind: 'area', points: [[0, 0, 0], [2, 0, 0], [2, s, s], [0, s, s]] })).toBeCloseTo(4)
+    expect(measurementValue({ kind: 'height', points: [[5, 5, 12], [0, 0, 10.5]] })).eq(1.5)
+    expect(measurementValue({ kind: 'angle', points: [[1, 0, 0], [0, 0, 0]] })).toBeNaN()
+  })
+
+  test('exports measurements as CSV and JSON', () => {
+    const measurements: Measurement[] = [
+      { id: 1, kind: 'distance', name: 'Pole, north', points: [[0, 0, 0], [0, 0, 2]] },
+      { id: 2, kind: 'angle', name: 'Corner', points: [[1, 0, 0], [0, 0, 0], [0, 1, 0]] },
+    ]
+    const lines = measurementsToCSV(measurements).trim().split('\n')
+
+    expect(lines[0]).eq('id,name,type,value,unit,points')
+    expect(lines[1]).eq('1,"Pole, north",distance,2,m,0 0 0;0 0 2')
+    expect(lines[2]).toMatch(/^2,Corner,angle,90(\.0+\d*)?,°,/)
+    const json = JSON.parse(measurementsToJSON(measurements))
+    expect(json[0]).toMatchObject({ name: 'Pole, north', kind: 'distance', value: 2, unit: 'm' })
+  })
+})
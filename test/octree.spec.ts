@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'vitest'
+import * as THREE from 'three'
+import { createPointCloudBuilder } from '../src/services/pointcloud/data'
+import { IndexedOctreeNode, buildOctree, gatherNode, lodViewOf, selectNodes } from '../src/services/pointcloud/octree'
+
+// 100 x 100 격자 평면 (간격 1)
+function plane() {
+  const builder = createPointCloudBuilder({ attributes: { intensity: Uint16Array } })
+  for (let i = 0; i < 10000; i++) {
+    builder.setAttribute('intensity', builder.add(i % 100, Math.floor(i / 100), 0), i)
+  }
+  return builder.build()
+}
+
+function nodes(root: IndexedOctreeNode): IndexedOctreeNode[] {
+  return [root, ...root.children.flatMap(child => (child ? nodes(child) : []))]
+}
+
+function camera(z: number) {
+  const camera = new THREE.PerspectiveCamera(60, 1, 0.1, 10000)
+  camera.position.set(50, 50, z)
+  camera.lookAt(50, 50, 0)
+  camera.updateProjectionMatrix()
+  return camera
+}
+
+describe('buildOctree', () => {
+  test('places every point in exactly one node inside its bounds', () => {
+    const cloud = plane()
+    const octree = buildOctree(cloud, { nodeCapacity: 500, gridSize: 16 })
+    const all = nodes(octree.root)
+
+    expect(all.length).toBeGreaterThan(1)
+    expect(new Set(octree.order).size).eq(cloud.count)
+    expect(all.reduce((sum, node) => sum + node.count, 0)).eq(cloud.count)
+    for (const node of all) {
+      const data = gatherNode(cloud, octree, node)
+      for (let axis = 0; axis < 3; axis++) {
+        expect(data.bounds.min[axis]).toBeGreaterThanOrEqual(node.bounds.min[axis])
+        expect(data.bounds.max[axis]).toBeLessThanOrEqual(node.bounds.max[axis])
+      }
+    }
+  })
+
+  test('gathers node attributes by original index', () => {
+    const cloud = plane()
+    const octree = buildOctree(cloud, { nodeCapacity: 500, gridSize: 16 })
+    const data = gatherNode(cloud, octree, octree.root)
+    const index = octree.order[octree.root.start + 3]
+
+    expect(data.attributes.intensity[3]).eq(index)
+    expect(Array.from(data.positions.subarray(9, 12))).toEqual(Array.from(cloud.positions.subarray(index * 3, index * 3 + 3)))
+  })
+})
+
+describe('selectNodes', () => {
+  const cloud = plane()
+  const octree = buildOctree(cloud, { nodeCapacity: 500, gridSize: 16 })
+
+  test('refines deeper when the camera is closer', () => {
+    const far = selectNodes(octree.root, lodViewOf(camera(5000), 600), { pointBudget: 1e9, maxScreenSpaceError: 2 })
+    const near = selectNodes(octree.root, lodViewOf(camera(60), 600), { pointBudget: 1e9, maxScreenSpaceError: 2 })
+
+    expect(far.map(node => node.name)).toEqual(['r'])
+    expect(near.length).toBeGreaterThan(far.length)
+  })
+
+  test('stays within the point budget', () => {
+    const selected = selectNodes(octree.root, lodViewOf(camera(60), 600), { pointBudget: 2000, maxScreenSpaceError: 0 })
+
+    expect(selected[0].name).eq('r')
+    expect(selected.reduce((sum, node) => sum + node.count, 0)).toBeLessThanOrEqual(2000)
+  })
+})
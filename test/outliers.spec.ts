@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'vitest'
+import { buildKDTree } from '../src/services/pointcloud/kdtree'
+import { findOutliers } from '../src/services/pointcloud/outliers'
+
+// 0.1 m 간격 5 x 5 격자 평면과 멀리 떨어진 점 하나 (인덱스 25)
+const positions = new Float32Array([
+  ...Array.from({ length: 25 }, (_, i) => [(i % 5) * 0.1, Math.floor(i / 5) * 0.1, 0]).flat(),
+  3, 3, 3,
+])
+const tree = buildKDTree(positions)
+
+const outlierIndices = (mask: Uint8Array) => Array.from(mask).flatMap((value, i) => (value ? [i] : []))
+
+describe('findOutliers', () => {
+  test('flags points far from their k nearest neighbours', () => {
+    const mask = findOutliers(positions, tree, { method: 'statistical', k: 4, stdRatio: 1 }, null)
+    expect(outlierIndices(mask)).toEqual([25])
+  })
+
+  test('flags points with too few neighbours within a radius', () => {
+    const mask = findOutliers(positions, tree, { method: 'radius', radius: 0.15, minNeighbors: 3 }, null)
+    // 격자 모서리는 이웃 3개 (0.1, 0.1, √2 × 0.1), 떨어진 점은 0개
+    expect(outlierIndices(mask)).toEqual([25])
+
+    // 숨긴 점은 검사하지 않고 이웃으로 세지도 않음: 모서리 (0, 0)의 이웃 (0.1, 0)을 숨기면 모서리가 이상점
+    const hidden = new Uint8Array(26)
+    hidden[1] = 1
+    hidden[25] = 1
+    expect(outlierIndices(findOutliers(positions, tree, { method: 'radius', radius: 0.15, minNeighbors: 3 }, hidden))).toEqual([0])
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, expect, test } from 'vitest'
+import { lzfDecompress } from '../src/services/pointcloud/lzf'
+import { parsePCD, parsePCDHeader } from '../src/services/pointcloud/pcd'
+import { getPoint } from '../src/services/pointcloud/data'
+import { PointCloudData } from '../src/services/pointcloud/types'
+
+function records(cloud: PointCloudData) {
+  return Array.from({ length: cloud.count }, (_, i) => getPoint(cloud, i))
+}
+
+// 리터럴 구간만 사용하는 최소 LZF 인코더
+function lzfLiteral(data: Uint8Array) {
+  const out: number[] = []
+  for (let i = 0; i < data.length; i += 32) {
+    const chunk = data.subarray(i, i + 32)
+    out.push(chunk.length - 1, ...chunk)
+  }
+  return new Uint8Array(out)
+}
+
+function concat(...parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.length
+  }
+  return out.buffer
+}
+
+function header(data: string, points: number, fields = ['FIELDS x y z', 'SIZE 4 4 4', 'TYPE F F F', 'COUNT 1 1 1'], viewpoint = '0 0 0 1 0 0 0') {
+  return new TextEncoder().encode([
+    '# .PCD v0.7 - Point Cloud Data file format',
+    'VERSION 0.7',
+    ...fields,
+    `WIDTH ${points}`,
+    'HEIGHT 1',
+    `VIEWPOINT ${viewpoint}`,
+    `POINTS ${points}`,
+    `DATA ${data}`,
+    '',
+  ].join('\n'))
+}
+
+describe('lzfDecompress', () => {
+  test('expands literal runs and overlapping back references', () => {
+    // 'ab' 리터럴 + 거리 2, 길이 6 역참조 -> 'abababab'
+    const input = new Uint8Array([1, 0x61, 0x62, (4 << 5) | 0, 1])
+    const output = lzfDecompress(input, 8)
+    expect(new TextDecoder().decode(output)).eq('abababab')
+  })
+
+  test('rejects references before the start of the output', () => {
+    expect(() => lzfDecompress(new Uint8Array([0x20, 5]), 3)).toThrow()
+  })
+})
+
+describe('parsePCD', () => {
+  const xyz = [[1, 2, 3], [4, 5, 6], [7, 8, 9]]
+
+  test('reads the header length up to the DATA line', () => {
+    const bytes = header('binary', 3)
+    expect(parsePCDHeader(bytes.buffer).headerLength).eq(bytes.length)
+  })
+
+  test('reads binary_compressed structure-of-arrays data', () => {
+    // 필드 단위 레이아웃: x0 x1 x2 y0 y1 y2 z0 z1 z2
+    const soa = new Float32Array(xyz.map(p => p[0]).concat(xyz.map(p => p[1]), xyz.map(p => p[2])))
+    const raw = new Uint8Array(soa.buffer)
+    const compressed = lzfLiteral(raw)
+    const sizes = new Uint8Array(8)
+    new DataView(sizes.buffer).setUint32(0, compressed.length, true)
+    new DataView(sizes.buffer).setUint32(4, raw.length, true)
+
+    const points = records(parsePCD(concat(header('binary_compressed', 3), sizes, compressed)))
+    expect(points.map(p => [p.x, p.y, p.z])).toEqual(xyz)
+  })
+
+  test('reads binary and ascii data identically', () => {
+    const aos = new Uint8Array(new Float32Array(xyz.flat()).buffer)
+    const binary = records(parsePCD(concat(header('binary', 3), aos)))
+    const ascii = records(parsePCD(concat(header('ascii', 3), new TextEncoder().encode(xyz.map(p => p.join(' ')).join('\n')))))
+    expect(binary.map(p => [p.x, p.y, p.z])).toEqual(xyz)
+    expect(ascii.map(p => [p.x, p.y, p.z])).toEqual(xyz)
+  })
+
+  test('decodes rgb stored as a packed float32', () => {
+    const fields = ['FIELDS x y z rgb', 'SIZE 4 4 4 4', 'TYPE F F F F', 'COUNT 1 1 1 1']
+    const record = new DataView(new ArrayBuffer(16))
+    record.setUint32(12, 0x00ff8000, true)
+    const [point] = records(parsePCD(concat(header('binary', 1, fields), new Uint8Array(record.buffer))))
+    expect(point.color).toEqual([255, 128, 0])
+  })
+
+  test('maps ascii columns through multi-count fields and skips NaN points', () => {
+    const fields = ['FIELDS fpfh x y z', 'SIZE 4 8 8 8', 'TYPE F F F F', 'COUNT 3 1 1 1']
+    const body = ['0.1 0.2 0.3 1 2 3', '0 0 0 nan nan nan', '0.4 0.5 0.6 4 5 6'].join('\n')
+    const points = records(parsePCD(concat(header('ascii', 3, fields), new TextEncoder().encode(body))))
+    expect(points.map(p => [p.x, p.y, p.z])).toEqual([[1, 2, 3], [4, 5, 6]])
+    expect(points[1].attributes.fpfh_2).toBeCloseTo(0.6)
+  })
+
+  test('keeps every other field as a typed attribute and reads normals', () => {
+    const fields = [
+      'FIELDS x y z intensity ring label timestamp normal_x normal_y normal_z _',
+      'SIZE 4 4 4 4 2 4 8 4 4 4 2',
+      'TYPE F F F F U U F F F F U',
+      'COUNT 1 1 1 1 1 1 1 1 1 1 1',
+    ]
+    const record = new DataView(new ArrayBuffer(46))
+    record.setFloat32(12, 0.5, true)
+    record.setUint16(16, 31, true)
+    record.setUint32(18, 40, true)
+    record.setFloat64(22, 1.5e9, true)
+    record.setFloat32(38, 1, true)
+    const cloud = parsePCD(concat(header('binary', 1, fields), new Uint8Array(record.buffer)))
+    const [point] = records(cloud)
+
+    expect(point.attributes).toEqual({ intensity: 0.5, ring: 31, label: 40, timestamp: 1.5e9 })
+    expect(point.normal).toEqual([0, 0, 1])
+    expect(cloud.attributes.ring).toBeInstanceOf(Uint16Array)
+    expect(cloud.attributes.timestamp).toBeInstanceOf(Float64Array)
+  })
+
+  test('applies the VIEWPOINT pose', () => {
+    // z축 기준 90도 회전 후 (10, 0, 0) 이동
+    const half = Math.SQRT1_2
+    const aos = new Uint8Array(new Float32Array([1, 0, 0]).buffer)
+    const [point] = records(parsePCD(concat(header('binary', 1, undefined, `10 0 0 ${half} 0 0 ${half}`), aos)))
+    expect(point.x).toBeCloseTo(10)
+    expect(point.y).toBeCloseTo(1)
+    expect(point.z).toBeCloseTo(0)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'vitest'
+import { parsePLY } from '../src/services/pointcloud/ply'
+import { getPoint } from '../src/services/pointcloud/data'
+import { PointCloudData } from '../src/services/pointcloud/types'
+
+function records(cloud: PointCloudData) {
+  return Array.from({ length: cloud.count }, (_, i) => getPoint(cloud, i))
+}
+
+function ply(format: string, body: Uint8Array) {
+  const header = new TextEncoder().encode([
+    'ply',
+    `format ${format} 1.0`,
+    'comment test',
+    'element vertex 2',
+    'property float x',
+    'property float y',
+    'property float z',
+    'property float nx',
+    'property float ny',
+    'property float nz',
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    'property float quality',
+    'element face 1',
+    'property list uchar int vertex_indices',
+    'end_header',
+    '',
+  ].join('\n'))
+  const out = new Uint8Array(header.length + body.length)
+  out.set(header)
+  out.set(body, header.length)
+  return out.buffer
+}
+
+describe('parsePLY', () => {
+  test('reads ascii vertices with normals, colors and scalar properties', () => {
+    const body = ['1 2 3 0 0 1 255 0 0 0.5', '4 5 6 0 1 0 0 255 0 0.25', '3 0 1 1'].join('\n')
+    const points = records(parsePLY(ply('ascii', new TextEncoder().encode(body))))
+
+    expect(points.map(p => [p.x, p.y, p.z])).toEqual([[1, 2, 3], [4, 5, 6]])
+    expect(points[0].normal).toEqual([0, 0, 1])
+    expect(points[1].color).toEqual([0, 255, 0])
+    expect(points[0].attributes).toEqual({ quality: 0.5 })
+  })
+
+  test('reads big endian binary vertices', () => {
+    const record = 6 * 4 + 3 + 4
+    const view = new DataView(new ArrayBuffer(record * 2))
+    ;[[1, 2, 3], [4, 5, 6]].forEach((xyz, i) => {
+      xyz.forEach((v, j) => view.setFloat32(i * record + j * 4, v, false))
+      view.setUint8(i * record + 24, 255)
+      view.setFloat32(i * record + 27, i, false)
+    })
+
+    const points = records(parsePLY(ply('binary_big_endian', new Uint8Array(view.buffer))))
+    expect(points.map(p => [p.x, p.y, p.z])).toEqual([[1, 2, 3], [4, 5, 6]])
+    expect(points[1].color![0]).eq(255)
+    expect(points[1].attributes.quality).eq(1)
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'vitest'
+import { getPoint } from '../src/services/pointcloud/data'
+import { PotreeMetadata, createPotreeDataset, decodePotreeNode, parsePotreeMetadata } from '../src/services/pointcloud/potree'
+
+const metadata: PotreeMetadata = {
+  version: '2.0',
+  name: 'block',
+  points: 3,
+  hierarchy: { firstChunkSize: 44, stepSize: 4, depth: 1 },
+  offset: [500000, 4000000, 0],
+  scale: [0.01, 0.01, 0.01],
+  spacing: 1,
+  boundingBox: { min: [500000, 4000000, 0], max: [500010, 4000010, 10] },
+  encoding: 'DEFAULT',
+  attributes: [
+    { name: 'position', size: 12, numElements: 3, elementSize: 4, type: 'int32' },
+    { name: 'intensity', size: 2, numElements: 1, elementSize: 2, type: 'uint16', min: [1000], max: [1002] },
+    { name: 'rgb', size: 6, numElements: 3, elementSize: 2, type: 'uint16' },
+    { name: 'classification', size: 1, numElements: 1, elementSize: 1, type: 'uint8' },
+  ],
+}
+
+const POINT_SIZE = 21
+
+function octree() {
+  const view = new DataView(new ArrayBuffer(POINT_SIZE * 3))
+  const points = [[100, 200, 300], [150, 250, 350], [900, 900, 900]]
+  points.forEach((xyz, i) => {
+    const base = i * POINT_SIZE
+    xyz.forEach((v, k) => view.setInt32(base + k * 4, v, true))
+    view.setUint16(base + 12, 1000 + i, true)
+    ;[65535, 32768, 0].forEach((c, k) => view.setUint16(base + 14 + k * 2, c, true))
+    view.setUint8(base + 20, i === 2 ? 6 : 2)
+  })
+  return new Uint8Array(view.buffer)
+}
+
+function hierarchy() {
+  const view = new DataView(new ArrayBuffer(22 * 3))
+  const record = (i: number, type: number, mask: number, points: number, offset: number, size: number) => {
+    view.setUint8(i * 22, type)
+    view.setUint8(i * 22 + 1, mask)
+    view.setUint32(i * 22 + 2, points, true)
+    view.setBigUint64(i * 22 + 6, BigInt(offset), true)
+    view.setBigUint64(i * 22 + 14, BigInt(size), true)
+  }
+  // 첫 청크: 루트 + 하위 청크를 가리키는 프록시 r7
+  record(0, 0, 1 << 7, 2, 0, POINT_SIZE * 2)
+  record(1, 2, 0, 1, 44, 22)
+  // 두 번째 청크: r7 리프
+  record(2, 1, 0, 1, POINT_SIZE * 2, POINT_SIZE)
+  return new Uint8Array(view.buffer)
+}
+
+function dataset() {
+  const files = { 'hierarchy.bin': hierarchy(), 'octree.bin': octree() }
+  const reads: string[] = []
+  const read = async (name: keyof typeof files, offset: number, length: number) => {
+    reads.push(`${name}:${offset}`)
+    return files[name].slice(offset, offset + length)
+  }
+  return { dataset: createPotreeDataset(metadata, read), reads }
+}
+
+describe('Potree 2.0 datasets', () => {
+  test('rejects unsupported versions and encodings', () => {
+    expect(() => parsePotreeMetadata(JSON.stringify({ ...metadata, version: '1.8' }))).toThrow(/version/)
+    expect(() => parsePotreeMetadata(JSON.stringify({ ...metadata, encoding: 'BROTLI' }))).toThrow(/BROTLI/)
+    expect(parsePotreeMetadata(JSON.stringify(metadata)).points).eq(3)
+  })
+
+  test('decodes node points with scale, offset and attributes', async () => {
+    const { dataset: { root, loadNode, offset, ranges } } = dataset()
+    const data = await loadNode(root)
+
+    expect(offset).toEqual([500000, 4000000, 0])
+    expect(ranges).toEqual({ intensity: [1000, 1002] })
+    expect(data.count).eq(2)
+    const point = getPoint(data, 1)
+    expect([point.x, point.y, point.z]).toEqual([500001.5, 4000002.5, 3.5])
+    expect(point.color).toEqual([255, 128, 0])
+    expect(point.attributes).toEqual({ intensity: 1001, classification: 2 })
+  })
+
+  test('reads proxy hierarchy chunks on demand', async () => {
+    const { dataset: { root, loadNode }, reads } = dataset()
+    await loadNode(root)
+    const child = root.children[7]!
+
+    expect(child.nodeType).eq(2)
+    expect(child.bounds).toEqual({ min: [5, 5, 5], max: [10, 10, 10] })
+    const data = await loadNode(child)
+
+    expect(reads).toEqual(['hierarchy.bin:0', 'octree.bin:0', 'hierarchy.bin:44', `octree.bin:${POINT_SIZE * 2}`])
+    expect(child.nodeType).eq(1)
+    expect(getPoint(data, 0).attributes.classification).eq(6)
+  })
+
+  test('decides the 16-bit color shift per dataset, not per node', () => {
+    // 값이 모두 255 이하인 어두운 노드도 16비트 데이터셋이면 줄임
+    const dark = octree()
+    const view = new DataView(dark.buffer)
+    ;[200, 100, 0].forEach((c, k) => view.setUint16(14 + k * 2, c, true))
+    expect(getPoint(decodePotreeNode(metadata, metadata.offset, dark, 1), 0).color).toEqual([0, 0, 0])
+
+    // metadata 최대값이 255 이하면 8비트 색상을 uint16으로 저장한 것
+    const eightBit = {
+      ...metadata,
+      attributes: metadata.attributes.map(a => (a.name === 'rgb' ? { ...a, min: [0, 0, 0], max: [255, 255, 255] } : a)),
+    }
+    expect(getPoint(decodePotreeNode(eightBit, metadata.offset, dark, 1), 0).color).toEqual([200, 100, 0])
+  })
+})
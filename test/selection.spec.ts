@@ -0,0 +1,80 @@
+import * as THREE from 'three'
+import { describe, expect, test } from 'vitest'
+import { countSelected, frontSurface, pointInPolygon, selectInBox, selectInCircle, selectInLasso, selectedIndices } from '../src/services/pointcloud/selection'
+
+const positions = new Float32Array([
+  0, 0, 0,
+  1.5, 0, 0,
+  0, 0.9, 0,
+  0, 0, -5,
+  0, 0, 5,
+])
+
+describe('selection', () => {
+  test('selects points inside a rotated box', () => {
+    // 원점 중심, z축으로 45도 돈 2.2 x 2.2 x 2.2 상자
+    const box = new THREE.Matrix4().compose(
+      new THREE.Vector3(),
+      new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.PI / 4),
+      new THREE.Vector3(2.2, 2.2, 2.2)
+    )
+    const selected = selectInBox(positions, 5, box.clone().invert())
+
+    // (1.5, 0, 0)은 축 정렬 상자라면 밖이지만 돌린 상자의 대각선 방향이라 안쪽 (중심에서 모서리까지 1.1√2)
+    expect(Array.from(selected)).toEqual([1, 1, 1, 0, 0])
+    expect(countSelected(selectInBox(positions, 5, box.clone().invert(), (i) => i !== 0))).eq(2)
+  })
+
+  test('selects points inside a screen polygon', () => {
+    expect(pointInPolygon(0.5, 0.5, [[0, 0], [1, 0], [1, 1], [0, 1]])).toBe(true)
+    expect(pointInPolygon(1.5, 0.5, [[0, 0], [1, 0], [1, 1], [0, 1]])).toBe(false)
+
+    // z = 10에서 원점을 보는 카메라
+    const camera = new THREE.PerspectiveCamera(90, 1, 0.1, 100)
+    camera.position.set(0, 0, 10)
+    camera.lookAt(0, 0, 0)
+    camera.updateMatrixWorld()
+    const toClip = camera.projectionMatrix.clone().multiply(camera.matrixWorldInverse)
+    const polygon: [number, number][] = [[-0.05, -0.05], [0.05, -0.05], [0.05, 0.05], [-0.05, 0.05]]
+
+    // 화면 가운데의 점은 깊이와 상관없이 고르고 옆으로 비켜난 점은 고르지 않음
+    expect(Array.from(selectInLasso(positions, 5, toClip, polygon))).toEqual([1, 0, 0, 1, 1])
+    // 카메라 뒤의 점은 고르지 않음
+    camera.position.set(0, 0, 2)
+    camera.updateMatrixWorld()
+    const near = camera.projectionMatrix.clone().multiply(camera.matrixWorldInverse)
+    expect(Array.from(selectInLasso(positions, 5, near, polygon))).toEqual([1, 0, 0, 1, 0])
+  })
+
+  test('selects points inside a screen circle', () => {
+    const camera = new THREE.PerspectiveCamera(90, 1, 0.1, 100)
+    camera.position.set(0, 0, 10)
+    camera.lookAt(0, 0, 0)
+    camera.updateMatrixWorld()
+    const toClip = camera.projectionMatrix.clone().multiply(camera.matrixWorldInverse)
+
+    // 거리 10에서 (0, 0.9)는 NDC 0.09, (1.5, 0)은 0.15
+    expect(Array.from(selectInCircle(positions, 5, toClip, [0, 0], [0.1, 0.1]))).toEqual([1, 0, 1, 1, 1])
+    // 가로 반지름이 넓은 타원
+    expect(Array.from(selectInCircle(positions, 5, toClip, [0, 0], [0.2, 0.05]))).toEqual([1, 1, 0, 1, 1])
+    expect(countSelected(selectInCircle(positions, 5, toClip, [0, 0], [0.1, 0.1], (i) => i < 3))).eq(2)
+  })
+  test('keeps only the front surface under the brush', () => {
+    const camera = new THREE.PerspectiveCamera(90, 1, 0.1, 100)
+    camera.position.set(0, 0, 10)
+    camera.lookAt(0, 0, 0)
+    camera.updateMatrixWorld()
+    const toClip = camera.projectionMatrix.clone().multiply(camera.matrixWorldInverse)
+    const indices = selectedIndices(selectInCircle(positions, 5, toClip, [0, 0], [0.1, 0.1]))
+    expect(Array.from(indices)).toEqual([0, 2, 3, 4])
+
+    // 화면 가운데 칸의 점 0, 3, 4 중 가장 앞(z = 5)만 남고, 다른 칸의 점 2는 그대로 남음
+    const [kept] = frontSurface([{ positions, toClip, indices }], [40, 40])
+    expect(Array.from(kept)).toEqual([2, 4])
+    // 다른 클라우드의 더 앞 점에도 가려짐
+    const wall = new Float32Array([0, 0, 8])
+    const [behind, front] = frontSurface([{ positions, toClip, indices }, { positions: wall, toClip, indices: new Uint32Array([0]) }], [40, 40])
+    expect(Array.from(behind)).toEqual([2])
+    expect(Array.from(front)).toEqual([0])
+  })
+})
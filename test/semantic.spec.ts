@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'vitest'
+import { UNLABELED, countLabels, ensureLabels, paintLabels } from '../src/services/pointcloud/semantic'
+import { parseKITTIBin } from '../src/services/pointcloud/kitti'
+
+describe('semantic painting', () => {
+  test('adds an empty label field once', () => {
+    const cloud = parseKITTIBin(new Float32Array(12).buffer)
+    const labels = ensureLabels(cloud)
+    expect(Array.from(labels)).toEqual([UNLABELED, UNLABELED, UNLABELED])
+    labels[0] = 5
+    expect(ensureLabels(cloud)).toBe(labels)
+  })
+
+  test('paints the given points and can skip labeled ones', () => {
+    const labels = new Uint16Array([0, 10, 0, 10])
+    const indices = [0, 1, 3]
+    expect(Array.from(paintLabels(labels.slice(), indices, 10, false).indices)).toEqual([0])
+
+    const all = labels.slice()
+    const change = paintLabels(all, indices, 20, false)
+    expect(Array.from(all)).toEqual([20, 20, 0, 20])
+    // 되돌릴 수 있도록 이전 값을 함께 돌려줌
+    expect(Array.from(change.indices)).toEqual([0, 1, 3])
+    expect(Array.from(change.previous)).toEqual([0, 10, 10])
+
+    const unlabeled = labels.slice()
+    expect(paintLabels(unlabeled, indices, 20, true).indices.length).eq(1)
+    expect(Array.from(unlabeled)).toEqual([20, 10, 0, 10])
+  })
+
+  test('counts labels across clouds', () => {
+    const counts = countLabels(new Uint16Array([0, 10, 10]))
+    countLabels(new Uint16Array([10, 20, 20]), counts, (i) => i !== 2)
+    expect(Array.from(counts.entries())).toEqual([[0, 1], [10, 3], [20, 1]])
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'vitest'
+import { guessTextImportOptions, parseDelimitedText } from '../src/services/pointcloud/text'
+import { getPoint } from '../src/services/pointcloud/data'
+import { PointCloudData } from '../src/services/pointcloud/types'
+
+function records(cloud: PointCloudData) {
+  return Array.from({ length: cloud.count }, (_, i) => getPoint(cloud, i))
+}
+
+// 청크 경계가 줄 중간에 걸리도록 작은 단위로 나눈 스트림
+function streamOf(text: string, chunkSize = 7) {
+  const bytes = new TextEncoder().encode(text)
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        controller.enqueue(bytes.subarray(i, i + chunkSize))
+      }
+      controller.close()
+    },
+  })
+}
+
+describe('text point clouds', () => {
+  test('guesses columns from a csv header', () => {
+    const sample = 'X,Y,Z,Intensity,label\n1,2,3,10,4\n4,5,6,20,5\n'
+    const options = guessTextImportOptions('scan.csv', sample)
+    expect(options.delimiter).eq(',')
+    expect(options.skipLines).eq(1)
+    expect(options.columns.map(c => c.role)).toEqual(['x', 'y', 'z', 'intensity', 'custom'])
+  })
+
+  test('skips the PTS point count line and assumes x y z intensity r g b', () => {
+    const options = guessTextImportOptions('scan.pts', '2\n1 2 3 -100 255 0 0\n4 5 6 -200 0 255 0\n')
+    expect(options.delimiter).eq(' ')
+    expect(options.skipLines).eq(1)
+    expect(options.columns.map(c => c.role)).toEqual(['x', 'y', 'z', 'intensity', 'r', 'g', 'b'])
+  })
+
+  test('streams rows through the column mapping', async () => {
+    const text = '2\n1 2 3 -100 255 0 0\n4 5 6 -200 0 255 0\n'
+    const options = guessTextImportOptions('scan.pts', text)
+    const points = records(await parseDelimitedText(streamOf(text), options))
+
+    expect(points.map(p => [p.x, p.y, p.z])).toEqual([[1, 2, 3], [4, 5, 6]])
+    expect(points[1].attributes).toEqual({ intensity: -200 })
+    expect(points[1].color).toEqual([0, 255, 0])
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'vitest'
+import { createPointCloudBuilder, getPoint } from '../src/services/pointcloud/data'
+import { voxelDownsample } from '../src/services/pointcloud/voxel'
+
+// 1 m 복셀 두 개 ([0, 1)과 [1, 2) x 방향)에 점 3개와 1개
+const sample = () => {
+  const builder = createPointCloudBuilder({ color: true, attributes: { intensity: Uint16Array, range: Float32Array } })
+  const points = [
+    [0.1, 0.5, 0.5, 0, 10, 1],
+    [0.55, 0.45, 0.5, 100, 11, 2],
+    [0.9, 0.9, 0.9, 200, 20, 4],
+    [1.5, 0.5, 0.5, 50, 7, 8],
+  ]
+  for (const [x, y, z, red, intensity, range] of points) {
+    const index = builder.add(x, y, z)
+    builder.setColor(index, red, 0, 0)
+    builder.setAttribute('intensity', index, intensity)
+    builder.setAttribute('range', index, range)
+  }
+  return builder.build()
+}
+
+describe('voxelDownsample', () => {
+  test('keeps one centroid per voxel and averages colors and attributes', () => {
+    const cloud = voxelDownsample(sample(), { leafSize: 1, mode: 'centroid' })
+
+    expect(cloud.count).eq(2)
+    const first = getPoint(cloud, 0)
+    expect(first.x).toBeCloseTo(0.5167, 3)
+    expect(first.y).toBeCloseTo(0.6167, 3)
+    expect(first.color).toEqual([100, 0, 0])
+    // 정수 속성은 반올림 (41 / 3)
+    expect(first.attributes.intensity).eq(14)
+    expect(first.attributes.range).toBeCloseTo(7 / 3)
+    expect(getPoint(cloud, 1)).toMatchObject({ x: 1.5, color: [50, 0, 0], attributes: { intensity: 7, range: 8 } })
+  })
+
+  test('keeps the original point nearest to each voxel center', () => {
+    const cloud = voxelDownsample(sample(), { leafSize: 1, mode: 'nearest' })
+
+    expect(cloud.count).eq(2)
+    expect([getPoint(cloud, 0).x, getPoint(cloud, 0).y]).toEqual([0.55, 0.45].map(Math.fround))
+    expect(getPoint(cloud, 0).color).toEqual([100, 0, 0])
+    expect(() => voxelDownsample(sample(), { leafSize: 0, mode: 'nearest' })).toThrow()
+  })
+
+  test('keeps categorical attributes instead of averaging them', () => {
+    const builder = createPointCloudBuilder({ attributes: { classification: Uint8Array, label: Uint16Array } })
+    const points = [
+      [0.1, 0.5, 0.5, 2, 40],
+      [0.5, 0.5, 0.5, 6, 10],
+      [0.9, 0.5, 0.5, 6, 40],
+    ]
+    for (const [x, y, z, classification, label] of points) {
+      const index = builder.add(x, y, z)
+      builder.setAttribute('classification', index, classification)
+      builder.setAttribute('label', index, label)
+    }
+
+    // 평균(4.7, 30)이 아니라 가장 많은 값
+    expect(getPoint(voxelDownsample(builder.build(), { leafSize: 1, mode: 'centroid' }), 0).attributes)
+      .toEqual({ classification: 6, label: 40 })
+    // nearest 모드는 복셀 중심에 가장 가까운 점의 값
+    expect(getPoint(voxelDownsample(builder.build(), { leafSize: 1, mode: 'nearest' }), 0).attributes)
+      .toEqual({ classification: 6, label: 10 })
+  })
+})